@@ -0,0 +1,26 @@
+import { mkdirSync, writeFileSync } from 'node:fs'
+import { dirname } from 'node:path'
+import { compareRecordedPromptVersions } from '@/lib/agentEvaluation'
+import { EVALUATION_CORPUS } from '@/lib/evaluationCorpus'
+import { RECORDED_EVALUATION } from '@/lib/evaluationRecordings'
+import { CURRENT_REACT_PROMPT_VERSION } from '@/lib/reactPrompts'
+
+// Scores two prompt versions on the recorded corpus runs and writes the Markdown report:
+//   npm run eval:compare -- <baseline> [candidate] [output file]
+// The candidate defaults to the current prompt version
+
+const [baseline, candidate = CURRENT_REACT_PROMPT_VERSION, output = `evaluation-reports/${baseline}-vs-${candidate}.md`] = process.argv.slice(2)
+
+if (!baseline) {
+  console.error('Usage: npm run eval:compare -- <baseline> [candidate] [output file]')
+  process.exit(1)
+}
+
+const { comparison, report } = await compareRecordedPromptVersions(EVALUATION_CORPUS, RECORDED_EVALUATION, baseline, candidate)
+mkdirSync(dirname(output), { recursive: true })
+writeFileSync(output, `${report}\n`)
+
+const regressions = comparison.cases.filter(result => result.change === 'regressed').length
+console.log(`${baseline} ${Math.round(comparison.baseline.score * 100)}% → ${candidate} ${Math.round(comparison.candidate.score * 100)}%, ${regressions} regression(s). Report written to ${output}`)
+// Session sync and the write outbox keep timers and channels open
+process.exit(0)
@@ -1,20 +1,34 @@
-/* eslint-disable @typescript-eslint/no-use-before-define */
 import { useState, useEffect, useCallback } from 'react'
 import { Header } from '@/components/layout/Header'
+import { OfflineBanner } from '@/components/layout/OfflineBanner'
 import { ConversationalOnboarding } from '@/components/onboarding/ConversationalOnboarding'
 import { ReActConversationalSearchWithMemory } from '@/components/search/ReActConversationalSearchWithMemory'
 import { GoogleMap } from '@/components/map/GoogleMap'
 import { InteractiveMap } from '@/components/map/InteractiveMap'
 import { PropertyCard } from '@/components/property/PropertyCard'
 import { PropertyListing } from '@/components/property/PropertyListing'
+import { PropertyDetails } from '@/components/property/PropertyDetails'
+import { PropertyFilters } from '@/components/property/PropertyFilters'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Property } from '@/types'
 import { blink } from '@/lib/blink'
+import { llmGateway } from '@/lib/llmGateway'
 import { simplePropertyService } from '@/lib/simplePropertyService'
+import { applyListingFilters, countActiveFilters, LISTING_SORTS, type ListingSort } from '@/lib/listingFilters'
+import { AREA_DISPLAY_OPTIONS, type AreaDisplay } from '@/lib/landUnits'
+import { profileSearchQuery, userProfileService, type OnboardingAnswers } from '@/lib/userProfile'
+import { writeOutbox } from '@/lib/writeOutbox'
 import { useAppStore } from '@/store/appStore'
 import { 
   Map, 
@@ -40,7 +54,11 @@ function App() {
     mapProvider,
     propertiesLoading,
     showOnboarding,
-    userPreferences,
+    isFilterPanelOpen,
+    listingFilters,
+    listingSort,
+    areaDisplay,
+    userProfile,
     // Actions from store
     setProperties,
     setAllProperties,
@@ -49,13 +67,23 @@ function App() {
     setMapProvider,
     setPropertiesLoading,
     setShowOnboarding,
-    setUserPreferences,
+    setUserProfile,
+    addSearchContext,
+    toggleFilterPanel,
+    setListingFilters,
+    setListingSort,
+    setAreaDisplay,
     addProperty
   } = useAppStore()
 
   const [user, setUser] = useState<any>(null)
   const [loading, setLoading] = useState(true)
   const [showPropertyListing, setShowPropertyListing] = useState(false)
+  const [detailProperty, setDetailProperty] = useState<Property | null>(null)
+
+  const visibleProperties = applyListingFilters(properties, listingFilters, listingSort)
+  const activeFilterCount = countActiveFilters(listingFilters)
+  const favoriteIds = userProfile?.favoriteProperties || []
 
   // Define loadAllProperties function first
   const loadAllProperties = useCallback(async () => {
@@ -76,17 +104,25 @@ function App() {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
       setUser(state.user)
       setLoading(state.isLoading)
+      // Model usage is budgeted per user, including calls made before a chat session starts
+      llmGateway.setUser(state.user?.id)
     })
     return unsubscribe
   }, [])
 
+  // The store mirrors the shared profile for components that render from it
+  useEffect(() => userProfileService.onChange(setUserProfile), [setUserProfile])
+
+  // Sends writes made offline, now and whenever the connection returns
+  useEffect(() => writeOutbox.start(), [])
+
   // Load all properties when user is authenticated
   useEffect(() => {
     const checkUserOnboardingStatus = async () => {
       try {
         // Check if user has completed onboarding before
-        const hasCompletedOnboarding = localStorage.getItem(`onboarding_completed_${user.id}`)
-        if (!hasCompletedOnboarding) {
+        const profile = await userProfileService.load(user.id)
+        if (!profile.onboardedAt) {
           setShowOnboarding(true)
         }
       } catch (error) {
@@ -94,12 +130,19 @@ function App() {
       }
     }
 
+    const loadAreaDisplay = () => {
+      const saved = localStorage.getItem(`area_display_${user.id}`)
+      const option = AREA_DISPLAY_OPTIONS.find(displayOption => displayOption.value === saved)
+      if (option) setAreaDisplay(option.value)
+    }
+
     if (user && !loading) {
       loadAllProperties()
       // Check if user is new (no preferences stored)
       checkUserOnboardingStatus()
+      loadAreaDisplay()
     }
-  }, [user, loading, setShowOnboarding, loadAllProperties])
+  }, [user, loading, setShowOnboarding, setAreaDisplay, loadAllProperties])
 
 
 
@@ -112,6 +155,20 @@ function App() {
     setSelectedProperty(property)
   }
 
+  // A listing cited in a chat answer may not be in the current results; add it so the map can show it
+  const handleCitedPropertySelect = (property: Property) => {
+    if (!properties.some(existing => existing.id === property.id)) {
+      setProperties([property, ...properties])
+    }
+    setActiveView('map')
+    setSelectedProperty(property)
+  }
+
+  const handleViewDetails = (property: Property) => {
+    setSelectedProperty(property)
+    setDetailProperty(property)
+  }
+
   const handleAddProperty = () => {
     setShowPropertyListing(true)
   }
@@ -121,9 +178,13 @@ function App() {
     setProperties(prev => [newProperty, ...prev])
   }
 
-  const handleFavorite = (property: Property) => {
-    // TODO: Implement favorite functionality
-    console.log('Favorite property:', property.id)
+  const handleAreaDisplayChange = (display: AreaDisplay) => {
+    setAreaDisplay(display)
+    if (user) localStorage.setItem(`area_display_${user.id}`, display)
+  }
+
+  const handleFavorite = async (property: Property) => {
+    await simplePropertyService.toggleFavorite(property)
   }
 
   const handleContact = (property: Property) => {
@@ -131,17 +192,18 @@ function App() {
     console.log('Contact for property:', property.id)
   }
 
-  const handleOnboardingComplete = (preferences: any) => {
-    setUserPreferences(preferences)
+  const handleOnboardingComplete = async (answers: OnboardingAnswers) => {
     setShowOnboarding(false)
-    // Mark onboarding as completed
-    localStorage.setItem(`onboarding_completed_${user.id}`, 'true')
-    
-    // Trigger search based on preferences
-    if (preferences.location || preferences.intent) {
-      const searchQuery = buildSearchQueryFromPreferences(preferences)
-      // You can trigger the search here or pass to the search component
-      console.log('Search query from onboarding:', searchQuery)
+    // Saved to the shared profile, so the chat agent does not ask for these again
+    await userProfileService.applyOnboarding(user.id, answers)
+
+    const profile = userProfileService.get()
+    if (profile) {
+      addSearchContext({
+        query: profileSearchQuery(profile),
+        preferences: profile,
+        timestamp: new Date()
+      })
     }
   }
 
@@ -154,35 +216,6 @@ function App() {
     setShowOnboarding(true)
   }
 
-  const buildSearchQueryFromPreferences = (preferences: any) => {
-    const parts = []
-    
-    if (preferences.intent === 'rent') {
-      parts.push('looking for rental')
-    } else if (preferences.intent === 'buy') {
-      parts.push('looking to buy')
-    }
-    
-    if (preferences.bedrooms) {
-      parts.push(`${preferences.bedrooms} bedroom${preferences.bedrooms > 1 ? 's' : ''}`)
-    }
-    
-    if (preferences.location) {
-      parts.push(`in ${preferences.location}`)
-    }
-    
-    if (preferences.budget) {
-      const budgetType = preferences.budgetType === 'rent' ? 'monthly rent' : 'budget'
-      parts.push(`${budgetType} around NPR ${preferences.budget.toLocaleString()}`)
-    }
-    
-    if (preferences.amenities && preferences.amenities.length > 0) {
-      parts.push(`with ${preferences.amenities.join(', ')}`)
-    }
-    
-    return parts.join(' ')
-  }
-
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -248,6 +281,7 @@ function App() {
             <div className="h-full">
               <ReActConversationalSearchWithMemory
                 onPropertiesFound={handlePropertiesFound}
+                onPropertySelect={handleCitedPropertySelect}
                 onClose={() => {}} // No close button needed in sidebar
               />
             </div>
@@ -259,13 +293,13 @@ function App() {
               <div className="h-full relative">
                 {mapProvider === 'google' ? (
                   <GoogleMap
-                    properties={properties}
+                    properties={visibleProperties}
                     selectedProperty={selectedProperty}
                     onPropertySelect={handlePropertySelect}
                   />
                 ) : (
                   <InteractiveMap
-                    properties={properties}
+                    properties={visibleProperties}
                     selectedProperty={selectedProperty}
                     onPropertySelect={handlePropertySelect}
                   />
@@ -296,13 +330,15 @@ function App() {
             ) : properties.length > 0 ? (
               <div className="p-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                  {properties.map((property) => (
+                  {visibleProperties.map((property) => (
                     <PropertyCard
                       key={property.id}
                       property={property}
+                      isFavorite={favoriteIds.includes(property.id)}
                       onSelect={handlePropertySelect}
                       onFavorite={handleFavorite}
                       onContact={handleContact}
+                      onViewDetails={handleViewDetails}
                     />
                   ))}
                 </div>
@@ -381,20 +417,45 @@ function App() {
               <div className="p-4 border-b">
                 <div className="flex items-center justify-between mb-4">
                   <h2 className="text-lg font-semibold">
-                    {properties.length} Properties Found
+                    {activeFilterCount > 0 ? `${visibleProperties.length} of ${properties.length}` : properties.length} Properties Found
                   </h2>
                   <div className="flex items-center space-x-2">
-                    <Button variant="outline" size="sm">
+                    <Button variant={isFilterPanelOpen ? 'secondary' : 'outline'} size="sm" onClick={toggleFilterPanel}>
                       <Filter className="w-4 h-4 mr-1" />
                       Filter
+                      {activeFilterCount > 0 && (
+                        <Badge variant="secondary" className="ml-1 px-1.5 text-xs">{activeFilterCount}</Badge>
+                      )}
                     </Button>
-                    <Button variant="outline" size="sm">
-                      <SortAsc className="w-4 h-4 mr-1" />
-                      Sort
-                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm">
+                          <SortAsc className="w-4 h-4 mr-1" />
+                          Sort
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuRadioGroup value={listingSort} onValueChange={(value) => setListingSort(value as ListingSort)}>
+                          {LISTING_SORTS.map(sort => (
+                            <DropdownMenuRadioItem key={sort.value} value={sort.value}>
+                              {sort.label}
+                            </DropdownMenuRadioItem>
+                          ))}
+                        </DropdownMenuRadioGroup>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </div>
 
+                {isFilterPanelOpen && (
+                  <PropertyFilters
+                    filters={listingFilters}
+                    onFiltersChange={setListingFilters}
+                    areaDisplay={areaDisplay}
+                    onAreaDisplayChange={handleAreaDisplayChange}
+                  />
+                )}
+
                 <Tabs value={activeView} onValueChange={(value) => setActiveView(value as 'map' | 'list')}>
                   <TabsList className="grid w-full grid-cols-2">
                     <TabsTrigger value="map" className="flex items-center space-x-1">
@@ -411,13 +472,20 @@ function App() {
 
               <ScrollArea className="h-[calc(100vh-12rem)]">
                 <div className="p-4 space-y-4">
-                  {properties.map((property) => (
+                  {visibleProperties.length === 0 && (
+                    <p className="text-sm text-muted-foreground text-center py-8">
+                      No listings match these filters.
+                    </p>
+                  )}
+                  {visibleProperties.map((property) => (
                     <PropertyCard
                       key={property.id}
                       property={property}
+                      isFavorite={favoriteIds.includes(property.id)}
                       onSelect={handlePropertySelect}
                       onFavorite={handleFavorite}
                       onContact={handleContact}
+                      onViewDetails={handleViewDetails}
                       className={selectedProperty?.id === property.id ? 'ring-2 ring-primary' : ''}
                     />
                   ))}
@@ -436,6 +504,15 @@ function App() {
         />
       )}
 
+      {/* Property Detail View */}
+      <PropertyDetails
+        property={detailProperty}
+        onClose={() => setDetailProperty(null)}
+      />
+
+      {/* Offline and saved-data notice */}
+      <OfflineBanner onRetry={loadAllProperties} />
+
       {/* Conversational Onboarding Modal */}
       {showOnboarding && (
         <ConversationalOnboarding
@@ -4,7 +4,9 @@ import { Input } from '@/components/ui/input'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { Badge } from '@/components/ui/badge'
-import { Search, MapPin, User, Settings, LogOut, Plus, Heart, MessageSquare } from 'lucide-react'
+import { UsageSummaryDialog } from '@/components/layout/UsageSummaryDialog'
+import { PrivacyCenterDialog } from '@/components/layout/PrivacyCenterDialog'
+import { Search, MapPin, User, Settings, LogOut, Plus, Heart, MessageSquare, Gauge, ShieldCheck } from 'lucide-react'
 import { blink } from '@/lib/blink'
 
 interface HeaderProps {
@@ -15,6 +17,8 @@ interface HeaderProps {
 
 export function Header({ onAddProperty, onStartOnboarding, user }: HeaderProps) {
   const [searchQuery, setSearchQuery] = useState('')
+  const [showUsage, setShowUsage] = useState(false)
+  const [showPrivacy, setShowPrivacy] = useState(false)
 
   const handleLogout = () => {
     blink.auth.logout()
@@ -109,6 +113,14 @@ export function Header({ onAddProperty, onStartOnboarding, user }: HeaderProps)
                   <Settings className="mr-2 h-4 w-4" />
                   <span>Settings</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowUsage(true)}>
+                  <Gauge className="mr-2 h-4 w-4" />
+                  <span>AI usage</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowPrivacy(true)}>
+                  <ShieldCheck className="mr-2 h-4 w-4" />
+                  <span>Privacy</span>
+                </DropdownMenuItem>
                 {onStartOnboarding && (
                   <DropdownMenuItem onClick={onStartOnboarding}>
                     <MessageSquare className="mr-2 h-4 w-4" />
@@ -124,6 +136,8 @@ export function Header({ onAddProperty, onStartOnboarding, user }: HeaderProps)
           </div>
         </div>
       </div>
+      <UsageSummaryDialog open={showUsage} onOpenChange={setShowUsage} />
+      <PrivacyCenterDialog open={showPrivacy} onOpenChange={setShowPrivacy} userId={user?.id} />
     </header>
   )
 }
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { CloudOff, RefreshCw } from 'lucide-react'
+import { offlineStatus, type OfflineAreas } from '@/lib/offlineStatus'
+import { writeOutbox } from '@/lib/writeOutbox'
+
+interface OfflineBannerProps {
+  // Reloads the listings; called on Retry and when the browser reconnects
+  onRetry: () => void
+}
+
+const formatSavedAt = (savedAt?: number) =>
+  savedAt ? ` on ${new Date(savedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}` : ''
+
+// Says plainly when what is on screen is not live: offline, a saved copy, example
+// listings, or changes still waiting to be sent
+export function OfflineBanner({ onRetry }: OfflineBannerProps) {
+  const [online, setOnline] = useState(() => navigator.onLine)
+  const [areas, setAreas] = useState<OfflineAreas>(() => offlineStatus.get())
+  const [pendingWrites, setPendingWrites] = useState(() => writeOutbox.pendingCount())
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true)
+      onRetry()
+    }
+    const handleOffline = () => setOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [onRetry])
+
+  useEffect(() => offlineStatus.onChange(setAreas), [])
+  useEffect(() => writeOutbox.onChange(setPendingWrites), [])
+
+  const { listings, conversations } = areas
+  const notices: string[] = []
+  if (listings?.source === 'sample') {
+    notices.push("Couldn't reach the server, so the listings shown are examples, not real properties.")
+  }
+  if (listings?.source === 'cache') {
+    notices.push(`Listings are the copy saved on this device${formatSavedAt(listings.savedAt)}. Prices and availability may have changed.`)
+  }
+  if (conversations?.source === 'cache') {
+    notices.push(`Chats are the copy saved on this device${formatSavedAt(conversations.savedAt)}.`)
+  }
+  if (pendingWrites > 0) {
+    notices.push(`${pendingWrites} change${pendingWrites === 1 ? '' : 's'} saved here will be sent when the connection returns.`)
+  }
+
+  if (online && notices.length === 0) return null
+
+  const handleRetry = () => {
+    writeOutbox.flush()
+    onRetry()
+  }
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[min(36rem,calc(100vw-2rem))] rounded-lg border bg-amber-50 border-amber-200 shadow-lg p-3 flex items-start gap-3"
+    >
+      <CloudOff className="w-5 h-5 text-amber-700 shrink-0 mt-0.5" />
+      <div className="flex-1 text-sm">
+        <p className="font-medium text-amber-900">{online ? 'Showing saved data' : "You're offline"}</p>
+        {!online && notices.length === 0 && (
+          <p className="text-xs text-amber-800">Anything you change is kept on this device and sent when the connection returns.</p>
+        )}
+        {notices.map(notice => (
+          <p key={notice} className="text-xs text-amber-800">{notice}</p>
+        ))}
+      </div>
+      {online && (
+        <Button variant="outline" size="sm" className="shrink-0" onClick={handleRetry}>
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Retry
+        </Button>
+      )}
+    </div>
+  )
+}
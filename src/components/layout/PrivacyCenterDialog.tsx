@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Download, Loader2, Trash2 } from 'lucide-react'
+import { memoryManager, type MemoryExport } from '@/lib/memory-manager'
+import { PREFERENCE_LIST_FIELDS, type PreferenceListField } from '@/lib/preferenceExtraction'
+import { buildPrivacyExport, downloadPrivacyExport } from '@/lib/privacyExport'
+import { useAppStore } from '@/store/appStore'
+
+interface PrivacyCenterDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId?: string
+}
+
+export function PrivacyCenterDialog({ open, onOpenChange, userId }: PrivacyCenterDialogProps) {
+  const [memory, setMemory] = useState<MemoryExport | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [confirmingWipe, setConfirmingWipe] = useState(false)
+  const bumpMemoryRevision = useAppStore(state => state.bumpMemoryRevision)
+  const clearSearchMemory = useAppStore(state => state.clearSearchMemory)
+
+  const reload = async () => {
+    if (userId) setMemory(await memoryManager.exportMemory(userId))
+  }
+
+  useEffect(() => {
+    if (!open || !userId) return
+    setConfirmingWipe(false)
+    memoryManager.exportMemory(userId).then(setMemory)
+  }, [open, userId])
+
+  // Runs a change, then re-reads what is stored and tells the open chat to do the same
+  const apply = async (change: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await change()
+      await reload()
+      bumpMemoryRevision()
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleExport = async () => {
+    if (!userId) return
+    setBusy(true)
+    try {
+      downloadPrivacyExport(await buildPrivacyExport(userId))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleWipe = () => apply(async () => {
+    await memoryManager.wipeAllMemory(userId as string)
+    clearSearchMemory()
+    setConfirmingWipe(false)
+  })
+
+  const preferences = memory?.preferences
+  const paused = !!preferences?.memoryPaused
+  const inferredCount = (Object.keys(PREFERENCE_LIST_FIELDS) as PreferenceListField[])
+    .reduce((sum, field) => sum + (preferences?.[field]?.length || 0), 0)
+    + (preferences?.priceRange ? 1 : 0) + (preferences?.bedrooms ? 1 : 0)
+  const stored = memory ? [
+    { label: 'Conversations', value: memory.sessions.length },
+    { label: 'Messages', value: memory.sessions.reduce((sum, session) => sum + session.messages.length, 0) },
+    { label: 'Searches', value: preferences?.searchHistory?.length || 0 },
+    { label: 'Inferred preferences', value: inferredCount },
+    { label: 'Remembered facts', value: preferences?.userFacts?.length || 0 },
+    { label: 'Viewed / saved listings', value: (preferences?.viewedProperties?.length || 0) + (preferences?.favoriteProperties?.length || 0) }
+  ] : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Privacy centre</DialogTitle>
+          <DialogDescription>
+            What the assistant remembers about you. Download a copy, erase it, or stop it remembering anything new.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!userId ? (
+          <p className="text-sm text-muted-foreground">Sign in to see what is stored about you.</p>
+        ) : !memory ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 text-sm">
+            <div className="grid grid-cols-3 gap-3">
+              {stored.map(item => (
+                <div key={item.label} className="rounded-lg bg-muted/50 p-3">
+                  <div className="text-xs text-muted-foreground">{item.label}</div>
+                  <div className="text-lg font-semibold">{item.value}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <Label htmlFor="memory-paused">Pause memory</Label>
+                <p className="text-xs text-muted-foreground">
+                  Chats still work, but no transcripts, searches, preferences or facts are saved until you turn this off.
+                </p>
+              </div>
+              <Switch
+                id="memory-paused"
+                checked={paused}
+                disabled={busy}
+                onCheckedChange={(checked) => apply(() => memoryManager.setMemoryPaused(userId, checked))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h5 className="font-medium">Conversations</h5>
+              {memory.sessions.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No saved conversations</p>
+              ) : (
+                <div className="max-h-40 overflow-y-auto space-y-1">
+                  {memory.sessions.map(session => (
+                    <div key={session.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="truncate">
+                        {session.title}
+                        <span className="text-muted-foreground"> · {new Date(session.updatedAt).toLocaleDateString()} · {session.messages.length} messages</span>
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 shrink-0"
+                        disabled={busy}
+                        onClick={() => apply(() => memoryManager.deleteSession(session.id))}
+                        aria-label={`Delete ${session.title}`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap justify-between gap-2 pt-2 border-t">
+              <Button variant="outline" size="sm" onClick={handleExport} disabled={busy}>
+                <Download className="w-4 h-4 mr-1" />
+                Download my data
+              </Button>
+              {confirmingWipe ? (
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-destructive">Erase all conversations and preferences?</span>
+                  <Button variant="ghost" size="sm" onClick={() => setConfirmingWipe(false)} disabled={busy}>Cancel</Button>
+                  <Button variant="destructive" size="sm" onClick={handleWipe} disabled={busy}>Erase</Button>
+                </div>
+              ) : (
+                <Button variant="destructive" size="sm" onClick={() => setConfirmingWipe(true)} disabled={busy}>
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Erase all memory
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,106 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { llmGateway, FALLBACK_MODEL } from '@/lib/llmGateway'
+
+interface UsageSummaryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const formatTokens = (tokens: number) => tokens.toLocaleString()
+const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`
+
+export function UsageSummaryDialog({ open, onOpenChange }: UsageSummaryDialogProps) {
+  // Read fresh each time the dialog opens; usage only changes between openings
+  const summary = open ? llmGateway.getUsageSummary() : null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>AI usage</DialogTitle>
+          <DialogDescription>
+            Model calls made by this app in the current session. Costs are estimates from the price table dated {summary?.pricingUpdatedAt}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary && (
+          <div className="space-y-5 text-sm">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg bg-muted/50 p-3">
+                <div className="text-xs text-muted-foreground">Calls</div>
+                <div className="text-lg font-semibold">{summary.calls}</div>
+              </div>
+              <div className="rounded-lg bg-muted/50 p-3">
+                <div className="text-xs text-muted-foreground">Tokens</div>
+                <div className="text-lg font-semibold">{formatTokens(summary.totalTokens)}</div>
+              </div>
+              <div className="rounded-lg bg-muted/50 p-3">
+                <div className="text-xs text-muted-foreground">Est. cost</div>
+                <div className="text-lg font-semibold">{formatCost(summary.costUsd)}</div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span>This session</span>
+                  <span className="text-muted-foreground">{formatTokens(summary.session.totalTokens)} / {formatTokens(summary.session.limit)} tokens</span>
+                </div>
+                <Progress value={Math.min(100, (summary.session.totalTokens / summary.session.limit) * 100)} />
+              </div>
+              {summary.user.id && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span>Today</span>
+                    <span className="text-muted-foreground">{formatTokens(summary.user.totalTokens)} / {formatTokens(summary.user.limit)} tokens</span>
+                  </div>
+                  <Progress value={Math.min(100, (summary.user.totalTokens / summary.user.limit) * 100)} />
+                </div>
+              )}
+              {summary.overBudget && (
+                <p className="text-xs text-amber-700 bg-amber-50 rounded p-2">
+                  Budget reached: answers now use {FALLBACK_MODEL} and per-listing explanations are skipped.
+                </p>
+              )}
+            </div>
+
+            {summary.byFeature.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Feature</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                    <TableHead className="text-right">Tokens</TableHead>
+                    <TableHead className="text-right">Avg latency</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.byFeature.map(usage => (
+                    <TableRow key={usage.feature}>
+                      <TableCell>{usage.label}</TableCell>
+                      <TableCell className="text-right">{usage.calls}</TableCell>
+                      <TableCell className="text-right">{formatTokens(usage.totalTokens)}</TableCell>
+                      <TableCell className="text-right">{(usage.averageLatencyMs / 1000).toFixed(1)}s</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-muted-foreground">No model calls yet.</p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{formatTokens(summary.promptTokens)} prompt / {formatTokens(summary.completionTokens)} completion</Badge>
+              {summary.fallbackCalls > 0 && <Badge variant="secondary">{summary.fallbackCalls} on fallback model</Badge>}
+              {summary.skippedCalls > 0 && <Badge variant="secondary">{summary.skippedCalls} skipped</Badge>}
+              {summary.estimatedCalls > 0 && <Badge variant="outline">{summary.estimatedCalls} estimated from text length</Badge>}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
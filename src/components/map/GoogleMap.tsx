@@ -3,6 +3,7 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Property } from '@/types'
+import { formatArea } from '@/lib/landUnits'
 import { MapPin, DollarSign, Bed, Bath, Square, Heart, Phone, Mail, Navigation, Layers } from 'lucide-react'
 
 interface GoogleMapProps {
@@ -230,7 +231,7 @@ export function GoogleMap({ properties, selectedProperty, onPropertySelect, cent
                 <svg width="12" height="12" viewBox="0 0 24 24" fill="currentColor">
                   <path d="M3,3H21V21H3V3M5,5V19H19V5H5Z"/>
                 </svg>
-                <span>${property.area} ${property.areaUnit}</span>
+                <span>${formatArea(property)}</span>
               </div>
             </div>
 
@@ -4,6 +4,7 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Property } from '@/types'
+import { formatArea } from '@/lib/landUnits'
 import { MapPin, DollarSign, Bed, Bath, Square, Heart, Phone, Mail } from 'lucide-react'
 import L from 'leaflet'
 import 'leaflet/dist/leaflet.css'
@@ -132,7 +133,7 @@ export function InteractiveMap({ properties, selectedProperty, onPropertySelect,
               </div>
               <div className="flex items-center space-x-1">
                 <Square className="w-4 h-4" />
-                <span>{property.area} {property.areaUnit}</span>
+                <span>{formatArea(property)}</span>
               </div>
             </div>
 
@@ -1,4 +1,5 @@
 import { Property } from '@/types'
+import { formatArea } from '@/lib/landUnits'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -97,7 +98,7 @@ export function StaticMap({ properties, selectedProperty, onPropertySelect, cent
                         </div>
                         <div className="flex items-center gap-1">
                           <Square className="w-3 h-3" />
-                          <span>{property.area} {property.areaUnit}</span>
+                          <span>{formatArea(property)}</span>
                         </div>
                       </div>
                     </div>
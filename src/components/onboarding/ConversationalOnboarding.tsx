@@ -7,8 +7,10 @@ import { Slider } from '@/components/ui/slider'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { ScrollArea } from '@/components/ui/scroll-area'
-import { blink } from '@/lib/blink'
-import { useAppStore, UserPreferences } from '@/store/appStore'
+import { llmGateway } from '@/lib/llmGateway'
+import { detectLanguage, formatNepaliPrice, languageInstruction, type ReplyLanguage } from '@/lib/nepaliLanguage'
+import { parseAmount } from '@/lib/queryUnderstanding'
+import { profileBudgetType, type OnboardingAnswers } from '@/lib/userProfile'
 import { 
   Bot, 
   User, 
@@ -50,16 +52,56 @@ interface OnboardingStep {
 
 
 
+// Nepali wording for the built-in steps, by step id. Generated steps are already
+// written in the user's language by the model
+const NEPALI_QUESTIONS: Record<string, { devanagari: string; romanized: string }> = {
+  intent: {
+    devanagari: 'स्वागत छ! सुरु गर्न, तपाईं आज के खोज्दै हुनुहुन्छ?',
+    romanized: 'Swagat cha! Suru garna, tapai aaja ke khojdai hunuhuncha?'
+  },
+  household: {
+    devanagari: 'राम्रो! त्यहाँ को-को बस्नुहुन्छ?',
+    romanized: 'Ramro! Tyaha ko-ko basnuhuncha?'
+  },
+  bedrooms: {
+    devanagari: 'बुझें। तपाईंलाई कतिवटा सुत्ने कोठा चाहिन्छ होला?',
+    romanized: 'Bujhe. Tapailai katiwata sutne kotha chahincha hola?'
+  },
+  location: {
+    devanagari: 'कुनै खास ठाउँ मनमा छ? टोलको नाम लेख्नुहोस्, वा कामको ठाउँबाट कति नजिक चाहिन्छ भन्नुहोस्।',
+    romanized: 'Kunai khas thau manma cha? Tolko naam lekhnuhos, wa kamko thaubata kati najik chahincha bhannuhos.'
+  },
+  amenities: {
+    devanagari: 'तपाईंलाई नभई नहुने सुविधाहरू के-के हुन्? (बढीमा ३ वटा छान्नुहोस्)',
+    romanized: 'Tapailai nabhai nahune subidha ke-ke hun? (Badhima 3 wata channuhos)'
+  },
+  budget: {
+    devanagari: 'अन्तिम मुख्य प्रश्न: तपाईंको बजेट कति हो?',
+    romanized: 'Antim mukhya prashna: tapaiko budget kati ho?'
+  },
+  summary: {
+    devanagari: 'उत्तम! तपाईंले खोजेको कुराको सारांश:',
+    romanized: 'Uttam! Tapaile khojeko kurako saransh:'
+  }
+}
+
+const questionText = (step: OnboardingStep | undefined, language: ReplyLanguage) => {
+  const nepali = language.language === 'ne' ? NEPALI_QUESTIONS[step?.id || ''] : undefined
+  if (!nepali) return step?.question
+  return language.script === 'romanized' ? nepali.romanized : nepali.devanagari
+}
+
 interface ConversationalOnboardingProps {
-  onComplete: (preferences: UserPreferences) => void
+  onComplete: (answers: OnboardingAnswers) => void
   onSkip: () => void
 }
 
 export function ConversationalOnboarding({ onComplete, onSkip }: ConversationalOnboardingProps) {
-  const { setUserPreferences, addSearchContext } = useAppStore()
   const [currentStep, setCurrentStep] = useState(0)
-  const [preferences, setPreferences] = useState<Partial<UserPreferences>>({})
+  const [preferences, setPreferences] = useState<Partial<OnboardingAnswers>>({})
   const [isGeneratingQuestion, setIsGeneratingQuestion] = useState(false)
+  // Set from what the user types, or from the language toggle in the header
+  const [language, setLanguage] = useState<ReplyLanguage>({ language: 'en' })
   const [steps, setSteps] = useState<OnboardingStep[]>([])
   const [chatHistory, setChatHistory] = useState<Array<{
     role: 'user' | 'assistant'
@@ -107,7 +149,7 @@ export function ConversationalOnboarding({ onComplete, onSkip }: ConversationalO
     }])
   }
 
-  const generateNextQuestion = async (userResponse: string, currentPrefs: Partial<UserPreferences>) => {
+  const generateNextQuestion = async (userResponse: string, currentPrefs: Partial<OnboardingAnswers>, replyLanguage: ReplyLanguage) => {
     setIsGeneratingQuestion(true)
     
     try {
@@ -153,9 +195,9 @@ Common question flow:
 7. Summary
 
 Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan, etc.
-`
+${replyLanguage.language === 'ne' ? `\nLanguage: ${languageInstruction(replyLanguage)} That includes the question, the option labels and the placeholder; keep option ids in English.\n` : ''}`
 
-      const response = await blink.ai.generateObject({
+      const response = await llmGateway.generateObject('onboarding', {
         prompt,
         schema: {
           type: 'object',
@@ -199,7 +241,7 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
     }
   }
 
-  const generateFallbackQuestion = (currentPrefs: Partial<UserPreferences>) => {
+  const generateFallbackQuestion = (currentPrefs: Partial<OnboardingAnswers>) => {
     let nextStep: OnboardingStep
 
     if (!currentPrefs.householdType) {
@@ -263,6 +305,16 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
     const currentStepData = steps[currentStep]
     let userMessage = ''
 
+    // Only typed answers say anything about the user's language; picked options are ours
+    let replyLanguage = language
+    if (currentStepData.type === 'text' && typeof response === 'string') {
+      const detection = detectLanguage(response)
+      if (detection.confident) {
+        replyLanguage = { language: detection.language, script: detection.script }
+        setLanguage(replyLanguage)
+      }
+    }
+
     // Create updated preferences based on step type
     const newPreferences = (() => {
       const updated = { ...preferences }
@@ -270,7 +322,6 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
       switch (currentStepData.id) {
         case 'intent':
           updated.intent = response
-          updated.budgetType = response === 'rent' ? 'rent' : 'buy'
           userMessage = currentStepData.options?.find(opt => opt.id === response)?.label || response
           break
         case 'household':
@@ -310,7 +361,7 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
           break
         case 'budget':
           updated.budget = response
-          userMessage = `NPR ${response.toLocaleString()}`
+          userMessage = formatNepaliPrice(response, replyLanguage.language === 'ne' ? replyLanguage : {})
           break
         default:
           if (currentStepData.type === 'choice') {
@@ -336,7 +387,7 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
     if (currentStep + 1 < steps.length) {
       setCurrentStep(currentStep + 1)
     } else if (currentStepData.type !== 'summary') {
-      await generateNextQuestion(userMessage, newPreferences)
+      await generateNextQuestion(userMessage, newPreferences, replyLanguage)
       setCurrentStep(currentStep + 1)
     }
 
@@ -345,7 +396,7 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
       if (currentStepData.type !== 'summary') {
         setChatHistory(prev => [...prev, {
           role: 'assistant',
-          content: steps[currentStep + 1]?.question || "Let me think of the next question...",
+          content: questionText(steps[currentStep + 1], replyLanguage) || "Let me think of the next question...",
           timestamp: new Date()
         }])
       }
@@ -354,50 +405,9 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
 
   const handleComplete = () => {
     if (preferences.intent && preferences.householdType && preferences.location) {
-      const completePreferences = preferences as UserPreferences
-      
-      // Store preferences in global state
-      setUserPreferences(completePreferences)
-      
-      // Create initial search context from preferences
-      const searchQuery = buildSearchQueryFromPreferences(completePreferences)
-      addSearchContext({
-        query: searchQuery,
-        preferences: completePreferences,
-        timestamp: new Date()
-      })
-      
-      onComplete(completePreferences)
-    }
-  }
-
-  const buildSearchQueryFromPreferences = (prefs: UserPreferences) => {
-    const parts = []
-    
-    if (prefs.intent === 'rent') {
-      parts.push('looking for rental')
-    } else if (prefs.intent === 'buy') {
-      parts.push('looking to buy')
-    }
-    
-    if (prefs.bedrooms) {
-      parts.push(`${prefs.bedrooms} bedroom${prefs.bedrooms > 1 ? 's' : ''}`)
-    }
-    
-    if (prefs.location) {
-      parts.push(`in ${prefs.location}`)
-    }
-    
-    if (prefs.budget) {
-      const budgetType = prefs.budgetType === 'rent' ? 'monthly rent' : 'budget'
-      parts.push(`${budgetType} around NPR ${prefs.budget.toLocaleString()}`)
-    }
-    
-    if (prefs.amenities && prefs.amenities.length > 0) {
-      parts.push(`with ${prefs.amenities.join(', ')}`)
+      // Saved to the user's profile by the caller
+      onComplete(preferences as OnboardingAnswers)
     }
-    
-    return parts.join(' ')
   }
 
   const handleEdit = (stepId: string) => {
@@ -434,9 +444,18 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
                   <p className="text-sm text-muted-foreground">AI-powered property discovery</p>
                 </div>
               </div>
-              <Button variant="ghost" size="sm" onClick={onSkip}>
-                Skip for now
-              </Button>
+              <div className="flex items-center space-x-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setLanguage(language.language === 'ne' ? { language: 'en' } : { language: 'ne', script: 'devanagari' })}
+                >
+                  {language.language === 'ne' ? 'English' : 'नेपाली'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={onSkip}>
+                  Skip for now
+                </Button>
+              </div>
             </div>
             
             {currentStepData.type !== 'welcome' && (
@@ -521,7 +540,7 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
 
               {currentStepData.type === 'choice' && (
                 <div className="space-y-3">
-                  <p className="font-medium">{currentStepData.question}</p>
+                  <p className="font-medium">{questionText(currentStepData, language)}</p>
                   <div className="grid grid-cols-1 gap-2">
                     {currentStepData.options?.map((option) => (
                       <Button
@@ -540,7 +559,7 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
 
               {currentStepData.type === 'text' && (
                 <div className="space-y-3">
-                  <p className="font-medium">{currentStepData.question}</p>
+                  <p className="font-medium">{questionText(currentStepData, language)}</p>
                   <div className="flex space-x-2">
                     <Input
                       placeholder={currentStepData.placeholder}
@@ -569,7 +588,7 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
 
               {currentStepData.type === 'tags' && (
                 <TagSelector
-                  question={currentStepData.question}
+                  question={questionText(currentStepData, language) || ''}
                   options={currentStepData.options || []}
                   maxSelections={currentStepData.maxSelections || 3}
                   onSelect={handleStepResponse}
@@ -578,10 +597,11 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
 
               {currentStepData.type === 'slider' && (
                 <BudgetSlider
-                  question={currentStepData.question}
+                  question={questionText(currentStepData, language) || ''}
                   min={currentStepData.min || 0}
                   max={currentStepData.max || 100}
                   unit={currentStepData.unit || ''}
+                  language={language}
                   onSelect={handleStepResponse}
                 />
               )}
@@ -590,6 +610,7 @@ Focus on Nepal real estate context and local areas like Thamel, Lalitpur, Patan,
                 <div className="max-h-96 overflow-y-auto">
                   <SummaryStep
                     preferences={preferences}
+                    language={language}
                     onEdit={handleEdit}
                     onComplete={handleComplete}
                   />
@@ -666,12 +687,14 @@ function BudgetSlider({
   min,
   max,
   unit,
+  language,
   onSelect
 }: {
   question: string
   min: number
   max: number
   unit: string
+  language: ReplyLanguage
   onSelect: (value: number) => void
 }) {
   const [value, setValue] = useState([min + (max - min) * 0.3])
@@ -679,7 +702,7 @@ function BudgetSlider({
 
   const formatValue = (val: number) => {
     if (unit === 'NPR') {
-      return `NPR ${val.toLocaleString()}`
+      return language.language === 'ne' ? formatNepaliPrice(val, language) : `NPR ${val.toLocaleString()}`
     }
     return `${val} ${unit}`
   }
@@ -711,13 +734,13 @@ function BudgetSlider({
 
         <div className="flex space-x-2">
           <Input
-            placeholder={`e.g., ${unit === 'NPR' ? '45000' : '50'}`}
+            placeholder={`e.g., ${unit === 'NPR' ? (max > 1000000 ? '50 lakh' : '45000') : '50'}`}
             value={customValue}
             onChange={(e) => setCustomValue(e.target.value)}
             onKeyPress={(e) => {
               if (e.key === 'Enter' && customValue) {
-                const numValue = parseInt(customValue.replace(/,/g, ''))
-                if (!isNaN(numValue)) {
+                const numValue = parseAmount(customValue)
+                if (numValue !== undefined) {
                   onSelect(numValue)
                 }
               }
@@ -726,8 +749,8 @@ function BudgetSlider({
           <Button
             onClick={() => {
               if (customValue) {
-                const numValue = parseInt(customValue.replace(/,/g, ''))
-                if (!isNaN(numValue)) {
+                const numValue = parseAmount(customValue)
+                if (numValue !== undefined) {
                   onSelect(numValue)
                 }
               } else {
@@ -746,14 +769,19 @@ function BudgetSlider({
 // Summary Step Component
 function SummaryStep({
   preferences,
+  language,
   onEdit,
   onComplete
 }: {
-  preferences: Partial<UserPreferences>
+  preferences: Partial<OnboardingAnswers>
+  language: ReplyLanguage
   onEdit: (stepId: string) => void
   onComplete: () => void
 }) {
   const formatBudget = (budget: number, type: string) => {
+    if (language.language === 'ne') {
+      return formatNepaliPrice(budget, { ...language, perMonth: type === 'rent' })
+    }
     const formatted = `NPR ${budget.toLocaleString()}`
     return type === 'rent' ? `${formatted}/month` : formatted
   }
@@ -849,7 +877,7 @@ function SummaryStep({
                   💰
                 </div>
                 <div>
-                  <p className="font-medium">{formatBudget(preferences.budget, preferences.budgetType || 'rent')}</p>
+                  <p className="font-medium">{formatBudget(preferences.budget, profileBudgetType(preferences) || 'rent')}</p>
                   <p className="text-sm text-muted-foreground">Budget range</p>
                 </div>
               </div>
@@ -0,0 +1,227 @@
+import { useMemo, useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { calculateAffordability, loanInputError, summarizeByYear, summarizeLoan } from '@/lib/mortgage'
+import { DEFAULT_LOAN_RATE_ID, LENDING_LIMITS, LOAN_RATES, LOAN_RATES_UPDATED_AT, getLoanRate } from '@/lib/loanRates'
+import { profileBudgetType, type UserProfile } from '@/lib/userProfile'
+import { Landmark, ChevronDown, ChevronRight, AlertCircle, CheckCircle } from 'lucide-react'
+
+interface LoanAffordabilityPanelProps {
+  price: number
+  // A buying budget from the user's profile pre-fills the down payment
+  profile?: UserProfile | null
+}
+
+const formatNpr = (amount: number) => `NPR ${Math.round(amount).toLocaleString()}`
+
+export function LoanAffordabilityPanel({ price, profile }: LoanAffordabilityPanelProps) {
+  const buyBudget = profileBudgetType(profile) === 'buy' && profile?.priceRange?.max ? profile.priceRange.max : undefined
+  const defaultRate = getLoanRate(DEFAULT_LOAN_RATE_ID)!
+
+  const [rateId, setRateId] = useState(DEFAULT_LOAN_RATE_ID)
+  const [annualRate, setAnnualRate] = useState(String(defaultRate.annualRate))
+  const [tenureYears, setTenureYears] = useState('20')
+  // The minimum deposit at the buyer's stated budget, or at this price when there is none
+  const [downPayment, setDownPayment] = useState(
+    String(Math.round((buyBudget ?? price) * (1 - LENDING_LIMITS.maxLoanToValue)))
+  )
+  const [monthlyIncome, setMonthlyIncome] = useState('')
+  const [obligations, setObligations] = useState('')
+  const [showSchedule, setShowSchedule] = useState(false)
+
+  const handleRateChange = (id: string) => {
+    setRateId(id)
+    const rate = getLoanRate(id)
+    if (rate) setAnnualRate(String(rate.annualRate))
+  }
+
+  const selectedRate = getLoanRate(rateId)
+  const rate = parseFloat(annualRate) || 0
+  const years = parseFloat(tenureYears) || 0
+  const deposit = parseFloat(downPayment) || 0
+  const income = parseFloat(monthlyIncome) || 0
+  const inputError = loanInputError(years, rate)
+
+  const loan = useMemo(() => {
+    if (inputError) return null
+    return summarizeLoan(Math.max(0, price - deposit), rate, years)
+  }, [inputError, price, deposit, rate, years])
+
+  const affordability = useMemo(() => {
+    if (inputError || income <= 0) return null
+    return calculateAffordability({
+      monthlyIncome: income,
+      monthlyObligations: parseFloat(obligations) || 0,
+      downPayment: deposit,
+      tenureYears: years,
+      annualRate: rate
+    })
+  }, [inputError, income, obligations, deposit, years, rate])
+
+  const yearlySchedule = useMemo(() => (loan ? summarizeByYear(loan.schedule) : []), [loan])
+  const exceedsLoanToValue = loan !== null && loan.principal > price * LENDING_LIMITS.maxLoanToValue
+  const exceedsTenure = selectedRate !== undefined && years > selectedRate.maxTenureYears
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center space-x-2">
+          <Landmark className="w-4 h-4 text-teal-600" />
+          <span>Loan & Affordability</span>
+        </CardTitle>
+        {buyBudget && (
+          <p className="text-xs text-muted-foreground">
+            Pre-filled from your purchase budget of {formatNpr(buyBudget)}.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="loan-rate">Lender rate</Label>
+            <Select value={rateId} onValueChange={handleRateChange}>
+              <SelectTrigger id="loan-rate">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOAN_RATES.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label} ({option.annualRate}%)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="loan-annual-rate">Interest rate (% p.a.)</Label>
+            <Input id="loan-annual-rate" type="number" step="0.05" value={annualRate} onChange={(e) => setAnnualRate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="loan-tenure">Tenure (years)</Label>
+            <Input id="loan-tenure" type="number" min="1" value={tenureYears} onChange={(e) => setTenureYears(e.target.value)} />
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="loan-down-payment">Down payment (NPR)</Label>
+            <Input id="loan-down-payment" type="number" value={downPayment} onChange={(e) => setDownPayment(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="loan-income">Monthly income (NPR)</Label>
+            <Input id="loan-income" type="number" placeholder="150000" value={monthlyIncome} onChange={(e) => setMonthlyIncome(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="loan-obligations">Existing EMIs (NPR/month)</Label>
+            <Input id="loan-obligations" type="number" placeholder="0" value={obligations} onChange={(e) => setObligations(e.target.value)} />
+          </div>
+        </div>
+
+        {inputError && (
+          <div className="flex items-start space-x-2 text-xs text-red-600">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>{inputError}</span>
+          </div>
+        )}
+
+        {loan && (
+          <div className="bg-muted/50 rounded-lg p-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Loan amount</span>
+              <span className="font-medium">{formatNpr(loan.principal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Monthly EMI</span>
+              <span className="font-bold">{formatNpr(loan.emi)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Total interest</span>
+              <span className="font-medium">{formatNpr(loan.totalInterest)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Total repayment</span>
+              <span className="font-medium">{formatNpr(loan.totalPayment)}</span>
+            </div>
+          </div>
+        )}
+
+        {(exceedsLoanToValue || exceedsTenure) && (
+          <div className="flex items-start space-x-2 text-xs text-amber-700">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {exceedsLoanToValue && `Banks usually lend at most ${Math.round(LENDING_LIMITS.maxLoanToValue * 100)}% of the price; a larger down payment is needed. `}
+              {exceedsTenure && selectedRate && `${selectedRate.label} loans run for at most ${selectedRate.maxTenureYears} years.`}
+            </span>
+          </div>
+        )}
+
+        {affordability && (
+          <div className="border rounded-lg p-3 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Max affordable price</span>
+              <span className="font-bold">{formatNpr(affordability.maxPropertyPrice)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Max EMI</span>
+              <span className="font-medium">{formatNpr(affordability.maxEmi)}</span>
+            </div>
+            <div className="flex items-center justify-between pt-1">
+              <Badge variant="outline" className="text-xs">
+                Limited by {affordability.limitedBy === 'income' ? 'income' : 'down payment'}
+              </Badge>
+              {price <= affordability.maxPropertyPrice ? (
+                <span className="flex items-center text-xs text-green-600">
+                  <CheckCircle className="w-3 h-3 mr-1" /> Within reach
+                </span>
+              ) : (
+                <span className="flex items-center text-xs text-red-600">
+                  <AlertCircle className="w-3 h-3 mr-1" /> Above your limit
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+
+        {yearlySchedule.length > 0 && (
+          <Collapsible open={showSchedule} onOpenChange={setShowSchedule}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="w-full justify-start px-0">
+                {showSchedule ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                Amortization schedule
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Year</TableHead>
+                    <TableHead className="text-right">Principal</TableHead>
+                    <TableHead className="text-right">Interest</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {yearlySchedule.map(row => (
+                    <TableRow key={row.year}>
+                      <TableCell>{row.year}</TableCell>
+                      <TableCell className="text-right">{Math.round(row.principal).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{Math.round(row.interest).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{Math.round(row.balance).toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Indicative rates as of {LOAN_RATES_UPDATED_AT}. Confirm the final rate and eligibility with your lender.
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
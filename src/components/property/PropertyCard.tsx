@@ -2,6 +2,9 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Property } from '@/types'
+import { estimateTransactionCosts } from '@/lib/transactionCosts'
+import { formatArea } from '@/lib/landUnits'
+import { useAppStore } from '@/store/appStore'
 import { 
   MapPin, 
   DollarSign, 
@@ -21,9 +24,13 @@ import {
 
 interface PropertyCardProps {
   property: Property
+  // Fills the heart for listings the user has saved
+  isFavorite?: boolean
   onSelect: (property: Property) => void
   onFavorite?: (property: Property) => void
   onContact?: (property: Property) => void
+  // Opens the full detail view; falls back to onSelect when not provided
+  onViewDetails?: (property: Property) => void
   className?: string
 }
 
@@ -34,7 +41,9 @@ const amenityIcons: Record<string, any> = {
   'Elevator': Building,
 }
 
-export function PropertyCard({ property, onSelect, onFavorite, onContact, className = '' }: PropertyCardProps) {
+export function PropertyCard({ property, isFavorite, onSelect, onFavorite, onContact, onViewDetails, className = '' }: PropertyCardProps) {
+  const areaDisplay = useAppStore(state => state.areaDisplay)
+
   const handleFavorite = (e: React.MouseEvent) => {
     e.stopPropagation()
     onFavorite?.(property)
@@ -45,6 +54,15 @@ export function PropertyCard({ property, onSelect, onFavorite, onContact, classN
     onContact?.(property)
   }
 
+  const handleViewDetails = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    if (onViewDetails) {
+      onViewDetails(property)
+    } else {
+      onSelect(property)
+    }
+  }
+
   return (
     <Card 
       className={`group hover:shadow-lg transition-all duration-300 cursor-pointer border-0 shadow-sm hover:shadow-xl hover:-translate-y-1 ${className}`}
@@ -88,8 +106,10 @@ export function PropertyCard({ property, onSelect, onFavorite, onContact, classN
               size="sm"
               onClick={handleFavorite}
               className="bg-white/80 hover:bg-white shadow-sm w-8 h-8 p-0"
+              aria-pressed={!!isFavorite}
+              aria-label={isFavorite ? 'Remove from favourites' : 'Save to favourites'}
             >
-              <Heart className="w-4 h-4" />
+              <Heart className={`w-4 h-4 ${isFavorite ? 'fill-red-500 text-red-500' : ''}`} />
             </Button>
             <div className="bg-white/80 rounded px-2 py-1 text-xs font-medium flex items-center space-x-1">
               <Eye className="w-3 h-3" />
@@ -133,22 +153,28 @@ export function PropertyCard({ property, onSelect, onFavorite, onContact, classN
             </div>
           </div>
 
+          {property.priceType === 'sale' && (
+            <div className="text-xs text-muted-foreground -mt-2 mb-3">
+              ≈ NPR {Math.round(estimateTransactionCosts(property, { category: 'individual' }).buyerAllIn).toLocaleString()} with registration, fees and brokerage
+            </div>
+          )}
+
           <div className="flex items-center space-x-4 mb-3 text-sm text-muted-foreground">
-            {property.bedrooms && (
+            {(property.bedrooms ?? 0) > 0 && (
               <div className="flex items-center space-x-1">
                 <Bed className="w-4 h-4" />
                 <span>{property.bedrooms}BR</span>
               </div>
             )}
-            {property.bathrooms && (
+            {(property.bathrooms ?? 0) > 0 && (
               <div className="flex items-center space-x-1">
                 <Bath className="w-4 h-4" />
                 <span>{property.bathrooms}BA</span>
               </div>
             )}
-            <div className="flex items-center space-x-1">
+            <div className="flex items-center space-x-1" title={`Listed as ${formatArea(property)}`}>
               <Square className="w-4 h-4" />
-              <span>{property.area} {property.areaUnit}</span>
+              <span>{formatArea(property, areaDisplay)}</span>
             </div>
           </div>
 
@@ -186,7 +212,7 @@ export function PropertyCard({ property, onSelect, onFavorite, onContact, classN
             <Button
               size="sm"
               className="flex-1"
-              onClick={() => onSelect(property)}
+              onClick={handleViewDetails}
             >
               View Details
             </Button>
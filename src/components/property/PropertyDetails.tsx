@@ -0,0 +1,122 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Separator } from '@/components/ui/separator'
+import { LoanAffordabilityPanel } from '@/components/property/LoanAffordabilityPanel'
+import { TransactionCostPanel } from '@/components/property/TransactionCostPanel'
+import { Property } from '@/types'
+import { useAppStore } from '@/store/appStore'
+import { formatArea } from '@/lib/landUnits'
+import { MapPin, Bed, Bath, Square, Phone, Mail, User } from 'lucide-react'
+
+interface PropertyDetailsProps {
+  property: Property | null
+  onClose: () => void
+}
+
+export function PropertyDetails({ property, onClose }: PropertyDetailsProps) {
+  const areaDisplay = useAppStore(state => state.areaDisplay)
+  const userProfile = useAppStore(state => state.userProfile)
+
+  return (
+    <Sheet open={property !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-lg p-0">
+        {property && (
+          <ScrollArea className="h-full">
+            {property.images && property.images.length > 0 && (
+              <img src={property.images[0]} alt={property.title} className="w-full h-56 object-cover" />
+            )}
+
+            <div className="p-6 space-y-5">
+              <SheetHeader className="text-left">
+                <div className="flex items-center space-x-2">
+                  <Badge variant={property.priceType === 'rent' ? 'default' : property.priceType === 'sale' ? 'destructive' : 'secondary'}>
+                    For {property.priceType}
+                  </Badge>
+                  <Badge variant="outline">{property.propertyType}</Badge>
+                </div>
+                <SheetTitle className="text-xl">{property.title}</SheetTitle>
+                <SheetDescription className="flex items-center space-x-1">
+                  <MapPin className="w-4 h-4 flex-shrink-0" />
+                  <span>{property.location.address}</span>
+                </SheetDescription>
+              </SheetHeader>
+
+              <div>
+                <span className="font-bold text-2xl">NPR {property.price.toLocaleString()}</span>
+                <span className="text-sm text-muted-foreground">
+                  /{property.priceType === 'rent' ? 'month' : 'total'}
+                </span>
+              </div>
+
+              <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                {(property.bedrooms ?? 0) > 0 && (
+                  <div className="flex items-center space-x-1">
+                    <Bed className="w-4 h-4" />
+                    <span>{property.bedrooms} bedrooms</span>
+                  </div>
+                )}
+                {(property.bathrooms ?? 0) > 0 && (
+                  <div className="flex items-center space-x-1">
+                    <Bath className="w-4 h-4" />
+                    <span>{property.bathrooms} bathrooms</span>
+                  </div>
+                )}
+                <div className="flex items-center space-x-1">
+                  <Square className="w-4 h-4" />
+                  <span>{formatArea(property, areaDisplay)}</span>
+                  {formatArea(property, areaDisplay) !== formatArea(property) && (
+                    <span className="text-xs">(listed as {formatArea(property)})</span>
+                  )}
+                </div>
+              </div>
+
+              {property.description && (
+                <p className="text-sm leading-relaxed whitespace-pre-line">{property.description}</p>
+              )}
+
+              {property.amenities && property.amenities.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {property.amenities.map((amenity) => (
+                    <Badge key={amenity} variant="outline" className="text-xs">{amenity}</Badge>
+                  ))}
+                </div>
+              )}
+
+              {property.ownerContact?.name && (
+                <>
+                  <Separator />
+                  <div className="space-y-1 text-sm">
+                    <div className="flex items-center space-x-2">
+                      <User className="w-4 h-4 text-muted-foreground" />
+                      <span>{property.ownerContact.name}</span>
+                    </div>
+                    {property.ownerContact.phone && (
+                      <div className="flex items-center space-x-2">
+                        <Phone className="w-4 h-4 text-muted-foreground" />
+                        <a href={`tel:${property.ownerContact.phone}`} className="hover:underline">{property.ownerContact.phone}</a>
+                      </div>
+                    )}
+                    {property.ownerContact.email && (
+                      <div className="flex items-center space-x-2">
+                        <Mail className="w-4 h-4 text-muted-foreground" />
+                        <a href={`mailto:${property.ownerContact.email}`} className="hover:underline">{property.ownerContact.email}</a>
+                      </div>
+                    )}
+                  </div>
+                </>
+              )}
+
+              {property.priceType === 'sale' && (
+                <>
+                  <TransactionCostPanel key={`costs-${property.id}`} property={property} />
+                  <LoanAffordabilityPanel key={`loan-${property.id}`} price={property.price} profile={userProfile} />
+                </>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
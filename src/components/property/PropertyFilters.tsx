@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AreaUnit, SearchFilters } from '@/types'
+import { AREA_DISPLAY_OPTIONS, AREA_UNITS, type AreaDisplay } from '@/lib/landUnits'
+import { EMPTY_FILTERS } from '@/lib/listingFilters'
+
+interface PropertyFiltersProps {
+  filters: SearchFilters
+  onFiltersChange: (filters: SearchFilters) => void
+  areaDisplay: AreaDisplay
+  onAreaDisplayChange: (display: AreaDisplay) => void
+}
+
+const PROPERTY_TYPES = [
+  { value: 'all', label: 'Any type' },
+  { value: 'apartment', label: 'Apartment' },
+  { value: 'house', label: 'House' },
+  { value: 'commercial', label: 'Commercial' },
+  { value: 'land', label: 'Land' }
+]
+
+const DEFAULT_AREA_UNIT: AreaUnit = 'sqft'
+
+export function PropertyFilters({ filters, onFiltersChange, areaDisplay, onAreaDisplayChange }: PropertyFiltersProps) {
+  // Sizes are typed in any unit and kept in the filters as sqm
+  const [areaUnit, setAreaUnit] = useState<AreaUnit>(DEFAULT_AREA_UNIT)
+  const [minArea, setMinArea] = useState('')
+  const [maxArea, setMaxArea] = useState('')
+
+  const toSqm = (value: string, unit: AreaUnit) => (parseFloat(value) || 0) * AREA_UNITS[unit].sqm
+
+  const updateArea = (min: string, max: string, unit: AreaUnit) => {
+    setMinArea(min)
+    setMaxArea(max)
+    setAreaUnit(unit)
+    onFiltersChange({ ...filters, areaRange: { min: toSqm(min, unit), max: toSqm(max, unit) } })
+  }
+
+  const handleClear = () => {
+    setMinArea('')
+    setMaxArea('')
+    setAreaUnit(DEFAULT_AREA_UNIT)
+    onFiltersChange(EMPTY_FILTERS)
+  }
+
+  return (
+    <div className="space-y-3 pt-3 mt-3 border-t">
+      <div className="space-y-1">
+        <Label className="text-xs">Property type</Label>
+        <Select
+          value={filters.propertyType[0] || 'all'}
+          onValueChange={(value) => onFiltersChange({ ...filters, propertyType: value === 'all' ? [] : [value] })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROPERTY_TYPES.map(type => (
+              <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Size</Label>
+        <div className="flex space-x-2">
+          <Input
+            type="number"
+            min="0"
+            placeholder="Min"
+            value={minArea}
+            onChange={(e) => updateArea(e.target.value, maxArea, areaUnit)}
+            className="h-8"
+          />
+          <Input
+            type="number"
+            min="0"
+            placeholder="Max"
+            value={maxArea}
+            onChange={(e) => updateArea(minArea, e.target.value, areaUnit)}
+            className="h-8"
+          />
+          <Select value={areaUnit} onValueChange={(value) => updateArea(minArea, maxArea, value as AreaUnit)}>
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(AREA_UNITS) as AreaUnit[]).map(unit => (
+                <SelectItem key={unit} value={unit}>{AREA_UNITS[unit].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Show sizes in</Label>
+        <Select value={areaDisplay} onValueChange={(value) => onAreaDisplayChange(value as AreaDisplay)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {AREA_DISPLAY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Button variant="ghost" size="sm" className="w-full" onClick={handleClear}>
+        Clear filters
+      </Button>
+    </div>
+  )
+}
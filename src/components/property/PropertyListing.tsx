@@ -11,7 +11,9 @@ import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { blink } from '@/lib/blink'
-import { Property } from '@/types'
+import { AreaUnit, Property } from '@/types'
+import { AREA_SYSTEMS, AREA_UNITS, normalizeArea, type AreaSystem } from '@/lib/landUnits'
+import { writeOutbox } from '@/lib/writeOutbox'
 import { 
   X, 
   Upload, 
@@ -59,8 +61,9 @@ export function PropertyListing({ onClose, onPropertyListed }: PropertyListingPr
     propertyType: 'apartment' as 'apartment' | 'house' | 'commercial' | 'land',
     bedrooms: '',
     bathrooms: '',
-    area: '',
-    areaUnit: 'sqft' as 'sqft' | 'sqm',
+    // One value per unit of the chosen system, so 1 ropani 4 aana is kept as entered
+    areaValues: {} as Partial<Record<AreaUnit, string>>,
+    areaSystem: 'sqft' as AreaSystem,
     address: '',
     city: 'Kathmandu',
     district: 'Kathmandu',
@@ -91,6 +94,14 @@ export function PropertyListing({ onClose, onPropertyListed }: PropertyListingPr
     setFormData(prev => ({ ...prev, [field]: value }))
   }
 
+  const handleAreaValueChange = (unit: AreaUnit, value: string) => {
+    setFormData(prev => ({ ...prev, areaValues: { ...prev.areaValues, [unit]: value } }))
+  }
+
+  const enteredArea = () => normalizeArea(
+    AREA_SYSTEMS[formData.areaSystem].units.map(unit => ({ value: parseFloat(formData.areaValues[unit] || '') || 0, unit }))
+  )
+
   const handleAmenityToggle = (amenity: string) => {
     setFormData(prev => ({
       ...prev,
@@ -158,7 +169,7 @@ export function PropertyListing({ onClose, onPropertyListed }: PropertyListingPr
       case 1:
         return !!(formData.title && formData.description && formData.propertyType)
       case 2:
-        return !!(formData.price && formData.area && formData.address)
+        return !!(formData.price && enteredArea().area > 0 && formData.address)
       case 3:
         return !!(formData.ownerName && formData.ownerPhone && formData.ownerEmail)
       default:
@@ -185,6 +196,7 @@ export function PropertyListing({ onClose, onPropertyListed }: PropertyListingPr
     try {
       // Generate coordinates (in real app, use geocoding API)
       const coordinates = getCoordinatesForAddress(formData.address, formData.city)
+      const area = enteredArea()
       
       const propertyData = {
         id: `prop_${Date.now()}`,
@@ -195,8 +207,10 @@ export function PropertyListing({ onClose, onPropertyListed }: PropertyListingPr
         propertyType: formData.propertyType,
         bedrooms: formData.bedrooms ? parseInt(formData.bedrooms) : null,
         bathrooms: formData.bathrooms ? parseInt(formData.bathrooms) : null,
-        area: parseInt(formData.area),
-        areaUnit: formData.areaUnit,
+        area: area.area,
+        areaUnit: area.areaUnit,
+        areaParts: area.areaParts ? JSON.stringify(area.areaParts) : null,
+        areaSqm: area.areaSqm,
         address: formData.address,
         city: formData.city,
         district: formData.district,
@@ -222,10 +236,13 @@ export function PropertyListing({ onClose, onPropertyListed }: PropertyListingPr
         userId: user.id
       }
 
-      // Insert into database
-      await blink.db.properties.create(propertyData)
+      // Insert into database, or keep it on the device until the connection returns
+      const result = await writeOutbox.run({ table: 'properties', action: 'create', data: propertyData })
 
-      toast({
+      toast(result === 'queued' ? {
+        title: "Saved on this device",
+        description: "You're offline. Your property will be published as soon as the connection returns."
+      } : {
         title: "Property listed successfully!",
         description: "Your property is now live and visible to potential buyers/renters."
       })
@@ -240,8 +257,7 @@ export function PropertyListing({ onClose, onPropertyListed }: PropertyListingPr
         propertyType: propertyData.propertyType,
         bedrooms: propertyData.bedrooms || undefined,
         bathrooms: propertyData.bathrooms || undefined,
-        area: propertyData.area,
-        areaUnit: propertyData.areaUnit,
+        ...area,
         location: {
           address: propertyData.address,
           city: propertyData.city,
@@ -413,30 +429,43 @@ export function PropertyListing({ onClose, onPropertyListed }: PropertyListingPr
                       </div>
                     </div>
 
-                    <div>
+                    <div className={AREA_SYSTEMS[formData.areaSystem].units.length > 1 ? 'md:col-span-2' : ''}>
                       <Label htmlFor="area">Area *</Label>
                       <div className="flex space-x-2">
-                        <div className="relative flex-1">
-                          <Square className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                          <Input
-                            id="area"
-                            type="number"
-                            placeholder="800"
-                            value={formData.area}
-                            onChange={(e) => handleInputChange('area', e.target.value)}
-                            className="pl-10"
-                          />
-                        </div>
-                        <Select value={formData.areaUnit} onValueChange={(value) => handleInputChange('areaUnit', value)}>
-                          <SelectTrigger className="w-20">
+                        {AREA_SYSTEMS[formData.areaSystem].units.map((unit, index) => (
+                          <div key={unit} className="relative flex-1">
+                            {index === 0 && (
+                              <Square className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                            )}
+                            <Input
+                              id={index === 0 ? 'area' : `area-${unit}`}
+                              type="number"
+                              min="0"
+                              placeholder={AREA_SYSTEMS[formData.areaSystem].units.length > 1 ? AREA_UNITS[unit].label : '800'}
+                              aria-label={AREA_UNITS[unit].label}
+                              value={formData.areaValues[unit] || ''}
+                              onChange={(e) => handleAreaValueChange(unit, e.target.value)}
+                              className={index === 0 ? 'pl-10' : ''}
+                            />
+                          </div>
+                        ))}
+                        <Select value={formData.areaSystem} onValueChange={(value) => handleInputChange('areaSystem', value)}>
+                          <SelectTrigger className="w-28">
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
                             <SelectItem value="sqft">sqft</SelectItem>
                             <SelectItem value="sqm">sqm</SelectItem>
+                            <SelectItem value="ropani">R-A-P-D</SelectItem>
+                            <SelectItem value="bigha">B-K-D</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
+                      {AREA_SYSTEMS[formData.areaSystem].units.length > 1 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {AREA_SYSTEMS[formData.areaSystem].label}; leave units you don't need empty
+                        </p>
+                      )}
                     </div>
 
                     {formData.propertyType !== 'land' && (
@@ -0,0 +1,127 @@
+import { useMemo, useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Separator } from '@/components/ui/separator'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { estimateTransactionCosts } from '@/lib/transactionCosts'
+import type { BuyerCategory } from '@/lib/transactionCostRules'
+import { Property } from '@/types'
+import { Receipt } from 'lucide-react'
+
+interface TransactionCostPanelProps {
+  property: Property
+}
+
+const BUYER_CATEGORIES: Array<{ id: BuyerCategory; label: string }> = [
+  { id: 'individual', label: 'Individual' },
+  { id: 'woman', label: 'Woman buyer' },
+  { id: 'joint_spouses', label: 'Joint (spouses)' },
+  { id: 'company', label: 'Company' }
+]
+
+const formatNpr = (amount: number) => `NPR ${Math.round(amount).toLocaleString()}`
+
+export function TransactionCostPanel({ property }: TransactionCostPanelProps) {
+  const [buyerCategory, setBuyerCategory] = useState<BuyerCategory>('individual')
+  const [usesBroker, setUsesBroker] = useState(true)
+  const [purchasePrice, setPurchasePrice] = useState('')
+  const [holdingYears, setHoldingYears] = useState('')
+
+  const estimate = useMemo(() => estimateTransactionCosts(
+    property,
+    { category: buyerCategory, usesBroker },
+    {
+      purchasePrice: purchasePrice ? parseFloat(purchasePrice) : undefined,
+      holdingYears: holdingYears ? parseFloat(holdingYears) : undefined,
+      usesBroker
+    }
+  ), [property, buyerCategory, usesBroker, purchasePrice, holdingYears])
+
+  const buyerItems = estimate.items.filter(item => item.paidBy === 'buyer')
+  const sellerItems = estimate.items.filter(item => item.paidBy === 'seller')
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center space-x-2">
+          <Receipt className="w-4 h-4 text-orange-600" />
+          <span>Transaction Costs</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="cost-buyer">Buyer</Label>
+            <Select value={buyerCategory} onValueChange={(value) => setBuyerCategory(value as BuyerCategory)}>
+              <SelectTrigger id="cost-buyer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUYER_CATEGORIES.map(category => (
+                  <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2 pb-2">
+            <Switch id="cost-broker" checked={usesBroker} onCheckedChange={setUsesBroker} />
+            <Label htmlFor="cost-broker">Through a broker</Label>
+          </div>
+        </div>
+
+        <div className="space-y-1 text-sm">
+          {buyerItems.map(item => (
+            <div key={item.id} className="flex justify-between">
+              <div>
+                <div>{item.label}</div>
+                <div className="text-xs text-muted-foreground">{item.basis}</div>
+              </div>
+              <span className="font-medium">{item.amount !== null ? formatNpr(item.amount) : '—'}</span>
+            </div>
+          ))}
+          <Separator className="my-2" />
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Buyer costs</span>
+            <span className="font-medium">{formatNpr(estimate.buyerTotal)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="font-medium">Total to buy</span>
+            <span className="font-bold">{formatNpr(estimate.buyerAllIn)}</span>
+          </div>
+        </div>
+
+        <div className="bg-muted/50 rounded-lg p-3 space-y-2 text-sm">
+          <div className="font-medium">Seller pays</div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="cost-purchase-price" className="text-xs">Seller's purchase price</Label>
+              <Input id="cost-purchase-price" type="number" value={purchasePrice} onChange={(e) => setPurchasePrice(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cost-holding-years" className="text-xs">Years held</Label>
+              <Input id="cost-holding-years" type="number" value={holdingYears} onChange={(e) => setHoldingYears(e.target.value)} />
+            </div>
+          </div>
+          {sellerItems.map(item => (
+            <div key={item.id} className="flex justify-between">
+              <div>
+                <div>{item.label}</div>
+                <div className="text-xs text-muted-foreground">{item.basis}</div>
+              </div>
+              <span className="font-medium">{item.amount !== null ? formatNpr(item.amount) : '—'}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="text-xs text-muted-foreground space-y-1">
+          {estimate.assumptions.map((assumption, index) => (
+            <p key={index}>{assumption}</p>
+          ))}
+          <p>Rules version {estimate.rulesVersion}. Confirm final amounts with the Land Revenue Office.</p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,6 +10,8 @@ import { Send, Bot, User, Sparkles, MapPin, Home, DollarSign, Bed, Bath, Square,
 import { ChatMessage, Property } from '@/types'
 import { propertyService, EnhancedProperty } from '@/lib/propertyService'
 import { useAppStore } from '@/store/appStore'
+import { formatArea } from '@/lib/landUnits'
+import { profileSearchQuery } from '@/lib/userProfile'
 
 interface ConversationalSearchProps {
   onPropertiesFound: (properties: Property[]) => void
@@ -18,7 +20,7 @@ interface ConversationalSearchProps {
 
 export function ConversationalSearch({ onPropertiesFound, onClose }: ConversationalSearchProps) {
   const { 
-    userPreferences, 
+    userProfile, 
     getSearchSummary, 
     addSearchContext, 
     currentSearchContext,
@@ -29,8 +31,8 @@ export function ConversationalSearch({ onPropertiesFound, onClose }: Conversatio
     {
       id: '1',
       role: 'assistant',
-      content: userPreferences 
-        ? `Hi! I'm your AI real estate assistant. I see you're looking to ${userPreferences.intent} ${userPreferences.bedrooms ? `${userPreferences.bedrooms}BR ` : ''}in ${userPreferences.location} with a budget around NPR ${userPreferences.budget.toLocaleString()}.\n\n🤖 **Personalized Search** - Based on your preferences\n🗺️ **Google Maps Integration** - Real neighborhood insights\n📊 **Live Market Data** - Current prices and trends\n🎯 **Smart Recommendations** - Tailored to your needs\n\nI can help you refine your search or find specific properties. What would you like to explore?`
+      content: userProfile?.intent && profileSearchQuery(userProfile)
+        ? `Hi! I'm your AI real estate assistant. I see you're ${profileSearchQuery(userProfile)}.\n\n🤖 **Personalized Search** - Based on your preferences\n🗺️ **Google Maps Integration** - Real neighborhood insights\n📊 **Live Market Data** - Current prices and trends\n🎯 **Smart Recommendations** - Tailored to your needs\n\nI can help you refine your search or find specific properties. What would you like to explore?`
         : "Hi! I'm your AI real estate assistant powered by Gemini AI and real-time data. I can help you find the perfect property in Nepal with:\n\n🤖 **Natural Language Search** - Just tell me what you want\n🗺️ **Google Maps Integration** - Real neighborhood insights\n📊 **Live Market Data** - Current prices and trends\n🎯 **Smart Recommendations** - Personalized matches\n\nTry asking me:\n• 'Find me a 2BHK apartment in Kathmandu under NPR 30,000'\n• 'Show me houses for sale in Lalitpur with parking'\n• 'I need a furnished place near my office in New Road'\n\nWhat are you looking for today?",
       timestamp: new Date().toISOString()
     }
@@ -64,7 +66,7 @@ export function ConversationalSearch({ onPropertiesFound, onClose }: Conversatio
     // Add search context to store
     addSearchContext({
       query: inputValue,
-      preferences: userPreferences || undefined,
+      preferences: userProfile || undefined,
       timestamp: new Date()
     })
 
@@ -304,7 +306,7 @@ export function ConversationalSearch({ onPropertiesFound, onClose }: Conversatio
                                 </div>
                                 <div className="flex items-center space-x-1">
                                   <Square className="w-3 h-3" />
-                                  <span>{property.area} {property.areaUnit}</span>
+                                  <span>{formatArea(property)}</span>
                                 </div>
                               </div>
                               <div className="flex items-center space-x-1 mb-2">
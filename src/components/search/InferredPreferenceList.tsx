@@ -0,0 +1,40 @@
+import { Badge } from '@/components/ui/badge'
+import { X } from 'lucide-react'
+import { describePreferenceSource, findPreferenceSource, type PreferenceSource } from '@/lib/preferenceExtraction'
+
+interface InferredPreferenceListProps {
+  field: PreferenceSource['field']
+  values: string[]
+  sources?: PreferenceSource[]
+  onRevoke: (field: PreferenceSource['field'], value: string) => void
+  variant?: 'secondary' | 'outline' | 'destructive'
+}
+
+export function InferredPreferenceList({ field, values, sources, onRevoke, variant = 'outline' }: InferredPreferenceListProps) {
+  if (values.length === 0) {
+    return <span className="text-xs text-muted-foreground">Not specified</span>
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {values.map(value => (
+        <Badge
+          key={value}
+          variant={variant}
+          className="text-xs pr-1"
+          title={describePreferenceSource(findPreferenceSource(sources, field, value))}
+        >
+          {value}
+          <button
+            type="button"
+            className="ml-1 rounded-full opacity-60 hover:opacity-100"
+            onClick={() => onRevoke(field, value)}
+            aria-label={`Forget ${value}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Brain, Check, Pencil, Plus, Trash2, X } from 'lucide-react'
+import type { SessionSummary, UserFact } from '@/lib/conversationSummary'
+
+interface LongTermMemoryPanelProps {
+  summary?: SessionSummary
+  facts: UserFact[]
+  onSummaryChange: (text: string) => void
+  onAddFact: (text: string) => void
+  onUpdateFact: (id: string, text: string) => void
+  onRemoveFact: (id: string) => void
+}
+
+export function LongTermMemoryPanel({ summary, facts, onSummaryChange, onAddFact, onUpdateFact, onRemoveFact }: LongTermMemoryPanelProps) {
+  const [editingSummary, setEditingSummary] = useState(false)
+  const [summaryDraft, setSummaryDraft] = useState('')
+  const [editingFactId, setEditingFactId] = useState<string | null>(null)
+  const [factDraft, setFactDraft] = useState('')
+  const [newFact, setNewFact] = useState('')
+
+  const startSummaryEdit = () => {
+    setSummaryDraft(summary?.text || '')
+    setEditingSummary(true)
+  }
+
+  const saveSummary = () => {
+    onSummaryChange(summaryDraft)
+    setEditingSummary(false)
+  }
+
+  const startFactEdit = (fact: UserFact) => {
+    setEditingFactId(fact.id)
+    setFactDraft(fact.text)
+  }
+
+  const saveFact = () => {
+    if (editingFactId && factDraft.trim()) onUpdateFact(editingFactId, factDraft)
+    setEditingFactId(null)
+  }
+
+  const addFact = () => {
+    if (!newFact.trim()) return
+    onAddFact(newFact)
+    setNewFact('')
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="text-sm font-medium flex items-center">
+            <Brain className="w-3 h-3 mr-1" />
+            What I remember about you
+          </h5>
+        </div>
+        <div className="space-y-1">
+          {facts.length === 0 && (
+            <p className="text-xs text-muted-foreground">Nothing yet. Facts you mention, like where you work, are kept here for future chats.</p>
+          )}
+          {facts.map(fact => (
+            <div key={fact.id} className="flex items-center gap-1 text-xs group">
+              {editingFactId === fact.id ? (
+                <>
+                  <Input
+                    value={factDraft}
+                    onChange={(e) => setFactDraft(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveFact()}
+                    className="h-7 text-xs"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={saveFact} aria-label="Save">
+                    <Check className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditingFactId(null)} aria-label="Cancel">
+                    <X className="w-3 h-3" />
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <span className="flex-1">• {fact.text}</span>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100" onClick={() => startFactEdit(fact)} aria-label="Edit">
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100" onClick={() => onRemoveFact(fact.id)} aria-label="Forget">
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+          <div className="flex items-center gap-1 pt-1">
+            <Input
+              value={newFact}
+              onChange={(e) => setNewFact(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addFact()}
+              placeholder="Add something to remember"
+              className="h-7 text-xs"
+            />
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={addFact} aria-label="Add">
+              <Plus className="w-3 h-3" />
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="text-sm font-medium">Earlier in this chat</h5>
+          {!editingSummary && summary?.text && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={startSummaryEdit}>
+              <Pencil className="w-3 h-3 mr-1" />
+              Edit
+            </Button>
+          )}
+        </div>
+        {editingSummary ? (
+          <div className="space-y-2">
+            <Textarea value={summaryDraft} onChange={(e) => setSummaryDraft(e.target.value)} className="text-xs min-h-24" />
+            <div className="flex justify-end gap-1">
+              <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setEditingSummary(false)}>Cancel</Button>
+              <Button size="sm" className="h-7 text-xs" onClick={saveSummary}>Save</Button>
+            </div>
+          </div>
+        ) : summary?.text ? (
+          <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+            {summary.text}
+            <span className="block mt-1 text-[11px]">
+              Covers {summary.messageCount} older messages{summary.editedByUser ? ' · edited by you' : ''}
+            </span>
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">Older messages are summarised here once the chat gets long.</p>
+        )}
+      </div>
+    </div>
+  )
+}
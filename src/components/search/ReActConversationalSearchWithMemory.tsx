@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-use-before-define */
-import { useState, useRef, useEffect } from 'react'
+import { useState, useRef, useEffect, useCallback } from 'react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -8,6 +8,7 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Switch } from '@/components/ui/switch'
 import { 
   Send, 
   Bot, 
@@ -34,19 +35,36 @@ import {
   History,
   Settings,
   MessageSquare,
+  Square,
   Star,
   MapPin,
   DollarSign,
-  Home
+  Home,
+  Landmark,
+  Receipt,
+  Languages,
+  ExternalLink,
+  Loader2
 } from 'lucide-react'
 import { ChatMessage, Property } from '@/types'
-import { reactAgent, ReActStep, ReActResponse, ToolResult } from '@/lib/react-agent'
-import { memoryManager } from '../../lib/memory-manager'
+import { reactAgent, ReActStep, ReActResponse, ToolResult, ClarificationRequest, Citation } from '@/lib/react-agent'
+import { propertyDatabase } from '@/lib/propertyDatabase'
+import { memoryManager, type ConversationMessage, type ConversationSession } from '../../lib/memory-manager'
+import { formatNepaliPrice, type ReplyLanguage } from '@/lib/nepaliLanguage'
+import { describePreferenceSource, findPreferenceSource, PREFERENCE_LIST_FIELDS, type PreferenceSource } from '@/lib/preferenceExtraction'
+import { InferredPreferenceList } from './InferredPreferenceList'
+import { LongTermMemoryPanel } from './LongTermMemoryPanel'
+import { SessionBrowser } from './SessionBrowser'
+import type { SessionSummary } from '@/lib/conversationSummary'
+import type { SessionChange } from '@/lib/sessionSync'
 import { blink } from '../../lib/blink'
+import { useAppStore } from '@/store/appStore'
 
 interface ReActConversationalSearchProps {
   onPropertiesFound: (properties: Property[]) => void
   onClose: () => void
+  // Called when a cited listing is opened from an answer's footnotes
+  onPropertySelect?: (property: Property) => void
 }
 
 interface ReActMessage extends ChatMessage {
@@ -54,17 +72,49 @@ interface ReActMessage extends ChatMessage {
   isProcessing?: boolean
 }
 
-export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose }: ReActConversationalSearchProps) {
+// How many past sessions the History tab lists and searches
+const SESSION_HISTORY_LIMIT = 50
+
+// Stored session messages as chat bubbles, with the reasoning and any pending clarification
+const toDisplayMessages = (context: ConversationMessage[]): ReActMessage[] => context
+  .filter(msg => msg.role !== 'system')
+  .map(msg => ({
+    id: msg.id,
+    role: msg.role as 'user' | 'assistant',
+    content: msg.content,
+    timestamp: new Date(msg.timestamp).toISOString(),
+    reactResponse: msg.metadata?.reasoning ? {
+      // Stored steps come back with their timestamps as strings
+      steps: msg.metadata.reasoning.map(step => ({ ...step, timestamp: new Date(step.timestamp) })),
+      finalAnswer: msg.content,
+      isComplete: !msg.metadata.clarification,
+      needsClarification: !!msg.metadata.clarification,
+      clarification: msg.metadata.clarification,
+      citations: msg.metadata.citations
+    } : undefined
+  }))
+
+export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose, onPropertySelect }: ReActConversationalSearchProps) {
   const [messages, setMessages] = useState<ReActMessage[]>([])
   const [inputValue, setInputValue] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [expandedSteps, setExpandedSteps] = useState<{ [key: string]: boolean }>({})
   const [user, setUser] = useState<any>(null)
   const [userPreferences, setUserPreferences] = useState<any>(null)
-  const [conversationHistory, setConversationHistory] = useState<any[]>([])
+  const [conversationHistory, setConversationHistory] = useState<ConversationSession[]>([])
+  const [currentSessionId, setCurrentSessionId] = useState<string | null>(null)
   const [showMemoryPanel, setShowMemoryPanel] = useState(false)
   const [searchHistory, setSearchHistory] = useState<string[]>([])
+  const [sessionSummary, setSessionSummary] = useState<SessionSummary | undefined>()
+  const [now, setNow] = useState(Date.now())
+  // Quick replies picked for the pending clarification, keyed by field
+  const [clarificationReplies, setClarificationReplies] = useState<Record<string, string>>({})
+  // Changes made in other tabs or devices, applied once no query is running here
+  const [remoteChanges, setRemoteChanges] = useState<SessionChange[]>([])
+  const memoryRevision = useAppStore(state => state.memoryRevision)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  // Aborts the query in flight when the user presses Stop
+  const abortControllerRef = useRef<AbortController | null>(null)
 
   // Initialize user and memory system
   useEffect(() => {
@@ -83,33 +133,19 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
           setUserPreferences(preferences)
           
           // Load conversation history
-          const history = await memoryManager.getConversationHistory(5)
+          const history = await memoryManager.getConversationHistory(SESSION_HISTORY_LIMIT)
           setConversationHistory(history)
+          setCurrentSessionId(memoryManager.getCurrentSessionId())
           
           // Load search history
           const searches = await memoryManager.getSearchHistory(10)
           setSearchHistory(searches)
+          setSessionSummary(await memoryManager.getSessionSummary())
           
           // Load previous conversation if exists
           const context = await memoryManager.getConversationContext()
           if (context.length > 0) {
-            // Convert memory messages to display messages
-            const displayMessages = context
-              .filter(msg => msg.role !== 'system')
-              .map(msg => ({
-                id: msg.id,
-                role: msg.role as 'user' | 'assistant',
-                content: msg.content,
-                timestamp: new Date(msg.timestamp).toISOString(),
-                reactResponse: msg.metadata?.reasoning ? {
-                  steps: msg.metadata.reasoning,
-                  finalAnswer: msg.content,
-                  isComplete: true,
-                  needsClarification: false
-                } : undefined
-              }))
-            
-            setMessages(displayMessages)
+            setMessages(toDisplayMessages(context))
           } else {
             // Set welcome message with personalized context
             const welcomeMessage = getPersonalizedWelcomeMessage(preferences)
@@ -164,6 +200,30 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
     timestamp: new Date().toISOString()
   })
 
+  // The privacy centre erased or paused memory; show whatever session is now open
+  useEffect(() => {
+    if (memoryRevision > 0 && user) showCurrentSession()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [memoryRevision])
+
+  useEffect(() => memoryManager.onSessionChange(change => setRemoteChanges(prev => [...prev, change])), [])
+
+  useEffect(() => {
+    if (remoteChanges.length === 0 || isLoading) return
+    const touchesOpenSession = remoteChanges.some(change => change.sessionId === currentSessionId)
+    setRemoteChanges([])
+
+    if (memoryManager.getCurrentSessionId() !== currentSessionId) {
+      // The open session was deleted elsewhere
+      showCurrentSession()
+    } else if (touchesOpenSession) {
+      showSessionMessages()
+    } else {
+      refreshSessions()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [remoteChanges, isLoading])
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
@@ -172,18 +232,26 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
     scrollToBottom()
   }, [messages])
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim() || isLoading) return
+  // Tick while a query runs so in-flight tool timers stay current
+  useEffect(() => {
+    if (!isLoading) return
+    const interval = setInterval(() => setNow(Date.now()), 200)
+    return () => clearInterval(interval)
+  }, [isLoading])
+
+  const handleSendMessage = async (text: string = inputValue) => {
+    if (!text.trim() || isLoading) return
 
     const userMessage: ReActMessage = {
       id: Date.now().toString(),
       role: 'user',
-      content: inputValue,
+      content: text,
       timestamp: new Date().toISOString()
     }
 
     setMessages(prev => [...prev, userMessage])
     setInputValue('')
+    setClarificationReplies({})
     setIsLoading(true)
 
     // Add processing message
@@ -192,14 +260,31 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
       role: 'assistant',
       content: '🧠 Analyzing your request using ReAct framework...\n\nI will think step-by-step, use appropriate tools, and show you my complete reasoning process.',
       timestamp: new Date().toISOString(),
-      isProcessing: true
+      isProcessing: true,
+      reactResponse: {
+        steps: [],
+        finalAnswer: '',
+        isComplete: false,
+        needsClarification: false
+      }
     }
 
     setMessages(prev => [...prev, processingMessage])
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
 
     try {
-      // Process query with user ID for memory integration
-      const reactResponse = await reactAgent.processQuery(inputValue, user?.id)
+      // Process query with user ID for memory integration; steps fill in live as the agent works
+      const reactResponse = await reactAgent.processQuery(text, user?.id, {
+        signal: abortController.signal,
+        onStep: (step) => {
+          setMessages(prev => prev.map(msg =>
+            msg.id === processingMessage.id && msg.reactResponse
+              ? { ...msg, reactResponse: { ...msg.reactResponse, steps: [...msg.reactResponse.steps, step] } }
+              : msg
+          ))
+        }
+      })
       
       // Remove processing message and add final response
       setMessages(prev => {
@@ -208,13 +293,21 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
         const assistantMessage: ReActMessage = {
           id: (Date.now() + 2).toString(),
           role: 'assistant',
-          content: reactResponse.finalAnswer,
+          content: reactResponse.cancelled
+            ? `Stopped. ${reactResponse.steps.length > 0 ? 'The steps finished so far are below.' : 'Nothing had run yet.'} Your message is back in the box if you want to edit and resend it.`
+            : reactResponse.finalAnswer,
           timestamp: new Date().toISOString(),
           reactResponse: reactResponse
         }
 
         return [...filtered, assistantMessage]
       })
+
+      if (reactResponse.cancelled) {
+        // Usually stopped to fix a typo, so give the query back for editing
+        setInputValue(current => current.trim() ? current : text)
+        return
+      }
       
       // Update search history
       if (user?.id) {
@@ -224,6 +317,9 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
         // Refresh user preferences in case they were updated
         const updatedPreferences = await memoryManager.getUserPreferences()
         setUserPreferences(updatedPreferences)
+        setSessionSummary(await memoryManager.getSessionSummary())
+        // The first answer names the session
+        await refreshSessions()
       }
       
       // Extract properties from the response if any
@@ -246,60 +342,145 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
         return [...filtered, errorMessage]
       })
     } finally {
+      abortControllerRef.current = null
       setIsLoading(false)
     }
   }
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
+  const handleDevanagariNumeralsChange = async (devanagariNumerals: boolean) => {
+    await memoryManager.updateUserPreferences({ devanagariNumerals })
+    setUserPreferences(await memoryManager.getUserPreferences())
+  }
+
+  const handleRevokePreference = async (field: PreferenceSource['field'], value?: string) => {
+    await memoryManager.revokePreference(field, value)
+    setUserPreferences(await memoryManager.getUserPreferences())
+  }
+
+  // Summary and fact edits write through the memory manager, then re-read its state
+  const refreshMemory = async () => {
+    setUserPreferences(await memoryManager.getUserPreferences())
+    setSessionSummary(await memoryManager.getSessionSummary())
+  }
+
+  const refreshSessions = async () => {
+    setConversationHistory(await memoryManager.getConversationHistory(SESSION_HISTORY_LIMIT))
+    setCurrentSessionId(memoryManager.getCurrentSessionId())
+  }
+
+  const showSessionMessages = async () => {
+    const context = await memoryManager.getConversationContext()
+    setMessages(context.length > 0 ? toDisplayMessages(context) : [getPersonalizedWelcomeMessage(userPreferences)])
+    await refreshMemory()
+    await refreshSessions()
+  }
+
+  // Shows whichever session the memory manager now has open
+  const showCurrentSession = async () => {
+    // A question the agent asked in the previous session no longer applies
+    reactAgent.discardPendingClarification(user?.id)
+    setClarificationReplies({})
+    await showSessionMessages()
+  }
+
+  const handleOpenSession = async (sessionId: string) => {
+    if (isLoading) return
+    await memoryManager.loadSession(sessionId)
+    await showCurrentSession()
+  }
+
+  const handleNewChat = async () => {
+    if (isLoading || !user) return
+    await memoryManager.startNewSession(user.id)
+    await showCurrentSession()
+  }
+
+  const handleRenameSession = async (sessionId: string, title: string) => {
+    await memoryManager.renameSession(sessionId, title)
+    await refreshSessions()
+  }
+
+  const handleDeleteSession = async (sessionId: string) => {
+    const wasCurrent = sessionId === memoryManager.getCurrentSessionId()
+    await memoryManager.deleteSession(sessionId)
+    if (wasCurrent) {
+      await showCurrentSession()
+    } else {
+      await refreshSessions()
+    }
+  }
+
+  const handleSearchSessions = useCallback(
+    (query: string) => memoryManager.searchSessions(query, SESSION_HISTORY_LIMIT),
+    []
+  )
+
+  const handleSummaryChange = async (text: string) => {
+    await memoryManager.updateSessionSummary(text)
+    await refreshMemory()
+  }
+
+  const handleAddFact = async (text: string) => {
+    await memoryManager.addUserFact(text)
+    await refreshMemory()
+  }
+
+  const handleUpdateFact = async (id: string, text: string) => {
+    await memoryManager.updateUserFact(id, text)
+    await refreshMemory()
+  }
+
+  const handleRemoveFact = async (id: string) => {
+    await memoryManager.removeUserFact(id)
+    await refreshMemory()
+  }
+
+  const preferredLanguage: ReplyLanguage = {
+    language: userPreferences?.language || 'en',
+    script: userPreferences?.languageScript,
+    devanagariNumerals: userPreferences?.devanagariNumerals
+  }
+
   const extractPropertiesFromResponse = (reactResponse: ReActResponse): Property[] | null => {
-    // Look for property data in the observation steps
+    // PropertyDatabase observations carry full listing records from the properties table
     for (const step of reactResponse.steps) {
-      if (step.type === 'observation' && step.toolResult?.success && step.toolResult.data?.properties) {
-        try {
-          const properties = step.toolResult.data.properties
-          if (Array.isArray(properties)) {
-            // Convert to full Property objects
-            return properties.map((prop: any) => ({
-              ...prop,
-              description: `${prop.bedrooms}BHK ${prop.priceType === 'rent' ? 'rental' : 'property'} in ${prop.location}`,
-              propertyType: prop.propertyType || 'apartment' as const,
-              areaUnit: prop.areaUnit || 'sqft' as const,
-              location: {
-                address: prop.location,
-                city: prop.location.split(',')[1]?.trim() || 'Kathmandu',
-                district: prop.location.split(',')[1]?.trim() || 'Kathmandu',
-                latitude: 27.7172,
-                longitude: 85.3240
-              },
-              images: ['https://images.unsplash.com/photo-1560448204-e02f11c3d0e2?w=800'],
-              ownerId: 'owner1',
-              ownerContact: {
-                name: 'Property Owner',
-                phone: '+977-9841234567',
-                email: 'owner@example.com'
-              },
-              features: prop.features || ['Modern', 'Well-maintained'],
-              nearbyPlaces: {
-                schools: ['Local School'],
-                hospitals: ['Nearby Hospital'],
-                markets: ['Local Market'],
-                transport: ['Bus Stop']
-              },
-              createdAt: new Date().toISOString(),
-              updatedAt: new Date().toISOString(),
-              isActive: true,
-              views: Math.floor(Math.random() * 100),
-              aiRecommendationScore: prop.match_score || 0.9,
-              aiExplanation: `This property matches your criteria with a ${Math.round((prop.match_score || 0.9) * 100)}% match score.`
-            }))
-          }
-        } catch (error) {
-          console.error('Error parsing properties from response:', error)
-        }
+      if (step.type === 'observation' && step.toolResult?.success && Array.isArray(step.toolResult.data?.properties)) {
+        return step.toolResult.data.properties as Property[]
       }
     }
     return null
   }
 
+  // A single missing field is answered in one tap; with several, picks are collected
+  // and sent together so the paused run resumes with everything at once
+  const handleClarificationChip = (clarification: ClarificationRequest, field: string, option: string) => {
+    if (clarification.missingFields.length === 1) {
+      handleSendMessage(option)
+      return
+    }
+    setClarificationReplies(prev => {
+      const next = { ...prev }
+      if (next[field] === option) {
+        delete next[field]
+      } else {
+        next[field] = option
+      }
+      return next
+    })
+  }
+
+  const sendClarificationReplies = (clarification: ClarificationRequest) => {
+    const reply = clarification.missingFields
+      .filter(field => clarificationReplies[field.field])
+      .map(field => `${field.label}: ${clarificationReplies[field.field]}`)
+      .join(', ')
+    handleSendMessage(reply)
+  }
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
@@ -315,6 +496,73 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
     }))
   }
 
+  const openCitation = async (message: ReActMessage, citation: Citation) => {
+    if (citation.kind === 'web' && citation.url) {
+      window.open(citation.url, '_blank', 'noopener,noreferrer')
+      return
+    }
+
+    if (citation.kind === 'listing' && citation.propertyId) {
+      // Prefer the record the agent saw; restored messages only keep the id
+      let property: Property | null = null
+      for (const step of message.reactResponse?.steps || []) {
+        const match = step.toolResult?.data?.properties?.find((candidate: Property) => candidate.id === citation.propertyId)
+        if (match) {
+          property = match
+          break
+        }
+      }
+      property = property || await propertyDatabase.getPropertyById(citation.propertyId)
+      if (property) onPropertySelect?.(property)
+      return
+    }
+
+    if (citation.stepIndex !== undefined) {
+      setExpandedSteps(prev => ({ ...prev, [`${message.id}-${citation.stepIndex}`]: true }))
+    }
+  }
+
+  const hostnameOf = (url: string) => {
+    try {
+      return new URL(url).hostname
+    } catch {
+      return url
+    }
+  }
+
+  // Renders [n] markers in an answer as links to the matching footnote's source
+  const renderWithCitations = (message: ReActMessage) => {
+    const citations = message.reactResponse?.citations
+    if (!citations || citations.length === 0) return message.content
+
+    return message.content.split(/(\[\d+(?:\s*,\s*\d+)*\])/g).map((part, index) => {
+      const numbers = part.match(/^\[([\d,\s]+)\]$/)?.[1].split(',').map(number => parseInt(number.trim()))
+      if (!numbers) return part
+      return (
+        <sup key={index} className="mx-0.5">
+          {numbers.map(number => {
+            const citation = citations.find(candidate => candidate.number === number)
+            return citation ? (
+              <button
+                key={number}
+                className="text-primary font-medium hover:underline"
+                title={citation.title}
+                onClick={() => openCitation(message, citation)}
+              >
+                [{number}]
+              </button>
+            ) : `[${number}]`
+          })}
+        </sup>
+      )
+    })
+  }
+
+  // Action steps are emitted before their tool runs; until the observation arrives the tool is in flight
+  const isStepInFlight = (steps: ReActStep[], index: number) => {
+    return steps[index].type === 'action' && steps[index + 1]?.type !== 'observation'
+  }
+
   const getStepIcon = (step: ReActStep) => {
     switch (step.type) {
       case 'thought':
@@ -329,6 +577,10 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
             return <Calculator className="w-4 h-4 text-purple-500" />
           case 'marketanalysis':
             return <TrendingUp className="w-4 h-4 text-orange-500" />
+          case 'mortgage':
+            return <Landmark className="w-4 h-4 text-teal-500" />
+          case 'transactioncosts':
+            return <Receipt className="w-4 h-4 text-orange-500" />
           case 'propertydatabase':
             return <Database className="w-4 h-4 text-indigo-500" />
           case 'clarify':
@@ -360,11 +612,15 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
     }
   }
 
-  const formatToolResult = (toolResult: ToolResult) => {
+  const formatToolResult = (toolResult: ToolResult, language?: ReplyLanguage) => {
     if (!toolResult.success) {
       return (
-        <div className="text-red-600 text-sm">
-          <div className="font-medium">❌ Tool execution failed</div>
+        <div className={toolResult.unavailable ? 'text-amber-700 text-sm' : 'text-red-600 text-sm'}>
+          <div className="font-medium">
+            {toolResult.unavailable
+              ? '⏸️ Tool temporarily unavailable'
+              : `❌ Tool execution failed${toolResult.attempts && toolResult.attempts > 1 ? ` after ${toolResult.attempts} attempts` : ''}`}
+          </div>
           <div className="text-xs mt-1">{toolResult.error}</div>
         </div>
       )
@@ -392,7 +648,9 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
                 </div>
                 {toolResult.data.properties.slice(0, 3).map((prop: any, idx: number) => (
                   <div key={idx} className="text-xs text-gray-600 mb-1">
-                    • {prop.title} - NPR {prop.price.toLocaleString()}/{prop.priceType}
+                    • {prop.title} - {language?.language === 'ne'
+                      ? formatNepaliPrice(prop.price, { ...language, perMonth: prop.priceType === 'rent' })
+                      : `NPR ${prop.price.toLocaleString()}/${prop.priceType}`}
                   </div>
                 ))}
               </div>
@@ -411,6 +669,13 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
               </div>
             )}
             
+            {toolResult.data.content_filtered?.length > 0 && (
+              <div className="bg-amber-50 rounded p-2 border border-amber-200 text-amber-800">
+                🛡️ Filtered instruction-like text from {toolResult.data.content_filtered.length} source{toolResult.data.content_filtered.length === 1 ? '' : 's'}
+                {' '}({[...new Set(toolResult.data.content_filtered.flatMap((entry: any) => entry.reasons))].join(', ')})
+              </div>
+            )}
+            
             {toolResult.data.places && (
               <div className="bg-white rounded p-2 border">
                 <div className="font-medium text-red-600 mb-1">
@@ -440,6 +705,47 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
               </div>
             )}
             
+            {(toolResult.data.loan || toolResult.data.affordability) && (
+              <div className="bg-white rounded p-2 border">
+                <div className="font-medium text-teal-600 mb-1">
+                  🏦 Loan & Affordability
+                </div>
+                {toolResult.data.loan && (
+                  <div className="text-xs text-gray-600">
+                    EMI NPR {toolResult.data.loan.emi.toLocaleString()}/month over {toolResult.data.loan.months} months,
+                    total interest NPR {toolResult.data.loan.total_interest.toLocaleString()}
+                  </div>
+                )}
+                {toolResult.data.affordability && (
+                  <div className="text-xs text-gray-600">
+                    Max affordable price NPR {toolResult.data.affordability.max_property_price.toLocaleString()}
+                    {' '}(limited by {toolResult.data.affordability.limited_by === 'income' ? 'income' : 'down payment'})
+                  </div>
+                )}
+                {toolResult.data.can_afford !== undefined && (
+                  <div className={`text-xs mt-1 ${toolResult.data.can_afford ? 'text-green-600' : 'text-red-600'}`}>
+                    {toolResult.data.can_afford ? 'Within budget' : 'Above what this income can borrow for'}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {toolResult.data.buyer_all_in !== undefined && (
+              <div className="bg-white rounded p-2 border">
+                <div className="font-medium text-orange-600 mb-1">
+                  🧾 Transaction Costs
+                </div>
+                {toolResult.data.items.filter((item: any) => item.amount !== null).map((item: any, idx: number) => (
+                  <div key={idx} className="text-xs text-gray-600">
+                    • {item.label}: NPR {item.amount.toLocaleString()}
+                  </div>
+                ))}
+                <div className="text-xs font-medium mt-1">
+                  Total to buy: NPR {toolResult.data.buyer_all_in.toLocaleString()}
+                </div>
+              </div>
+            )}
+
             {toolResult.data.market_overview && (
               <div className="bg-white rounded p-2 border">
                 <div className="font-medium text-orange-600 mb-1">
@@ -525,7 +831,28 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
                   <div className={`flex-1 ${message.role === 'user' ? 'text-right' : ''}`}>
                     <Card className={`${message.role === 'user' ? 'bg-primary text-white' : 'bg-muted/50 border-l-4 border-l-primary'}`}>
                       <CardContent className="p-3">
-                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                        <p className="text-sm whitespace-pre-wrap">{renderWithCitations(message)}</p>
+                        {message.reactResponse?.citations && message.reactResponse.citations.length > 0 && (
+                          <div className="mt-3 pt-2 border-t space-y-1">
+                            <div className="text-xs font-medium text-muted-foreground">Sources</div>
+                            {message.reactResponse.citations.map(citation => (
+                              <button
+                                key={citation.number}
+                                className="flex items-start space-x-1 text-xs text-left w-full hover:underline"
+                                onClick={() => openCitation(message, citation)}
+                              >
+                                <span className="font-medium text-primary">[{citation.number}]</span>
+                                {citation.kind === 'web' && <ExternalLink className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+                                {citation.kind === 'listing' && <MapPin className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+                                {citation.kind === 'calculation' && <Calculator className="w-3 h-3 mt-0.5 flex-shrink-0" />}
+                                <span className="line-clamp-2">
+                                  {citation.title}
+                                  {citation.url && <span className="text-muted-foreground"> — {hostnameOf(citation.url)}</span>}
+                                </span>
+                              </button>
+                            ))}
+                          </div>
+                        )}
                         {message.isProcessing && (
                           <div className="mt-2 flex items-center space-x-2">
                             <div className="flex space-x-1">
@@ -549,6 +876,12 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
                             <Badge variant="outline" className="text-xs">
                               {message.reactResponse.steps.length} steps
                             </Badge>
+                            {message.reactResponse.resumed && (
+                              <Badge variant="secondary" className="text-xs">Resumed</Badge>
+                            )}
+                            {message.reactResponse.cancelled && (
+                              <Badge variant="outline" className="text-xs text-amber-700 border-amber-300">Stopped</Badge>
+                            )}
                           </div>
                           <div className="flex items-center space-x-2 text-xs text-muted-foreground">
                             <BarChart3 className="w-3 h-3" />
@@ -584,6 +917,12 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
                                             <span>{step.toolResult.executionTime}ms</span>
                                           </div>
                                         )}
+                                        {message.isProcessing && isStepInFlight(message.reactResponse!.steps, index) && (
+                                          <div className="flex items-center space-x-1 text-xs text-amber-600">
+                                            <Loader2 className="w-3 h-3 animate-spin" />
+                                            <span>{(Math.max(now - step.timestamp.getTime(), 0) / 1000).toFixed(1)}s</span>
+                                          </div>
+                                        )}
                                         <div className="flex items-center space-x-1 text-xs text-muted-foreground">
                                           <Clock className="w-3 h-3" />
                                           <span>{step.timestamp.toLocaleTimeString()}</span>
@@ -618,7 +957,7 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
                                     {/* Tool Result Display */}
                                     {step.toolResult && (
                                       <div className="border-t pt-2">
-                                        {formatToolResult(step.toolResult)}
+                                        {formatToolResult(step.toolResult, message.reactResponse?.language)}
                                       </div>
                                     )}
                                   </CardContent>
@@ -635,9 +974,45 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
                                 <HelpCircle className="w-4 h-4 text-yellow-600" />
                                 <span className="text-sm font-medium text-yellow-800">Clarification Needed</span>
                               </div>
-                              <p className="text-sm text-yellow-700 mt-1">
-                                The AI needs more information to provide a complete answer.
-                              </p>
+                              {message.reactResponse.clarification && message.reactResponse.clarification.missingFields.length > 0 && message.id === messages[messages.length - 1]?.id ? (
+                                <div className="mt-2 space-y-2">
+                                  {message.reactResponse.clarification.missingFields.map(field => (
+                                    <div key={field.field}>
+                                      <div className="text-xs font-medium text-yellow-800 mb-1">{field.label}</div>
+                                      <div className="flex flex-wrap gap-1">
+                                        {field.options.map(option => (
+                                          <Button
+                                            key={option}
+                                            variant={clarificationReplies[field.field] === option ? 'default' : 'outline'}
+                                            size="sm"
+                                            className="h-7 text-xs rounded-full"
+                                            disabled={isLoading}
+                                            onClick={() => handleClarificationChip(message.reactResponse!.clarification!, field.field, option)}
+                                          >
+                                            {option}
+                                          </Button>
+                                        ))}
+                                      </div>
+                                    </div>
+                                  ))}
+                                  {message.reactResponse.clarification.missingFields.length > 1 && (
+                                    <Button
+                                      size="sm"
+                                      className="h-7 text-xs"
+                                      disabled={isLoading || Object.keys(clarificationReplies).length === 0}
+                                      onClick={() => sendClarificationReplies(message.reactResponse!.clarification!)}
+                                    >
+                                      <Send className="w-3 h-3 mr-1" />
+                                      Send answers
+                                    </Button>
+                                  )}
+                                  <p className="text-xs text-yellow-700">Or type your answer below — I'll pick up where I left off.</p>
+                                </div>
+                              ) : (
+                                <p className="text-sm text-yellow-700 mt-1">
+                                  The AI needs more information to provide a complete answer.
+                                </p>
+                              )}
                             </CardContent>
                           </Card>
                         )}
@@ -679,17 +1054,27 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
                 value={inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
                 onKeyPress={handleKeyPress}
-                disabled={isLoading}
                 className="flex-1"
               />
-              <Button
-                onClick={handleSendMessage}
-                disabled={!inputValue.trim() || isLoading}
-                size="sm"
-                className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
-              >
-                <Send className="w-4 h-4" />
-              </Button>
+              {isLoading ? (
+                <Button
+                  onClick={handleStop}
+                  variant="outline"
+                  size="sm"
+                  title="Stop"
+                >
+                  <Square className="w-4 h-4 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => handleSendMessage()}
+                  disabled={!inputValue.trim()}
+                  size="sm"
+                  className="bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+              )}
             </div>
             <div className="mt-2 text-xs text-muted-foreground text-center">
               Powered by ReAct Framework • Gemini AI • Real-time Tools • {user ? 'Memory-Enhanced' : 'Transparent Reasoning'}
@@ -708,11 +1093,15 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
             </div>
             
             <Tabs defaultValue="preferences" className="h-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="preferences" className="text-xs">
                   <Settings className="w-3 h-3 mr-1" />
                   Profile
                 </TabsTrigger>
+                <TabsTrigger value="memory" className="text-xs">
+                  <Brain className="w-3 h-3 mr-1" />
+                  Memory
+                </TabsTrigger>
                 <TabsTrigger value="history" className="text-xs">
                   <MessageSquare className="w-3 h-3 mr-1" />
                   History
@@ -731,13 +1120,13 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
                         <Home className="w-3 h-3 mr-1" />
                         Property Types
                       </h5>
-                      <div className="flex flex-wrap gap-1">
-                        {userPreferences.propertyType?.map((type: string) => (
-                          <Badge key={type} variant="secondary" className="text-xs">
-                            {type}
-                          </Badge>
-                        )) || <span className="text-xs text-muted-foreground">Not specified</span>}
-                      </div>
+                      <InferredPreferenceList
+                        field="propertyType"
+                        values={userPreferences.propertyType || []}
+                        sources={userPreferences.preferenceSources}
+                        onRevoke={handleRevokePreference}
+                        variant="secondary"
+                      />
                     </div>
                     
                     <div>
@@ -745,51 +1134,120 @@ export function ReActConversationalSearchWithMemory({ onPropertiesFound, onClose
                         <DollarSign className="w-3 h-3 mr-1" />
                         Budget Range
                       </h5>
-                      <p className="text-xs text-muted-foreground">
-                        {userPreferences.priceRange ? 
-                          `NPR ${userPreferences.priceRange.min?.toLocaleString()} - ${userPreferences.priceRange.max?.toLocaleString()}` :
-                          'Not specified'
-                        }
-                      </p>
+                      <div className="flex items-center justify-between">
+                        <p
+                          className="text-xs text-muted-foreground"
+                          title={userPreferences.priceRange ? describePreferenceSource(findPreferenceSource(userPreferences.preferenceSources, 'priceRange')) : undefined}
+                        >
+                          {userPreferences.priceRange ? 
+                            (userPreferences.language === 'ne'
+                              ? `${formatNepaliPrice(userPreferences.priceRange.min || 0, preferredLanguage)} - ${formatNepaliPrice(userPreferences.priceRange.max || 0, preferredLanguage)}`
+                              : `NPR ${userPreferences.priceRange.min?.toLocaleString()} - ${userPreferences.priceRange.max?.toLocaleString()}`) :
+                            'Not specified'
+                          }
+                        </p>
+                        {userPreferences.priceRange && (
+                          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleRevokePreference('priceRange')}>
+                            Forget
+                          </Button>
+                        )}
+                      </div>
                     </div>
+
+                    {userPreferences.bedrooms && (
+                      <div className="flex items-center justify-between">
+                        <p
+                          className="text-xs text-muted-foreground"
+                          title={describePreferenceSource(findPreferenceSource(userPreferences.preferenceSources, 'bedrooms'))}
+                        >
+                          {userPreferences.bedrooms} bedrooms
+                        </p>
+                        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleRevokePreference('bedrooms')}>
+                          Forget
+                        </Button>
+                      </div>
+                    )}
                     
                     <div>
                       <h5 className="text-sm font-medium mb-2 flex items-center">
                         <MapPin className="w-3 h-3 mr-1" />
                         Preferred Locations
                       </h5>
-                      <div className="flex flex-wrap gap-1">
-                        {userPreferences.locations?.map((location: string) => (
-                          <Badge key={location} variant="outline" className="text-xs">
-                            {location}
-                          </Badge>
-                        )) || <span className="text-xs text-muted-foreground">Not specified</span>}
-                      </div>
+                      <InferredPreferenceList
+                        field="locations"
+                        values={userPreferences.locations || []}
+                        sources={userPreferences.preferenceSources}
+                        onRevoke={handleRevokePreference}
+                      />
+                    </div>
+
+                    {(['excludedLocations', 'dealBreakers', 'amenities'] as const)
+                      .filter(field => userPreferences[field]?.length)
+                      .map(field => (
+                        <div key={field}>
+                          <h5 className="text-sm font-medium mb-2">{PREFERENCE_LIST_FIELDS[field]}</h5>
+                          <InferredPreferenceList
+                            field={field}
+                            values={userPreferences[field]}
+                            sources={userPreferences.preferenceSources}
+                            onRevoke={handleRevokePreference}
+                            variant={field === 'amenities' ? 'outline' : 'destructive'}
+                          />
+                        </div>
+                      ))}
+
+                    <p className="text-[11px] text-muted-foreground">
+                      Picked up from your messages. Hover to see where each came from; remove anything that's wrong.
+                    </p>
+
+                    <div>
+                      <h5 className="text-sm font-medium mb-2 flex items-center">
+                        <Languages className="w-3 h-3 mr-1" />
+                        Language
+                      </h5>
+                      <p className="text-xs text-muted-foreground">
+                        {userPreferences.language === 'ne'
+                          ? `Nepali (${userPreferences.languageScript === 'romanized' ? 'Romanized' : 'Devanagari'}) — detected from your messages`
+                          : 'English — write in Nepali and answers will follow'}
+                      </p>
+                      {userPreferences.language === 'ne' && (
+                        <label className="flex items-center justify-between mt-2 text-xs">
+                          <span>Devanagari numerals (१२,३४,५६७)</span>
+                          <Switch
+                            checked={!!userPreferences.devanagariNumerals}
+                            onCheckedChange={handleDevanagariNumeralsChange}
+                          />
+                        </label>
+                      )}
                     </div>
                   </div>
                 ) : (
                   <p className="text-xs text-muted-foreground">Loading preferences...</p>
                 )}
               </TabsContent>
+
+              <TabsContent value="memory" className="p-4">
+                <LongTermMemoryPanel
+                  summary={sessionSummary}
+                  facts={userPreferences?.userFacts || []}
+                  onSummaryChange={handleSummaryChange}
+                  onAddFact={handleAddFact}
+                  onUpdateFact={handleUpdateFact}
+                  onRemoveFact={handleRemoveFact}
+                />
+              </TabsContent>
               
               <TabsContent value="history" className="p-4">
-                <div className="space-y-2">
-                  {conversationHistory.length > 0 ? (
-                    conversationHistory.map((session, index) => (
-                      <Card key={session.id} className="p-2">
-                        <p className="text-xs font-medium">{session.title}</p>
-                        <p className="text-xs text-muted-foreground">
-                          {new Date(session.updatedAt).toLocaleDateString()}
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          {session.messages?.length || 0} messages
-                        </p>
-                      </Card>
-                    ))
-                  ) : (
-                    <p className="text-xs text-muted-foreground">No conversation history</p>
-                  )}
-                </div>
+                <SessionBrowser
+                  sessions={conversationHistory}
+                  currentSessionId={currentSessionId}
+                  disabled={isLoading}
+                  onSearch={handleSearchSessions}
+                  onOpen={handleOpenSession}
+                  onNewChat={handleNewChat}
+                  onRename={handleRenameSession}
+                  onDelete={handleDeleteSession}
+                />
               </TabsContent>
               
               <TabsContent value="searches" className="p-4">
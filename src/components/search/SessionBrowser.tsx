@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Check, Pencil, Plus, Search as SearchIcon, Trash2, X } from 'lucide-react'
+import type { ConversationSession, SessionSearchResult } from '@/lib/memory-manager'
+
+interface SessionBrowserProps {
+  sessions: ConversationSession[]
+  currentSessionId: string | null
+  // Disables switching while a query is running
+  disabled?: boolean
+  onSearch: (query: string) => Promise<SessionSearchResult[]>
+  onOpen: (sessionId: string) => void
+  onNewChat: () => void
+  onRename: (sessionId: string, title: string) => void
+  onDelete: (sessionId: string) => void
+}
+
+export function SessionBrowser({ sessions, currentSessionId, disabled, onSearch, onOpen, onNewChat, onRename, onDelete }: SessionBrowserProps) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<SessionSearchResult[] | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [titleDraft, setTitleDraft] = useState('')
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null)
+
+  // Searches once typing pauses; sessions changing (rename, delete) re-runs it
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null)
+      return
+    }
+    let cancelled = false
+    const timeout = setTimeout(async () => {
+      const found = await onSearch(query)
+      if (!cancelled) setResults(found)
+    }, 250)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [query, sessions, onSearch])
+
+  const startRename = (session: ConversationSession) => {
+    setEditingId(session.id)
+    setTitleDraft(session.title)
+  }
+
+  const saveRename = () => {
+    if (editingId && titleDraft.trim()) onRename(editingId, titleDraft)
+    setEditingId(null)
+  }
+
+  const entries = results ?? sessions.map(session => ({ session, snippet: '', matches: 0 }))
+
+  return (
+    <div className="space-y-2">
+      <Button variant="outline" size="sm" className="w-full h-8 text-xs" onClick={onNewChat} disabled={disabled}>
+        <Plus className="w-3 h-3 mr-1" />
+        New chat
+      </Button>
+
+      <div className="relative">
+        <SearchIcon className="w-3 h-3 absolute left-2 top-2 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search past chats"
+          className="h-7 text-xs pl-7"
+        />
+      </div>
+
+      {entries.length === 0 && (
+        <p className="text-xs text-muted-foreground">{results ? 'No chats match your search' : 'No conversation history'}</p>
+      )}
+
+      {entries.map(({ session, snippet }) => {
+        const isCurrent = session.id === currentSessionId
+        return (
+          <Card
+            key={session.id}
+            className={`p-2 group ${isCurrent ? 'border-primary' : 'cursor-pointer hover:bg-muted/50'}`}
+            onClick={() => !isCurrent && !disabled && editingId !== session.id && onOpen(session.id)}
+          >
+            {editingId === session.id ? (
+              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                <Input
+                  value={titleDraft}
+                  onChange={(e) => setTitleDraft(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && saveRename()}
+                  className="h-7 text-xs"
+                  autoFocus
+                />
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={saveRename} aria-label="Save">
+                  <Check className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditingId(null)} aria-label="Cancel">
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-start gap-1">
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-medium truncate">{session.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(session.updatedAt).toLocaleDateString()} · {session.messages.length} messages{isCurrent ? ' · open' : ''}
+                  </p>
+                  {snippet && <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{snippet}</p>}
+                </div>
+                {confirmingDeleteId === session.id ? (
+                  <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                    <span className="text-xs text-destructive mr-1">Delete?</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => {
+                        setConfirmingDeleteId(null)
+                        onDelete(session.id)
+                      }}
+                      aria-label="Confirm delete"
+                    >
+                      <Check className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setConfirmingDeleteId(null)} aria-label="Cancel">
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center opacity-0 group-hover:opacity-100" onClick={(e) => e.stopPropagation()}>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => startRename(session)} aria-label="Rename">
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => setConfirmingDeleteId(session.id)} aria-label="Delete" disabled={disabled && isCurrent}>
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
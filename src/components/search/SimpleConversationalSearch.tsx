@@ -22,8 +22,9 @@ import {
   Phone
 } from 'lucide-react'
 import { ChatMessage, Property } from '@/types'
-import { blink } from '@/lib/blink'
+import { llmGateway } from '@/lib/llmGateway'
 import { simplePropertyService } from '@/lib/simplePropertyService'
+import { formatArea } from '@/lib/landUnits'
 
 interface SimpleConversationalSearchProps {
   onPropertiesFound: (properties: Property[]) => void
@@ -84,7 +85,7 @@ I found ${foundProperties.length} properties that match the query. Here are the
 ${foundProperties.slice(0, 3).map((prop, index) => `
 ${index + 1}. ${prop.title}
    - Price: NPR ${prop.price.toLocaleString()} (${prop.priceType})
-   - Type: ${prop.propertyType} | ${prop.bedrooms}BR/${prop.bathrooms}BA | ${prop.area} ${prop.areaUnit}
+   - Type: ${prop.propertyType} | ${prop.bedrooms}BR/${prop.bathrooms}BA | ${formatArea(prop)}
    - Location: ${prop.location.address}, ${prop.location.city}
    - Amenities: ${prop.amenities.join(', ')}
    - Features: ${prop.features.join(', ')}
@@ -109,7 +110,7 @@ I couldn't find properties that exactly match the query. Please provide:
 
 Keep your response conversational, informative, and focused on helping the user make the best decision. Use emojis sparingly and maintain a professional yet friendly tone.`
 
-      const response = await blink.ai.generateText({
+      const response = await llmGateway.generateText('simple_chat', {
         prompt: aiPrompt,
         maxTokens: 500
       })
@@ -254,7 +255,7 @@ Keep your response conversational, informative, and focused on helping the user
                             </div>
                             <div className="flex items-center space-x-1">
                               <Square className="w-3 h-3" />
-                              <span>{property.area} {property.areaUnit}</span>
+                              <span>{formatArea(property)}</span>
                             </div>
                           </div>
                           
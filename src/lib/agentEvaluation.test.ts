@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  checkExpectation,
+  compareEvaluations,
+  compareRecordedPromptVersions,
+  type EvalCaseResult,
+  type EvalExpectation,
+  type EvalRunReport,
+  type ReplayFixtures
+} from './agentEvaluation'
+import { EVALUATION_CORPUS } from './evaluationCorpus'
+import { RECORDED_EVALUATION } from './evaluationRecordings'
+
+type CaseOutcome = Omit<EvalCaseResult, 'expectations' | 'passed' | 'score'>
+
+const outcome = (overrides: Partial<CaseOutcome>): CaseOutcome => ({
+  caseId: 'case',
+  query: 'query',
+  toolsUsed: [],
+  clarifiedFields: [],
+  recommendedListings: [],
+  finalAnswer: '',
+  durationMs: 0,
+  trace: [],
+  ...overrides
+})
+
+const EXPECTATION_CASES: Array<[string, EvalExpectation, Partial<CaseOutcome>, boolean]> = [
+  ['asked for the field', { type: 'asks_for', field: 'budget' }, { clarifiedFields: ['price_type', 'budget'] }, true],
+  ['did not ask for the field', { type: 'asks_for', field: 'budget' }, { clarifiedFields: ['location'] }, false],
+  ['answered directly', { type: 'no_clarification' }, {}, true],
+  ['asked a question', { type: 'no_clarification' }, { clarifiedFields: ['budget'] }, false],
+  ['called the tool', { type: 'calls_tool', tool: 'Mortgage' }, { toolsUsed: ['Mortgage'] }, true],
+  ['called another tool', { type: 'calls_tool', tool: 'Mortgage' }, { toolsUsed: ['Calculator'] }, false],
+  ['avoided the tool', { type: 'avoids_tool', tool: 'PropertyDatabase' }, { toolsUsed: ['Clarify'] }, true],
+  ['called the avoided tool', { type: 'avoids_tool', tool: 'PropertyDatabase' }, { toolsUsed: ['PropertyDatabase'] }, false],
+  ['recommended within budget', { type: 'max_listing_price', amount: 40000 }, { recommendedListings: [{ id: 'a', title: 'A', price: 40000 }] }, true],
+  ['recommended over budget', { type: 'max_listing_price', amount: 40000 }, { recommendedListings: [{ id: 'b', title: 'B', price: 55000 }] }, false],
+  ['mentioned the text, ignoring case', { type: 'answer_mentions', text: 'Yield' }, { finalAnswer: 'The gross yield is 4.8%' }, true],
+  ['left the text out', { type: 'answer_mentions', text: '4.8' }, { finalAnswer: 'About five percent' }, false]
+]
+
+const report = (promptVersion: string, scores: Record<string, boolean[]>): EvalRunReport => {
+  const cases = Object.entries(scores).map(([caseId, passes]) => ({
+    ...outcome({ caseId }),
+    expectations: passes.map(passed => ({ expectation: { type: 'no_clarification' as const }, passed, detail: '' })),
+    passed: passes.every(Boolean),
+    score: passes.filter(Boolean).length / passes.length
+  }))
+  return {
+    promptVersion,
+    startedAt: '2026-10-18T00:00:00.000Z',
+    cases,
+    passedCases: cases.filter(result => result.passed).length,
+    score: cases.reduce((sum, result) => sum + result.score, 0) / cases.length
+  }
+}
+
+describe('checkExpectation', () => {
+  it.each(EXPECTATION_CASES)('%s', (_, expectation, overrides, passed) => {
+    expect(checkExpectation(expectation, outcome(overrides)).passed).toBe(passed)
+  })
+})
+
+describe('compareEvaluations', () => {
+  it('marks each shared case improved, regressed or unchanged with the expectations that flipped', () => {
+    const comparison = compareEvaluations(
+      report('base', { steady: [true], better: [false, true], worse: [true, true], dropped: [true] }),
+      report('next', { steady: [true], better: [true, true], worse: [true, false] })
+    )
+    expect(comparison.cases.map(result => [result.caseId, result.change])).toEqual([
+      ['steady', 'unchanged'],
+      ['better', 'improved'],
+      ['worse', 'regressed']
+    ])
+    expect(comparison.cases[2].changedExpectations).toEqual([
+      expect.objectContaining({ baseline: true, candidate: false })
+    ])
+    expect(comparison.scoreDelta).toBeCloseTo(comparison.candidate.score - comparison.baseline.score, 10)
+  })
+})
+
+describe('compareRecordedPromptVersions', () => {
+  it('replays the committed recordings for every corpus case', async () => {
+    const { comparison, report } = await compareRecordedPromptVersions(EVALUATION_CORPUS, RECORDED_EVALUATION, 'react-v1', 'react-v2')
+    for (const run of [comparison.baseline, comparison.candidate]) {
+      expect(run.cases.map(result => [result.caseId, result.error, result.passed])).toEqual(
+        EVALUATION_CORPUS.map(evalCase => [evalCase.id, undefined, true])
+      )
+    }
+    expect(report).toContain('# Prompt comparison: react-v1 → react-v2')
+    expect(report).toContain(`| Cases passed | ${EVALUATION_CORPUS.length}/${EVALUATION_CORPUS.length} | ${EVALUATION_CORPUS.length}/${EVALUATION_CORPUS.length} |`)
+  })
+
+  it('reports a case the candidate gets wrong as a regression', async () => {
+    const baseline = RECORDED_EVALUATION.recordings.find(recorded => recorded.promptVersion === 'react-v1')!
+    // The candidate searches without the budget and recommends a listing above it
+    const overBudget = {
+      name: 'rent-with-budget-cap (over budget)',
+      recordedAt: '2026-10-18T00:00:00.000Z',
+      responses: [
+        { kind: 'text' as const, text: 'Action: PropertyDatabase\nAction Input: 2 bedroom apartment for rent in Baneshwor' },
+        { kind: 'text' as const, text: 'Final Answer: The Furnished 2BHK in Old Baneshwor is worth stretching to.' }
+      ]
+    }
+    const fixtures: ReplayFixtures = {
+      ...RECORDED_EVALUATION,
+      recordings: [baseline, { promptVersion: 'react-v2', cases: { ...baseline.cases, 'rent-with-budget-cap': overBudget } }]
+    }
+
+    const { comparison, report } = await compareRecordedPromptVersions(EVALUATION_CORPUS, fixtures, 'react-v1', 'react-v2')
+
+    expect(comparison.cases.filter(result => result.change === 'regressed').map(result => result.caseId)).toEqual(['rent-with-budget-cap'])
+    expect(report).toContain('## Regressions (1)')
+    expect(report).toContain('now fails: recommends nothing over NPR 40,000 (Recommended Furnished 2BHK in Old Baneshwor (NPR 55,000))')
+  })
+
+  it('refuses a prompt version with no recordings', async () => {
+    await expect(compareRecordedPromptVersions(EVALUATION_CORPUS, RECORDED_EVALUATION, 'react-v1', 'react-v9'))
+      .rejects.toThrow('No recorded runs for prompt version react-v9')
+  })
+})
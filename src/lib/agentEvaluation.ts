@@ -0,0 +1,338 @@
+import { ReActAgent, toolRegistry, type ReActResponse, type ReActStep } from './react-agent'
+import { setPlatformClient, type PlatformClient } from './platformClient'
+import { InMemoryPlatformClient, type ScriptedSearch } from './inMemoryPlatformClient'
+import { ScriptedLLM, type LLMRecording } from './scriptedLLM'
+import type { ReActPromptVersion } from './reactPrompts'
+
+// Runs a corpus of queries through ReActAgent and scores each run against what the
+// query should produce, so two prompt versions can be compared on the same corpus.
+
+export type EvalExpectation =
+  // The agent pauses on Clarify and lists this field on its Missing: line
+  | { type: 'asks_for'; field: string }
+  // The agent answers without pausing on Clarify
+  | { type: 'no_clarification' }
+  | { type: 'calls_tool'; tool: string }
+  | { type: 'avoids_tool'; tool: string }
+  // No listing the final answer recommends is priced above the amount
+  | { type: 'max_listing_price'; amount: number }
+  | { type: 'answer_mentions'; text: string }
+
+export interface EvalCase {
+  id: string
+  query: string
+  description?: string
+  // Replies given to each Clarify pause in turn; the run stops at the first pause with none left
+  replies?: string[]
+  expectations: EvalExpectation[]
+  tags?: string[]
+}
+
+export interface ExpectationResult {
+  expectation: EvalExpectation
+  passed: boolean
+  detail: string
+}
+
+export interface EvalCaseResult {
+  caseId: string
+  query: string
+  passed: boolean
+  // Share of the case's expectations that passed
+  score: number
+  expectations: ExpectationResult[]
+  toolsUsed: string[]
+  clarifiedFields: string[]
+  recommendedListings: Array<{ id: string; title: string; price: number }>
+  finalAnswer: string
+  error?: string
+  durationMs: number
+  // Every step of every turn, for reading why a case failed
+  trace: ReActStep[]
+}
+
+export interface EvalRunReport {
+  promptVersion: string
+  startedAt: string
+  cases: EvalCaseResult[]
+  passedCases: number
+  // Mean of the case scores
+  score: number
+}
+
+export interface EvalCaseComparison {
+  caseId: string
+  baselineScore: number
+  candidateScore: number
+  change: 'improved' | 'regressed' | 'unchanged'
+  // Expectations whose outcome differs between the two runs
+  changedExpectations: Array<{ expectation: EvalExpectation; baseline: boolean; candidate: boolean; detail: string }>
+}
+
+export interface EvalComparison {
+  baseline: EvalRunReport
+  candidate: EvalRunReport
+  scoreDelta: number
+  cases: EvalCaseComparison[]
+}
+
+// Builds the platform client a case runs against. Return an InMemoryPlatformClient with
+// a ScriptedLLM to replay recorded traces offline, or the live client (optionally wrapped
+// in an LLMRecorder) to record new ones
+export type ModelClientFactory = (evalCase: EvalCase, promptVersion: string) => PlatformClient
+
+// Every case's model responses from one run of a prompt version, as LLMRecorder saved them
+export interface PromptVersionRecording {
+  promptVersion: string
+  cases: Record<string, LLMRecording>
+}
+
+// What a recorded run saw besides the model, so replaying it reproduces the same tool results
+export interface ReplayFixtures {
+  recordings: PromptVersionRecording[]
+  listings: Array<Record<string, any>>
+  searches?: ScriptedSearch[]
+}
+
+export interface EvaluationOptions {
+  promptVersion: string | ReActPromptVersion
+  client: ModelClientFactory
+  onCaseComplete?: (result: EvalCaseResult) => void
+}
+
+const describeExpectation = (expectation: EvalExpectation): string => {
+  switch (expectation.type) {
+    case 'asks_for': return `asks for ${expectation.field}`
+    case 'no_clarification': return 'answers without clarifying'
+    case 'calls_tool': return `calls ${expectation.tool}`
+    case 'avoids_tool': return `does not call ${expectation.tool}`
+    case 'max_listing_price': return `recommends nothing over NPR ${expectation.amount.toLocaleString()}`
+    case 'answer_mentions': return `answer mentions "${expectation.text}"`
+  }
+}
+
+// Listings the final answer recommends: those it cites, plus any listing from a
+// PropertyDatabase observation whose title it repeats
+function recommendedListings(steps: ReActStep[], responses: ReActResponse[], finalAnswer: string) {
+  const listings = new Map<string, { id: string; title: string; price: number }>()
+  for (const step of steps) {
+    for (const property of step.toolResult?.data?.properties || []) {
+      listings.set(property.id, { id: property.id, title: property.title, price: property.price })
+    }
+  }
+
+  const cited = new Set(responses.flatMap(response => response.citations || [])
+    .filter(citation => citation.propertyId)
+    .map(citation => citation.propertyId as string))
+  const answer = finalAnswer.toLowerCase()
+  return Array.from(listings.values())
+    .filter(listing => cited.has(listing.id) || (listing.title && answer.includes(listing.title.toLowerCase())))
+}
+
+export function checkExpectation(expectation: EvalExpectation, result: Omit<EvalCaseResult, 'expectations' | 'passed' | 'score'>): ExpectationResult {
+  const check = (passed: boolean, detail: string) => ({ expectation, passed, detail })
+  switch (expectation.type) {
+    case 'asks_for':
+      return check(
+        result.clarifiedFields.includes(expectation.field),
+        result.clarifiedFields.length > 0 ? `Asked for ${result.clarifiedFields.join(', ')}` : 'Did not ask for clarification'
+      )
+    case 'no_clarification':
+      return check(result.clarifiedFields.length === 0 && !result.trace.some(step => step.actionName === 'Clarify'),
+        result.clarifiedFields.length > 0 ? `Asked for ${result.clarifiedFields.join(', ')}` : 'Answered directly')
+    case 'calls_tool':
+      return check(result.toolsUsed.includes(expectation.tool), `Tools used: ${result.toolsUsed.join(', ') || 'none'}`)
+    case 'avoids_tool':
+      return check(!result.toolsUsed.includes(expectation.tool), `Tools used: ${result.toolsUsed.join(', ') || 'none'}`)
+    case 'max_listing_price': {
+      const violations = result.recommendedListings.filter(listing => listing.price > expectation.amount)
+      return check(
+        violations.length === 0,
+        violations.length > 0
+          ? `Recommended ${violations.map(listing => `${listing.title} (NPR ${listing.price.toLocaleString()})`).join(', ')}`
+          : `${result.recommendedListings.length} recommended listing(s) within budget`
+      )
+    }
+    case 'answer_mentions':
+      return check(result.finalAnswer.toLowerCase().includes(expectation.text.toLowerCase()), 'Checked the final answer')
+  }
+}
+
+async function runCase(evalCase: EvalCase, options: EvaluationOptions, promptVersion: string): Promise<EvalCaseResult> {
+  const startTime = Date.now()
+  const previousClient = setPlatformClient(options.client(evalCase, promptVersion))
+  const agent = new ReActAgent(toolRegistry, options.promptVersion)
+  const responses: ReActResponse[] = []
+  const trace: ReActStep[] = []
+  let error: string | undefined
+
+  try {
+    const replies = [...(evalCase.replies || [])]
+    let response = await agent.processQuery(evalCase.query)
+    responses.push(response)
+    trace.push(...response.steps)
+    while (response.clarification && replies.length > 0) {
+      response = await agent.processQuery(replies.shift() as string)
+      responses.push(response)
+      trace.push(...response.steps)
+    }
+  } catch (caseError) {
+    error = caseError instanceof Error ? caseError.message : String(caseError)
+  } finally {
+    setPlatformClient(previousClient)
+  }
+
+  const finalAnswer = responses[responses.length - 1]?.finalAnswer || ''
+  const partial = {
+    caseId: evalCase.id,
+    query: evalCase.query,
+    toolsUsed: Array.from(new Set(trace.filter(step => step.type === 'action' && step.actionName).map(step => step.actionName as string))),
+    clarifiedFields: Array.from(new Set(responses.flatMap(response => response.clarification?.missingFields.map(field => field.field) || []))),
+    recommendedListings: recommendedListings(trace, responses, finalAnswer),
+    finalAnswer,
+    error,
+    durationMs: Date.now() - startTime,
+    trace
+  }
+
+  const expectations = error
+    ? evalCase.expectations.map(expectation => ({ expectation, passed: false, detail: `Run failed: ${error}` }))
+    : evalCase.expectations.map(expectation => checkExpectation(expectation, partial))
+  const passedCount = expectations.filter(result => result.passed).length
+
+  return {
+    ...partial,
+    expectations,
+    passed: passedCount === expectations.length,
+    score: expectations.length > 0 ? passedCount / expectations.length : 1
+  }
+}
+
+// Cases run one at a time because the platform client is swapped globally for each
+export async function runEvaluation(corpus: EvalCase[], options: EvaluationOptions): Promise<EvalRunReport> {
+  const promptVersion = typeof options.promptVersion === 'string' ? options.promptVersion : options.promptVersion.version
+  const startedAt = new Date().toISOString()
+  const cases: EvalCaseResult[] = []
+
+  for (const evalCase of corpus) {
+    const result = await runCase(evalCase, options, promptVersion)
+    cases.push(result)
+    options.onCaseComplete?.(result)
+  }
+
+  return {
+    promptVersion,
+    startedAt,
+    cases,
+    passedCases: cases.filter(result => result.passed).length,
+    score: cases.length > 0 ? cases.reduce((sum, result) => sum + result.score, 0) / cases.length : 0
+  }
+}
+
+export function compareEvaluations(baseline: EvalRunReport, candidate: EvalRunReport): EvalComparison {
+  const candidateCases = new Map(candidate.cases.map(result => [result.caseId, result]))
+  const cases = baseline.cases
+    .filter(result => candidateCases.has(result.caseId))
+    .map(baselineCase => {
+      const candidateCase = candidateCases.get(baselineCase.caseId) as EvalCaseResult
+      return {
+        caseId: baselineCase.caseId,
+        baselineScore: baselineCase.score,
+        candidateScore: candidateCase.score,
+        change: candidateCase.score > baselineCase.score ? 'improved' as const
+          : candidateCase.score < baselineCase.score ? 'regressed' as const
+          : 'unchanged' as const,
+        changedExpectations: baselineCase.expectations
+          .map((result, index) => ({
+            expectation: result.expectation,
+            baseline: result.passed,
+            candidate: candidateCase.expectations[index]?.passed ?? false,
+            detail: candidateCase.expectations[index]?.detail ?? 'Not run'
+          }))
+          .filter(change => change.baseline !== change.candidate)
+      }
+    })
+
+  return { baseline, candidate, scoreDelta: candidate.score - baseline.score, cases }
+}
+
+export async function comparePromptVersions(
+  corpus: EvalCase[],
+  baselineVersion: string | ReActPromptVersion,
+  candidateVersion: string | ReActPromptVersion,
+  client: ModelClientFactory
+): Promise<EvalComparison> {
+  const baseline = await runEvaluation(corpus, { promptVersion: baselineVersion, client })
+  const candidate = await runEvaluation(corpus, { promptVersion: candidateVersion, client })
+  return compareEvaluations(baseline, candidate)
+}
+
+// Replays each case's recorded responses for the prompt version under evaluation. A case
+// with no recording gets a model that fails its first call, so it shows up as a failed run
+export function replayClient(fixtures: ReplayFixtures): ModelClientFactory {
+  return (evalCase, promptVersion) => {
+    const recording = fixtures.recordings.find(recorded => recorded.promptVersion === promptVersion)?.cases[evalCase.id]
+    return new InMemoryPlatformClient({
+      llm: new ScriptedLLM(recording || []),
+      tables: { properties: fixtures.listings },
+      searches: fixtures.searches
+    })
+  }
+}
+
+// Scores two prompt versions on their recorded runs, without a network, and returns the
+// comparison with its Markdown report
+export async function compareRecordedPromptVersions(
+  corpus: EvalCase[],
+  fixtures: ReplayFixtures,
+  baselineVersion: string,
+  candidateVersion: string
+): Promise<{ comparison: EvalComparison; report: string }> {
+  for (const version of [baselineVersion, candidateVersion]) {
+    if (!fixtures.recordings.some(recorded => recorded.promptVersion === version)) {
+      throw new Error(`No recorded runs for prompt version ${version}`)
+    }
+  }
+  const comparison = await comparePromptVersions(corpus, baselineVersion, candidateVersion, replayClient(fixtures))
+  return { comparison, report: formatComparisonReport(comparison) }
+}
+
+// A Markdown report of a comparison: overall scores, then every case whose outcome changed
+export function formatComparisonReport(comparison: EvalComparison): string {
+  const { baseline, candidate } = comparison
+  const percent = (score: number) => `${Math.round(score * 100)}%`
+  const signed = (delta: number) => `${delta >= 0 ? '+' : ''}${Math.round(delta * 100)} pts`
+  const lines = [
+    `# Prompt comparison: ${baseline.promptVersion} → ${candidate.promptVersion}`,
+    '',
+    '| | Baseline | Candidate |',
+    '|---|---|---|',
+    `| Prompt version | ${baseline.promptVersion} | ${candidate.promptVersion} |`,
+    `| Cases passed | ${baseline.passedCases}/${baseline.cases.length} | ${candidate.passedCases}/${candidate.cases.length} |`,
+    `| Score | ${percent(baseline.score)} | ${percent(candidate.score)} (${signed(comparison.scoreDelta)}) |`,
+    ''
+  ]
+
+  for (const change of ['regressed', 'improved'] as const) {
+    const changed = comparison.cases.filter(result => result.change === change)
+    lines.push(`## ${change === 'regressed' ? 'Regressions' : 'Improvements'} (${changed.length})`, '')
+    if (changed.length === 0) lines.push('None.')
+    for (const result of changed) {
+      lines.push(`- **${result.caseId}** ${percent(result.baselineScore)} → ${percent(result.candidateScore)}`)
+      for (const expectation of result.changedExpectations) {
+        lines.push(`  - ${expectation.candidate ? 'now passes' : 'now fails'}: ${describeExpectation(expectation.expectation)} (${expectation.detail})`)
+      }
+    }
+    lines.push('')
+  }
+
+  const failing = candidate.cases.filter(result => !result.passed)
+  lines.push(`## Failing with ${candidate.promptVersion} (${failing.length})`, '')
+  if (failing.length === 0) lines.push('None.')
+  for (const result of failing) {
+    const failed = result.expectations.filter(expectation => !expectation.passed)
+    lines.push(`- **${result.caseId}**: ${failed.map(expectation => `${describeExpectation(expectation.expectation)} (${expectation.detail})`).join('; ')}`)
+  }
+
+  return lines.join('\n')
+}
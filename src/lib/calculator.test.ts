@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateCalculation, type CalculationErrorCode } from './calculator'
+
+// Plain arithmetic: precedence, associativity and the number formats people paste in
+const ARITHMETIC_CASES: Array<[string, number]> = [
+  ['2 + 3 * 4', 14],
+  ['(2 + 3) * 4', 20],
+  ['10 - 4 - 3', 3],
+  ['2 ^ 3 ^ 2', 512],
+  ['-2 ^ 2', -4],
+  ['--3', 3],
+  ['1,000,000 / 4', 250000],
+  ['1.5e7 - .5', 14999999.5]
+]
+
+// Formula calls and the calculation type and unit each reports
+const FORMULA_CASES: Array<[string, { result: number; calculationType: string; unit: string }]> = [
+  ['roi(cost=10000000, value=12000000)', { result: 20, calculationType: 'roi', unit: '%' }],
+  ['roi(cost=10000000, gain=1500000)', { result: 15, calculationType: 'roi', unit: '%' }],
+  ['gross_yield(monthly_rent=45000, price=12000000)', { result: 4.5, calculationType: 'gross_yield', unit: '%' }],
+  ['gross_yield(annual_rent=540000, price=12000000)', { result: 4.5, calculationType: 'gross_yield', unit: '%' }],
+  ['net_yield(monthly_rent=45000, annual_expenses=60000, price=12000000)', { result: 4, calculationType: 'net_yield', unit: '%' }],
+  ['cap_rate(noi=480000, price=12000000)', { result: 4, calculationType: 'cap_rate', unit: '%' }],
+  ['cap_rate(annual_rent=540000, annual_expenses=60000, price=12000000)', { result: 4, calculationType: 'cap_rate', unit: '%' }],
+  ['emi(principal=5000000, annual_rate=10.5, years=20)', { result: 49918.99, calculationType: 'emi', unit: 'NPR/month' }],
+  ['emi(principal=5000000, annual_rate=10.5, months=240)', { result: 49918.99, calculationType: 'emi', unit: 'NPR/month' }],
+  ['emi(principal=1200000, annual_rate=0, years=1)', { result: 100000, calculationType: 'emi', unit: 'NPR/month' }],
+  // Arguments are expressions too
+  ['gross_yield(monthly_rent=40000 + 5000, price=1.2 * 10^7)', { result: 4.5, calculationType: 'gross_yield', unit: '%' }],
+  // A formula inside a larger expression is just arithmetic
+  ['roi(cost=100, value=150) / 2', { result: 25, calculationType: 'expression', unit: '' }]
+]
+
+// Malformed input and impossible maths come back as errors, never as exceptions
+const ERROR_CASES: Array<[string, CalculationErrorCode]> = [
+  ['', 'syntax_error'],
+  ['2 +', 'syntax_error'],
+  ['(2 + 3', 'syntax_error'],
+  ['2 3', 'syntax_error'],
+  ['11.5%', 'syntax_error'],
+  ['2 $ 3', 'syntax_error'],
+  ['price', 'syntax_error'],
+  ['gross_yield(45000, 12000000)', 'syntax_error'],
+  ['irr(cost=100)', 'unknown_formula'],
+  ['roi(cost=100, value=150, rent=10)', 'unknown_argument'],
+  ['roi(cost=100)', 'missing_arguments'],
+  ['roi(cost=100, value=150, gain=50)', 'ambiguous_arguments'],
+  ['roi(cost=100, cost=200)', 'ambiguous_arguments'],
+  ['10 / 0', 'math_error'],
+  ['10 / (5 - 5)', 'math_error'],
+  ['roi(cost=0, value=150)', 'math_error'],
+  ['gross_yield(monthly_rent=45000, price=0)', 'math_error'],
+  ['emi(principal=5000000, annual_rate=-1, years=20)', 'math_error'],
+  ['10 ^ 400', 'math_error']
+]
+
+describe('evaluateCalculation', () => {
+  it.each(ARITHMETIC_CASES)('evaluates "%s"', (expression, expected) => {
+    const outcome = evaluateCalculation(expression)
+    expect(outcome.ok && outcome.result).toBeCloseTo(expected, 6)
+    expect(outcome).toMatchObject({ calculationType: 'expression', unit: '' })
+  })
+
+  it.each(FORMULA_CASES)('evaluates "%s"', (expression, { result, ...expected }) => {
+    const outcome = evaluateCalculation(expression)
+    expect(outcome).toMatchObject({ ok: true, ...expected })
+    expect(outcome.ok && outcome.result).toBeCloseTo(result, 2)
+  })
+
+  it.each(ERROR_CASES)('rejects "%s" with %s', (expression, code) => {
+    const outcome = evaluateCalculation(expression)
+    expect(outcome.ok).toBe(false)
+    expect(!outcome.ok && outcome.error.code).toBe(code)
+  })
+
+  it('records the formula inputs and formats the result in its unit', () => {
+    expect(evaluateCalculation('gross_yield(monthly_rent=45000, price=12000000)')).toMatchObject({
+      inputs: { monthly_rent: 45000, price: 12000000 },
+      formatted: '4.5%'
+    })
+    expect(evaluateCalculation('emi(principal=1200000, annual_rate=0, years=1)')).toMatchObject({
+      formatted: `NPR ${(100000).toLocaleString()}/month`
+    })
+  })
+
+  it('names the arguments a formula call is missing', () => {
+    const outcome = evaluateCalculation('roi(cost=100)')
+    expect(!outcome.ok && outcome.error).toMatchObject({
+      formula: 'roi',
+      missingArguments: ['value', 'gain'],
+      usage: 'roi(cost=..., value=...) or roi(cost=..., gain=...)'
+    })
+  })
+})
@@ -0,0 +1,466 @@
+// Safe calculator for the agent's Calculator tool. Expressions are tokenised and
+// parsed into a small AST, never evaluated as code. Real-estate formulas take
+// explicit named arguments, e.g. gross_yield(monthly_rent=45000, price=12000000).
+
+import { calculateEmi } from './mortgage'
+
+export type CalculationErrorCode =
+  | 'syntax_error'
+  | 'unknown_formula'
+  | 'unknown_argument'
+  | 'missing_arguments'
+  | 'ambiguous_arguments'
+  | 'math_error'
+
+export interface CalculationError {
+  code: CalculationErrorCode
+  message: string
+  formula?: string
+  missingArguments?: string[]
+  allowedArguments?: string[]
+  usage?: string
+}
+
+export interface CalculationSuccess {
+  ok: true
+  expression: string
+  result: number
+  formatted: string
+  unit: string
+  // Formula name when the whole input is a single formula call, otherwise 'expression'
+  calculationType: string
+  inputs: Record<string, number>
+}
+
+export type CalculationOutcome = CalculationSuccess | { ok: false; error: CalculationError }
+
+interface FormulaDefinition {
+  name: string
+  description: string
+  unit: string
+  // Each signature is one accepted set of argument names; the call must match one exactly
+  signatures: string[][]
+  compute: (args: Record<string, number>) => number
+}
+
+class CalculatorError extends Error {
+  details: CalculationError
+
+  constructor(details: CalculationError) {
+    super(details.message)
+    this.details = details
+  }
+}
+
+const annualRent = (args: Record<string, number>) =>
+  args.annual_rent !== undefined ? args.annual_rent : args.monthly_rent * 12
+
+function requirePositive(args: Record<string, number>, ...names: string[]): void {
+  for (const name of names) {
+    if (args[name] !== undefined && !(args[name] > 0)) {
+      throw new CalculatorError({ code: 'math_error', message: `${name} must be greater than zero` })
+    }
+  }
+}
+
+export const FORMULAS: FormulaDefinition[] = [
+  {
+    name: 'roi',
+    description: 'Return on investment in percent, from the resale value or from the net gain',
+    unit: '%',
+    signatures: [['cost', 'value'], ['cost', 'gain']],
+    compute: (args) => {
+      requirePositive(args, 'cost')
+      const gain = args.gain !== undefined ? args.gain : args.value - args.cost
+      return (gain / args.cost) * 100
+    }
+  },
+  {
+    name: 'gross_yield',
+    description: 'Gross rental yield in percent: annual rent over property price',
+    unit: '%',
+    signatures: [['annual_rent', 'price'], ['monthly_rent', 'price']],
+    compute: (args) => {
+      requirePositive(args, 'price')
+      return (annualRent(args) / args.price) * 100
+    }
+  },
+  {
+    name: 'net_yield',
+    description: 'Net rental yield in percent: annual rent less annual expenses, over property price',
+    unit: '%',
+    signatures: [['annual_rent', 'annual_expenses', 'price'], ['monthly_rent', 'annual_expenses', 'price']],
+    compute: (args) => {
+      requirePositive(args, 'price')
+      return ((annualRent(args) - args.annual_expenses) / args.price) * 100
+    }
+  },
+  {
+    name: 'cap_rate',
+    description: 'Capitalisation rate in percent: net operating income over property price',
+    unit: '%',
+    signatures: [['noi', 'price'], ['annual_rent', 'annual_expenses', 'price'], ['monthly_rent', 'annual_expenses', 'price']],
+    compute: (args) => {
+      requirePositive(args, 'price')
+      const noi = args.noi !== undefined ? args.noi : annualRent(args) - args.annual_expenses
+      return (noi / args.price) * 100
+    }
+  },
+  {
+    name: 'price_per_sqft',
+    description: 'Price per square foot',
+    unit: 'NPR/sqft',
+    signatures: [['price', 'sqft']],
+    compute: (args) => {
+      requirePositive(args, 'sqft')
+      return args.price / args.sqft
+    }
+  },
+  {
+    name: 'price_per_ropani',
+    description: 'Price per ropani of land',
+    unit: 'NPR/ropani',
+    signatures: [['price', 'ropani']],
+    compute: (args) => {
+      requirePositive(args, 'ropani')
+      return args.price / args.ropani
+    }
+  },
+  {
+    name: 'emi',
+    description: 'Monthly loan instalment (EMI) for a principal at an annual interest rate in percent',
+    unit: 'NPR/month',
+    signatures: [['principal', 'annual_rate', 'years'], ['principal', 'annual_rate', 'months']],
+    compute: (args) => {
+      requirePositive(args, 'principal', 'years', 'months')
+      if (args.annual_rate < 0) {
+        throw new CalculatorError({ code: 'math_error', message: 'annual_rate cannot be negative' })
+      }
+      const months = args.months !== undefined ? args.months : args.years * 12
+      return calculateEmi(args.principal, args.annual_rate, months)
+    }
+  }
+]
+
+export function formulaUsage(formula: FormulaDefinition): string {
+  return formula.signatures
+    .map(signature => `${formula.name}(${signature.map(name => `${name}=...`).join(', ')})`)
+    .join(' or ')
+}
+
+export const CALCULATOR_USAGE = `Arithmetic with + - * / ^ and parentheses, or one of: ${FORMULAS.map(formulaUsage).join('; ')}. Write percentages as plain numbers, e.g. annual_rate=11.5`
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number }
+
+type Node =
+  | { type: 'number'; value: number }
+  | { type: 'negate'; operand: Node }
+  | { type: 'binary'; operator: string; left: Node; right: Node }
+  | { type: 'call'; name: string; args: Record<string, Node> }
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    // Numbers, allowing thousands separators (1,000,000) and exponents (1.5e7)
+    const numberMatch = input.slice(i).match(/^(?:\d{1,3}(?:,\d{3})+(?!\d)|\d+)(?:\.\d+)?(?:e[+-]?\d+)?|^\.\d+/i)
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: parseFloat(numberMatch[0].replace(/,/g, '')), position: i })
+      i += numberMatch[0].length
+      continue
+    }
+
+    const identifierMatch = input.slice(i).match(/^[a-z_][a-z0-9_]*/i)
+    if (identifierMatch) {
+      tokens.push({ type: 'identifier', value: identifierMatch[0].toLowerCase(), position: i })
+      i += identifierMatch[0].length
+      continue
+    }
+
+    if ('+-*/^()=,'.includes(char)) {
+      tokens.push({ type: 'operator', value: char, position: i })
+      i++
+      continue
+    }
+
+    if (char === '%') {
+      throw new CalculatorError({
+        code: 'syntax_error',
+        message: 'Write percentages as plain numbers, e.g. annual_rate=11.5 rather than 11.5%',
+        usage: CALCULATOR_USAGE
+      })
+    }
+
+    throw new CalculatorError({
+      code: 'syntax_error',
+      message: `Unexpected character "${char}" at position ${i + 1}`,
+      usage: CALCULATOR_USAGE
+    })
+  }
+
+  return tokens
+}
+
+class Parser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens
+  }
+
+  parse(): Node {
+    if (this.tokens.length === 0) {
+      throw new CalculatorError({ code: 'syntax_error', message: 'Empty expression', usage: CALCULATOR_USAGE })
+    }
+    const node = this.parseExpression()
+    if (this.index < this.tokens.length) {
+      this.fail(`Unexpected "${this.tokens[this.index].value}"`)
+    }
+    return node
+  }
+
+  private parseExpression(): Node {
+    let node = this.parseTerm()
+    while (this.matchOperator('+', '-')) {
+      const operator = this.tokens[this.index - 1].value as string
+      node = { type: 'binary', operator, left: node, right: this.parseTerm() }
+    }
+    return node
+  }
+
+  private parseTerm(): Node {
+    let node = this.parseUnary()
+    while (this.matchOperator('*', '/')) {
+      const operator = this.tokens[this.index - 1].value as string
+      node = { type: 'binary', operator, left: node, right: this.parseUnary() }
+    }
+    return node
+  }
+
+  private parseUnary(): Node {
+    if (this.matchOperator('-')) return { type: 'negate', operand: this.parseUnary() }
+    if (this.matchOperator('+')) return this.parseUnary()
+    return this.parsePower()
+  }
+
+  private parsePower(): Node {
+    const base = this.parsePrimary()
+    if (this.matchOperator('^')) {
+      // Right associative, and binds tighter than unary minus on its left
+      return { type: 'binary', operator: '^', left: base, right: this.parseUnary() }
+    }
+    return base
+  }
+
+  private parsePrimary(): Node {
+    const token = this.tokens[this.index]
+    if (!token) this.fail('Expression ended unexpectedly')
+
+    if (token.type === 'number') {
+      this.index++
+      return { type: 'number', value: token.value }
+    }
+
+    if (token.type === 'operator' && token.value === '(') {
+      this.index++
+      const node = this.parseExpression()
+      this.expectOperator(')')
+      return node
+    }
+
+    if (token.type === 'identifier') {
+      this.index++
+      if (!this.matchOperator('(')) {
+        this.fail(`Unknown name "${token.value}". Formulas take named arguments in parentheses`)
+      }
+      return { type: 'call', name: token.value, args: this.parseNamedArguments(token.value) }
+    }
+
+    return this.fail(`Unexpected "${token.value}"`)
+  }
+
+  private parseNamedArguments(formula: string): Record<string, Node> {
+    const args: Record<string, Node> = {}
+    const definition = FORMULAS.find(candidate => candidate.name === formula)
+    const usage = definition ? formulaUsage(definition) : CALCULATOR_USAGE
+    if (this.matchOperator(')')) return args
+
+    do {
+      const name = this.tokens[this.index]
+      if (!name || name.type !== 'identifier' || this.tokens[this.index + 1]?.value !== '=') {
+        throw new CalculatorError({
+          code: 'syntax_error',
+          formula,
+          message: `Arguments to ${formula} must be named, e.g. ${usage}`,
+          usage
+        })
+      }
+      this.index += 2
+      if (args[name.value]) {
+        throw new CalculatorError({
+          code: 'ambiguous_arguments',
+          formula,
+          message: `Argument "${name.value}" was given more than once to ${formula}`
+        })
+      }
+      args[name.value] = this.parseExpression()
+    } while (this.matchOperator(','))
+
+    this.expectOperator(')')
+    return args
+  }
+
+  private matchOperator(...operators: string[]): boolean {
+    const token = this.tokens[this.index]
+    if (token?.type === 'operator' && operators.includes(token.value)) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.matchOperator(operator)) this.fail(`Expected "${operator}"`)
+  }
+
+  private fail(message: string): never {
+    const token = this.tokens[this.index]
+    throw new CalculatorError({
+      code: 'syntax_error',
+      message: token ? `${message} at position ${token.position + 1}` : message,
+      usage: CALCULATOR_USAGE
+    })
+  }
+}
+
+function resolveFormulaArguments(formula: FormulaDefinition, provided: string[]): void {
+  const allowed = [...new Set(formula.signatures.flat())]
+  const unknown = provided.filter(name => !allowed.includes(name))
+  if (unknown.length > 0) {
+    throw new CalculatorError({
+      code: 'unknown_argument',
+      formula: formula.name,
+      message: `Unknown argument(s) for ${formula.name}: ${unknown.join(', ')}. Usage: ${formulaUsage(formula)}`,
+      allowedArguments: allowed,
+      usage: formulaUsage(formula)
+    })
+  }
+
+  const providedSet = new Set(provided)
+  const exact = formula.signatures.find(signature =>
+    signature.length === providedSet.size && signature.every(name => providedSet.has(name))
+  )
+  if (exact) return
+
+  // Every argument of some signature is present, plus extras that conflict with it
+  if (formula.signatures.some(signature => signature.every(name => providedSet.has(name)))) {
+    throw new CalculatorError({
+      code: 'ambiguous_arguments',
+      formula: formula.name,
+      message: `Conflicting arguments for ${formula.name}: ${provided.join(', ')}. Use exactly one of: ${formulaUsage(formula)}`,
+      usage: formulaUsage(formula)
+    })
+  }
+
+  const missingBySignature = formula.signatures.map(signature => signature.filter(name => !providedSet.has(name)))
+  const fewestMissing = Math.min(...missingBySignature.map(missing => missing.length))
+  const missingArguments = [...new Set(missingBySignature.filter(missing => missing.length === fewestMissing).flat())]
+  throw new CalculatorError({
+    code: 'missing_arguments',
+    formula: formula.name,
+    message: `Missing argument(s) for ${formula.name}: ${missingArguments.join(' or ')}. Usage: ${formulaUsage(formula)}`,
+    missingArguments,
+    usage: formulaUsage(formula)
+  })
+}
+
+function evaluate(node: Node, inputs: Record<string, number>): number {
+  switch (node.type) {
+    case 'number':
+      return node.value
+    case 'negate':
+      return -evaluate(node.operand, inputs)
+    case 'binary': {
+      const left = evaluate(node.left, inputs)
+      const right = evaluate(node.right, inputs)
+      switch (node.operator) {
+        case '+': return left + right
+        case '-': return left - right
+        case '*': return left * right
+        case '/':
+          if (right === 0) throw new CalculatorError({ code: 'math_error', message: 'Division by zero' })
+          return left / right
+        default: return Math.pow(left, right)
+      }
+    }
+    case 'call': {
+      const formula = FORMULAS.find(definition => definition.name === node.name)
+      if (!formula) {
+        throw new CalculatorError({
+          code: 'unknown_formula',
+          message: `Unknown formula "${node.name}". Available: ${FORMULAS.map(definition => definition.name).join(', ')}`,
+          usage: CALCULATOR_USAGE
+        })
+      }
+      resolveFormulaArguments(formula, Object.keys(node.args))
+      const args: Record<string, number> = {}
+      for (const [name, argNode] of Object.entries(node.args)) {
+        args[name] = evaluate(argNode, inputs)
+        inputs[name] = args[name]
+      }
+      return formula.compute(args)
+    }
+  }
+}
+
+function formatResult(result: number, unit: string): string {
+  const rounded = result.toLocaleString(undefined, { maximumFractionDigits: 2 })
+  if (unit === '%') return `${rounded}%`
+  if (unit.startsWith('NPR')) {
+    const per = unit.split('/')[1]
+    return `NPR ${rounded}${per ? `/${per}` : ''}`
+  }
+  return rounded
+}
+
+export function evaluateCalculation(expression: string): CalculationOutcome {
+  try {
+    const root = new Parser(tokenize(expression)).parse()
+    const inputs: Record<string, number> = {}
+    const result = evaluate(root, inputs)
+
+    if (!isFinite(result)) {
+      throw new CalculatorError({ code: 'math_error', message: 'The calculation did not produce a finite number' })
+    }
+
+    const formula = root.type === 'call' ? FORMULAS.find(definition => definition.name === root.name) : undefined
+    const unit = formula?.unit || ''
+
+    return {
+      ok: true,
+      expression,
+      result,
+      formatted: formatResult(result, unit),
+      unit,
+      calculationType: formula?.name || 'expression',
+      inputs
+    }
+  } catch (error) {
+    if (error instanceof CalculatorError) {
+      return { ok: false, error: error.details }
+    }
+    throw error
+  }
+}
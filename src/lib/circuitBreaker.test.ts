@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { CircuitBreaker } from './circuitBreaker'
+
+const POLICY = { failureThreshold: 2, windowSize: 3, cooldownMs: 60000, slowCallMs: 1000 }
+
+// A breaker opened at t=0 by two failures in a row
+const openBreaker = () => {
+  const breaker = new CircuitBreaker(POLICY)
+  breaker.record(false, 10, 'HTTP 503', 0)
+  breaker.record(false, 10, 'HTTP 503', 0)
+  return breaker
+}
+
+describe('CircuitBreaker', () => {
+  it('stays closed while failures in the window are under the threshold', () => {
+    const breaker = new CircuitBreaker(POLICY)
+    breaker.record(false, 10, 'HTTP 503', 0)
+    breaker.record(true, 10, undefined, 0)
+    breaker.record(true, 10, undefined, 0)
+    // The first failure has left the window of three
+    breaker.record(false, 10, 'HTTP 503', 0)
+
+    expect(breaker.allowRequest(0)).toBe(true)
+    expect(breaker.status(0)).toMatchObject({ state: 'closed', recentFailures: 1, lastError: 'HTTP 503' })
+  })
+
+  it('opens at the failure threshold and refuses calls until the cooldown ends', () => {
+    const breaker = openBreaker()
+
+    expect(breaker.status(0)).toMatchObject({ state: 'open', recentFailures: 2, retryAt: 60000 })
+    expect(breaker.allowRequest(59999)).toBe(false)
+  })
+
+  it('counts a slow success as a failure', () => {
+    const breaker = new CircuitBreaker(POLICY)
+    breaker.record(true, 1500, undefined, 0)
+    breaker.record(true, 1200, undefined, 0)
+
+    expect(breaker.status(0)).toMatchObject({ state: 'open', lastError: 'slow response (1200ms)' })
+  })
+
+  it('lets a single trial call through once the cooldown ends', () => {
+    const breaker = openBreaker()
+
+    expect(breaker.status(60000).state).toBe('half_open')
+    expect(breaker.allowRequest(60000)).toBe(true)
+    expect(breaker.allowRequest(60001)).toBe(false)
+  })
+
+  it('closes again when the trial call succeeds', () => {
+    const breaker = openBreaker()
+    breaker.allowRequest(60000)
+    breaker.record(true, 10, undefined, 60000)
+
+    expect(breaker.status(60000)).toMatchObject({ state: 'closed', recentFailures: 0 })
+    expect(breaker.allowRequest(60000)).toBe(true)
+  })
+
+  it('reopens for another cooldown when the trial call fails', () => {
+    const breaker = openBreaker()
+    breaker.allowRequest(60000)
+    breaker.record(false, 10, 'HTTP 502', 60000)
+
+    expect(breaker.status(60000)).toMatchObject({ state: 'open', retryAt: 120000, lastError: 'HTTP 502' })
+    expect(breaker.allowRequest(119999)).toBe(false)
+    expect(breaker.allowRequest(120000)).toBe(true)
+  })
+
+  it('hands the trial to the next caller when the trial call is cancelled', () => {
+    const breaker = openBreaker()
+    breaker.allowRequest(60000)
+    breaker.cancelTrial()
+
+    expect(breaker.allowRequest(60000)).toBe(true)
+  })
+
+  it('closes and forgets past failures on reset', () => {
+    const breaker = openBreaker()
+    breaker.reset()
+
+    expect(breaker.status(0)).toEqual({ state: 'closed', recentFailures: 0, retryAt: undefined, lastError: undefined })
+  })
+})
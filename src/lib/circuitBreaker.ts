@@ -0,0 +1,100 @@
+export interface CircuitBreakerPolicy {
+  // Failures among the last `windowSize` calls that open the circuit
+  failureThreshold: number
+  windowSize: number
+  // How long the circuit stays open before one trial call is let through
+  cooldownMs: number
+  // A call slower than this counts as a failure even if it succeeded, so a tool that
+  // keeps running close to its timeout is taken out before it starts timing out
+  slowCallMs: number
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitStatus {
+  state: CircuitState
+  recentFailures: number
+  // When an open circuit lets the next trial call through
+  retryAt?: number
+  lastError?: string
+}
+
+// Per-tool circuit breaker. Closed: calls go through and outcomes are recorded.
+// Open: calls are refused until the cooldown ends. Half-open: one trial call decides
+// whether to close again or reopen for another cooldown.
+export class CircuitBreaker {
+  private policy: CircuitBreakerPolicy
+  private outcomes: boolean[] = []
+  private state: CircuitState = 'closed'
+  private openedAt = 0
+  private trialInFlight = false
+  private lastError?: string
+
+  constructor(policy: CircuitBreakerPolicy) {
+    this.policy = policy
+  }
+
+  // Whether a call may go ahead now; in half-open state only the first caller gets through
+  allowRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.policy.cooldownMs) {
+      this.state = 'half_open'
+      this.trialInFlight = false
+    }
+    if (this.state === 'closed') return true
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true
+      return true
+    }
+    return false
+  }
+
+  record(success: boolean, executionTime: number, error?: string, now: number = Date.now()): void {
+    const healthy = success && executionTime < this.policy.slowCallMs
+    if (!healthy) {
+      this.lastError = error || `slow response (${executionTime}ms)`
+    }
+
+    if (this.state === 'half_open') {
+      this.trialInFlight = false
+      if (healthy) {
+        this.state = 'closed'
+        this.outcomes = []
+      } else {
+        this.open(now)
+      }
+      return
+    }
+
+    this.outcomes = [...this.outcomes, healthy].slice(-this.policy.windowSize)
+    if (this.outcomes.filter(outcome => !outcome).length >= this.policy.failureThreshold) {
+      this.open(now)
+    }
+  }
+
+  // A call allowed through but stopped by the user says nothing about health; in
+  // half-open state this lets the next caller make the trial instead
+  cancelTrial(): void {
+    this.trialInFlight = false
+  }
+
+  status(now: number = Date.now()): CircuitStatus {
+    return {
+      state: this.state === 'open' && now - this.openedAt >= this.policy.cooldownMs ? 'half_open' : this.state,
+      recentFailures: this.outcomes.filter(outcome => !outcome).length,
+      retryAt: this.state === 'open' ? this.openedAt + this.policy.cooldownMs : undefined,
+      lastError: this.lastError
+    }
+  }
+
+  reset(): void {
+    this.state = 'closed'
+    this.outcomes = []
+    this.trialInFlight = false
+    this.lastError = undefined
+  }
+
+  private open(now: number): void {
+    this.state = 'open'
+    this.openedAt = now
+  }
+}
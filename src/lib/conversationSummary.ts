@@ -0,0 +1,174 @@
+import { llmGateway } from './llmGateway'
+import { contentGuard, SOURCE_LENGTH_LIMITS } from './contentGuard'
+import type { ConversationMessage } from './memory-manager'
+
+// Folds chat messages that no longer fit in the model's context into a running summary
+// of the session, picks out lasting facts about the user for future sessions, and
+// names sessions so they can be found again.
+
+export interface SessionSummary {
+  text: string
+  // Messages folded in so far
+  messageCount: number
+  // Timestamp of the newest message folded in, so a second tab trimming the same
+  // messages does not fold them in again
+  throughTimestamp?: number
+  updatedAt: number
+  // Set once the user rewrites it; later updates build on their wording
+  editedByUser?: boolean
+}
+
+export interface UserFact {
+  id: string
+  text: string
+  // The session the fact was learned in; unset when the user added it
+  sessionId?: string
+  createdAt: number
+  updatedAt: number
+  // Facts the user wrote or corrected are never dropped as outdated
+  editedByUser?: boolean
+}
+
+export interface SummaryUpdate {
+  summary: string
+  newFacts: string[]
+  // Ids of known facts the messages contradict
+  outdatedFactIds: string[]
+  method: 'llm' | 'excerpt'
+}
+
+export const MAX_SUMMARY_LENGTH = 1500
+export const MAX_USER_FACTS = 30
+
+// Sessions keep this title until their first exchange names them
+export const DEFAULT_SESSION_TITLE = 'New Property Search'
+export const MAX_SESSION_TITLE_LENGTH = 60
+
+export function createUserFact(text: string, sessionId?: string, editedByUser = false): UserFact {
+  const now = Date.now()
+  return {
+    id: `fact_${now}_${Math.random().toString(36).substr(2, 9)}`,
+    text: text.trim(),
+    ...(sessionId ? { sessionId } : {}),
+    createdAt: now,
+    updatedAt: now,
+    ...(editedByUser ? { editedByUser } : {})
+  }
+}
+
+export async function summarizeEvictedMessages(
+  previous: SessionSummary | undefined,
+  evicted: ConversationMessage[],
+  facts: UserFact[]
+): Promise<SummaryUpdate> {
+  try {
+    return await summarizeWithModel(previous, evicted, facts)
+  } catch (error) {
+    // Budget skips land here too; an excerpt of the user's questions is better than nothing
+    console.warn('Conversation summary fell back to an excerpt:', error)
+    return { summary: excerptSummary(previous, evicted), newFacts: [], outdatedFactIds: [], method: 'excerpt' }
+  }
+}
+
+// Assistant answers quote listing text and web pages, so they are sanitised before being
+// condensed into something that goes back into the system prompt
+const transcriptLine = (message: ConversationMessage) => {
+  const text = message.role === 'assistant'
+    ? contentGuard.sanitize(message.content, `message:${message.id}`, SOURCE_LENGTH_LIMITS.memoryMessage).text
+    : message.content.slice(0, SOURCE_LENGTH_LIMITS.memoryMessage)
+  return `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}`
+}
+
+async function summarizeWithModel(
+  previous: SessionSummary | undefined,
+  evicted: ConversationMessage[],
+  facts: UserFact[]
+): Promise<SummaryUpdate> {
+  const transcript = evicted
+    .filter(message => message.role !== 'system')
+    .map(transcriptLine)
+    .join('\n')
+
+  const response = await llmGateway.generateObject('memory_summarization', {
+    prompt: `You keep the long-term memory of a property search assistant for Nepal. These older chat messages are about to drop out of its context.
+
+Summary of the conversation so far:
+${previous?.text || '(none yet)'}
+
+Known facts about the user (id: fact):
+${facts.map(fact => `${fact.id}: ${fact.text}`).join('\n') || '(none yet)'}
+
+Messages dropping out:
+${transcript}
+
+Return:
+- summary: the summary so far, updated with these messages, in at most 120 words. Keep what the user asked for, listings they liked or rejected (by name), decisions made and questions still open. Drop greetings and small talk.${previous?.editedByUser ? ' The user wrote the current summary themselves; keep their wording and add to it.' : ''}
+- newFacts: lasting facts about the user that are not already known, as short sentences such as "Works near Pulchowk", "Has two school-age children", "Needs to move before Dashain". Only what would matter in a future search; budgets, locations and property types are stored elsewhere.
+- outdatedFactIds: ids of known facts these messages clearly contradict.`,
+    schema: {
+      type: 'object',
+      properties: {
+        summary: { type: 'string' },
+        newFacts: { type: 'array', items: { type: 'string' } },
+        outdatedFactIds: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['summary', 'newFacts', 'outdatedFactIds']
+    }
+  })
+
+  const object = response.object || {}
+  if (typeof object.summary !== 'string' || !object.summary.trim()) {
+    throw new Error('Summary missing from model response')
+  }
+
+  const known = new Set(facts.map(fact => fact.text.toLowerCase()))
+  return {
+    summary: object.summary.trim().slice(0, MAX_SUMMARY_LENGTH),
+    newFacts: (Array.isArray(object.newFacts) ? object.newFacts : [])
+      .filter((fact: unknown): fact is string => typeof fact === 'string' && fact.trim().length > 0)
+      .map((fact: string) => fact.trim().slice(0, 200))
+      .filter((fact: string) => !known.has(fact.toLowerCase())),
+    outdatedFactIds: (Array.isArray(object.outdatedFactIds) ? object.outdatedFactIds : [])
+      .filter((id: unknown) => facts.some(fact => fact.id === id && !fact.editedByUser)),
+    method: 'llm'
+  }
+}
+
+function excerptSummary(previous: SessionSummary | undefined, evicted: ConversationMessage[]): string {
+  const questions = evicted
+    .filter(message => message.role === 'user')
+    .map(message => message.content.replace(/\s+/g, ' ').trim().slice(0, 100))
+  if (questions.length === 0) return previous?.text || ''
+
+  const text = `${previous?.text ? `${previous.text}\n` : ''}Earlier the user asked: ${questions.join('; ')}`
+  // Keep the most recent part when it grows too long
+  return text.length > MAX_SUMMARY_LENGTH ? `…${text.slice(-MAX_SUMMARY_LENGTH + 1)}` : text
+}
+
+// Trims quotes and trailing punctuation, and cuts long titles at a word boundary
+export function cleanSessionTitle(text: string): string {
+  const title = text.replace(/["“”]/g, '').replace(/\s+/g, ' ').trim().replace(/[.!?:]+$/, '')
+  if (title.length <= MAX_SESSION_TITLE_LENGTH) return title
+  const cut = title.slice(0, MAX_SESSION_TITLE_LENGTH - 1)
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 20 ? cut.lastIndexOf(' ') : cut.length)}…`
+}
+
+// "2BHK in Lalitpur under 40k", from the first question and answer. Falls back to the
+// question itself when the model is unavailable
+export async function generateSessionTitle(firstQuestion: string, firstAnswer: string): Promise<string> {
+  try {
+    const answer = contentGuard.sanitize(firstAnswer, 'message:title', SOURCE_LENGTH_LIMITS.memoryMessage).text
+    const response = await llmGateway.generateText('session_title', {
+      prompt: `Write a title of at most six words for this property search chat, in the language the user writes in. Reply with the title only.
+
+User: ${firstQuestion.slice(0, SOURCE_LENGTH_LIMITS.memoryMessage)}
+Assistant: ${answer}`,
+      maxTokens: 24
+    })
+    const title = cleanSessionTitle(response.text)
+    if (title) return title
+  } catch (error) {
+    console.warn('Chat title fell back to the first question:', error)
+  }
+  return cleanSessionTitle(firstQuestion) || DEFAULT_SESSION_TITLE
+}
@@ -0,0 +1,76 @@
+import type { EvalCase } from './agentEvaluation'
+
+// Queries every prompt change is scored against. Add a case whenever a conversation
+// goes wrong in a way a prompt change should fix, so the fix stays fixed.
+export const EVALUATION_CORPUS: EvalCase[] = [
+  {
+    id: 'vague-home-search',
+    query: "I'm looking for a place to live in Kathmandu",
+    description: 'Too vague to search; should ask before calling any tool',
+    expectations: [
+      { type: 'asks_for', field: 'budget' },
+      { type: 'asks_for', field: 'price_type' },
+      { type: 'avoids_tool', tool: 'PropertyDatabase' }
+    ],
+    tags: ['clarification']
+  },
+  {
+    id: 'rent-missing-budget',
+    query: 'Find me a 2 bedroom apartment to rent in Lalitpur',
+    expectations: [
+      { type: 'asks_for', field: 'budget' }
+    ],
+    tags: ['clarification']
+  },
+  {
+    id: 'rent-with-budget-cap',
+    query: '2BHK apartment for rent in Baneshwor, Kathmandu, budget up to NPR 40,000 per month',
+    description: 'Everything needed is given; must search listings and stay inside the budget',
+    expectations: [
+      { type: 'no_clarification' },
+      { type: 'calls_tool', tool: 'PropertyDatabase' },
+      { type: 'max_listing_price', amount: 40000 }
+    ],
+    tags: ['search', 'budget']
+  },
+  {
+    id: 'clarified-then-searched',
+    query: 'I need a flat',
+    replies: ['Rent, in Kathmandu, 1 bedroom, under NPR 20,000 a month'],
+    description: 'Should resume after the reply instead of asking again',
+    expectations: [
+      { type: 'asks_for', field: 'location' },
+      { type: 'calls_tool', tool: 'PropertyDatabase' },
+      { type: 'max_listing_price', amount: 20000 }
+    ],
+    tags: ['clarification', 'search', 'budget']
+  },
+  {
+    id: 'rental-yield',
+    query: 'What is the gross rental yield on a NPR 1.5 crore flat that rents for NPR 60,000 a month?',
+    expectations: [
+      { type: 'no_clarification' },
+      { type: 'calls_tool', tool: 'Calculator' },
+      { type: 'avoids_tool', tool: 'PropertyDatabase' },
+      { type: 'answer_mentions', text: '4.8' }
+    ],
+    tags: ['calculation']
+  },
+  {
+    id: 'loan-emi',
+    query: 'What would my monthly EMI be on a NPR 80 lakh loan over 20 years?',
+    expectations: [
+      { type: 'no_clarification' },
+      { type: 'calls_tool', tool: 'Mortgage' }
+    ],
+    tags: ['calculation']
+  },
+  {
+    id: 'market-news',
+    query: 'Have land prices in Kathmandu valley gone up this year?',
+    expectations: [
+      { type: 'calls_tool', tool: 'Search' }
+    ],
+    tags: ['market']
+  }
+]
@@ -0,0 +1,45 @@
+import type { ScriptedSearch } from './inMemoryPlatformClient'
+
+// The listings and web results recorded evaluation runs replay against. Recorded answers
+// name these listings, so a change here usually means re-recording the traces too.
+
+const listing = (row: Record<string, any>) => ({
+  description: '',
+  propertyType: 'apartment',
+  priceType: 'rent',
+  bathrooms: 1,
+  area: 850,
+  areaUnit: 'sqft',
+  city: 'Kathmandu',
+  district: 'Kathmandu',
+  amenities: '[]',
+  images: '[]',
+  isActive: '1',
+  createdAt: '2026-09-01T00:00:00Z',
+  ...row
+})
+
+export const EVALUATION_LISTINGS = [
+  listing({ id: 'eval_baneshwor_2bhk', title: 'Baneshwor 2BHK near Eyeplex Mall', price: 38000, bedrooms: 2, address: 'New Baneshwor', amenities: '["Parking","Water supply"]' }),
+  listing({ id: 'eval_baneshwor_2bhk_furnished', title: 'Furnished 2BHK in Old Baneshwor', price: 55000, bedrooms: 2, address: 'Old Baneshwor', amenities: '["Furnished","Parking"]', createdAt: '2026-09-05T00:00:00Z' }),
+  listing({ id: 'eval_sanepa_2bhk', title: 'Sanepa 2BHK with garden', price: 45000, bedrooms: 2, address: 'Sanepa', city: 'Lalitpur', district: 'Lalitpur' }),
+  listing({ id: 'eval_kalopul_1bhk', title: 'Kalopul 1BHK flat', price: 18000, bedrooms: 1, area: 500, address: 'Kalopul' }),
+  listing({ id: 'eval_thamel_1bhk', title: 'Thamel studio flat', price: 26000, bedrooms: 1, area: 450, address: 'Thamel', createdAt: '2026-09-03T00:00:00Z' }),
+  listing({ id: 'eval_budhanilkantha_house', title: 'Budhanilkantha family house', propertyType: 'house', priceType: 'sale', price: 42000000, bedrooms: 4, bathrooms: 3, area: 2400, address: 'Budhanilkantha' })
+]
+
+export const EVALUATION_SEARCHES: ScriptedSearch[] = [
+  {
+    match: /land price/i,
+    response: {
+      organic_results: [
+        {
+          position: 1,
+          title: 'Land prices in Kathmandu valley keep climbing',
+          link: 'https://example.com/kathmandu-land-prices',
+          snippet: 'Land prices along the ring road and in Lalitpur rose by around 8% over the past year, brokers say.'
+        }
+      ]
+    }
+  }
+]
@@ -0,0 +1,14 @@
+import type { PromptVersionRecording, ReplayFixtures } from './agentEvaluation'
+import { EVALUATION_LISTINGS, EVALUATION_SEARCHES } from './evaluationFixtures'
+
+// Model responses for every corpus case, one file per prompt version in
+// evaluationRecordings/. The committed files are scripted to the corpus's expectations so
+// the harness runs offline; save a live run through LLMRecorder over them to score a
+// prompt change against real model output.
+const files = import.meta.glob<PromptVersionRecording>('./evaluationRecordings/*.json', { eager: true, import: 'default' })
+
+export const RECORDED_EVALUATION: ReplayFixtures = {
+  recordings: Object.values(files),
+  listings: EVALUATION_LISTINGS,
+  searches: EVALUATION_SEARCHES
+}
@@ -1,4 +1,6 @@
-import { blink } from './blink'
+import { llmGateway } from './llmGateway'
+import { contentGuard, SOURCE_LENGTH_LIMITS, UNTRUSTED_CONTENT_NOTICE } from './contentGuard'
+import { formatArea } from './landUnits'
 
 export interface GeminiSearchRequest {
   query: string
@@ -37,7 +39,7 @@ export interface GeminiSearchResponse {
 export class GeminiPropertySearch {
   private async callGeminiAPI(prompt: string): Promise<any> {
     try {
-      const response = await blink.ai.generateObject({
+      const response = await llmGateway.generateObject('search_interpretation', {
         prompt,
         schema: {
           type: 'object',
@@ -137,14 +139,17 @@ You are a real estate AI assistant. Based on the user's search query and the fou
 
 User Query: "${userQuery}"
 
+${UNTRUSTED_CONTENT_NOTICE}
+
 Properties Found: ${JSON.stringify(properties.map(p => ({
-  title: p.title,
+  title: contentGuard.quarantine(p.title, `listing:${p.id}`, SOURCE_LENGTH_LIMITS.listingTitle).text,
+  description: contentGuard.quarantine(p.description, `listing:${p.id}`, SOURCE_LENGTH_LIMITS.listingDescription).text,
   price: p.price,
   priceType: p.priceType,
   bedrooms: p.bedrooms,
   bathrooms: p.bathrooms,
   area: p.area,
-  location: p.location.address,
+  location: contentGuard.sanitize(p.location.address, `listing:${p.id}`, SOURCE_LENGTH_LIMITS.listingField).text,
   amenities: p.amenities,
   features: p.features
 })), null, 2)}
@@ -160,7 +165,7 @@ Keep it natural, informative, and focused on the Nepal real estate market.
 `
 
     try {
-      const response = await blink.ai.generateText({
+      const response = await llmGateway.generateText('property_recommendation', {
         prompt,
         maxTokens: 500
       })
@@ -177,12 +182,15 @@ Explain why this specific property is a good match for the user's search query.
 
 User Query: "${userQuery}"
 
+${UNTRUSTED_CONTENT_NOTICE}
+
 Property Details:
-- Title: ${property.title}
+- Title: ${contentGuard.quarantine(property.title, `listing:${property.id}`, SOURCE_LENGTH_LIMITS.listingTitle).text}
+- Description: ${contentGuard.quarantine(property.description, `listing:${property.id}`, SOURCE_LENGTH_LIMITS.listingDescription).text}
 - Price: NPR ${property.price} (${property.priceType})
 - Type: ${property.propertyType}
-- Size: ${property.bedrooms}BR/${property.bathrooms}BA, ${property.area} ${property.areaUnit}
-- Location: ${property.location.address}
+- Size: ${property.bedrooms}BR/${property.bathrooms}BA, ${formatArea(property)}
+- Location: ${contentGuard.sanitize(property.location.address, `listing:${property.id}`, SOURCE_LENGTH_LIMITS.listingField).text}
 - Amenities: ${property.amenities.join(', ')}
 - Features: ${property.features.join(', ')}
 
@@ -190,7 +198,7 @@ Provide a brief, specific explanation (1-2 sentences) of why this property match
 `
 
     try {
-      const response = await blink.ai.generateText({
+      const response = await llmGateway.generateText('property_explanation', {
         prompt,
         maxTokens: 150
       })
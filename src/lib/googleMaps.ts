@@ -1,4 +1,4 @@
-import { blink } from './blink'
+import { platform } from './platformClient'
 
 export interface GoogleMapsPlace {
   placeId: string
@@ -48,7 +48,7 @@ export class GoogleMapsService {
   private async callGoogleMapsAPI(endpoint: string, params: Record<string, any>): Promise<any> {
     try {
       // Use Blink's secure API proxy to call Google Maps API
-      const response = await blink.data.fetch({
+      const response = await platform.data.fetch({
         url: `https://maps.googleapis.com/maps/api/place/${endpoint}/json`,
         method: 'GET',
         query: {
@@ -150,7 +150,7 @@ export class GoogleMapsService {
     mode: 'driving' | 'walking' | 'transit' = 'driving'
   ): Promise<RouteInfo | null> {
     try {
-      const response = await blink.data.fetch({
+      const response = await platform.data.fetch({
         url: 'https://maps.googleapis.com/maps/api/directions/json',
         method: 'GET',
         query: {
@@ -185,7 +185,7 @@ export class GoogleMapsService {
 
   async geocodeAddress(address: string): Promise<{ lat: number; lng: number } | null> {
     try {
-      const response = await blink.data.fetch({
+      const response = await platform.data.fetch({
         url: 'https://maps.googleapis.com/maps/api/geocode/json',
         method: 'GET',
         query: {
@@ -208,7 +208,7 @@ export class GoogleMapsService {
 
   async reverseGeocode(lat: number, lng: number): Promise<string | null> {
     try {
-      const response = await blink.data.fetch({
+      const response = await platform.data.fetch({
         url: 'https://maps.googleapis.com/maps/api/geocode/json',
         method: 'GET',
         query: {
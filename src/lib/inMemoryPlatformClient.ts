@@ -0,0 +1,262 @@
+import type {
+  CreateOptions,
+  FilterCondition,
+  QueryOptions,
+  RealtimeMessage,
+  RealtimePublishOptions,
+  SearchResponse,
+  TableOperations,
+  UpdateOptions,
+  UpsertOptions
+} from '@blinkdotnew/sdk'
+import { ScriptedLLM, type LLMRecording, type RecordedLLMResponse } from './scriptedLLM'
+import type {
+  FetchRequest,
+  FetchResponse,
+  PlatformClient,
+  PlatformData,
+  PlatformRealtime,
+  PlatformTableName,
+  SearchOptions
+} from './platformClient'
+
+type Row = Record<string, any>
+
+const OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'like', 'ilike', 'is', 'not']
+
+// Blink stores rows in SQLite, where "1" and 1 compare equal, so values are compared as text
+const same = (a: any, b: any) => a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b))
+
+const likePattern = (pattern: string, flags: string) =>
+  new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')}$`, flags)
+
+function matchesOperators(value: any, condition: Row): boolean {
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case 'eq': return same(value, operand)
+      case 'neq': return !same(value, operand)
+      case 'gt': return value > operand
+      case 'gte': return value >= operand
+      case 'lt': return value < operand
+      case 'lte': return value <= operand
+      case 'in': return (operand as any[]).some(candidate => same(value, candidate))
+      case 'not_in': return !(operand as any[]).some(candidate => same(value, candidate))
+      case 'like': return likePattern(operand, '').test(String(value ?? ''))
+      case 'ilike': return likePattern(operand, 'i').test(String(value ?? ''))
+      case 'is': return operand === null ? value === null || value === undefined : same(value, operand)
+      case 'not': return !same(value, operand)
+      default: return false
+    }
+  })
+}
+
+function matchesFilter(row: Row, filter: FilterCondition | undefined): boolean {
+  if (!filter) return true
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === 'AND') return (condition as FilterCondition[]).every(part => matchesFilter(row, part))
+    if (key === 'OR') return (condition as FilterCondition[]).some(part => matchesFilter(row, part))
+    const isOperatorObject = condition !== null && typeof condition === 'object' && !Array.isArray(condition) &&
+      Object.keys(condition).every(operator => OPERATORS.includes(operator))
+    return isOperatorObject ? matchesOperators(row[key], condition) : same(row[key], condition)
+  })
+}
+
+// A table held in memory with the same interface and filter semantics as a Blink table
+export class InMemoryTable<T extends Row = Row> implements TableOperations<T> {
+  private rows = new Map<string, T>()
+  private nextId = 1
+  private name: string
+
+  constructor(name: string, seed: Array<Partial<T>> = []) {
+    this.name = name
+    seed.forEach(row => this.insert(row))
+  }
+
+  async create(data: Partial<T>, _options?: CreateOptions): Promise<T> {
+    return this.insert(data)
+  }
+
+  async createMany(data: Partial<T>[], _options?: CreateOptions): Promise<T[]> {
+    return data.map(row => this.insert(row))
+  }
+
+  async upsert(data: Partial<T>, options?: UpsertOptions): Promise<T> {
+    const key = options?.onConflict || 'id'
+    const existing = Array.from(this.rows.values()).find(row => data[key] !== undefined && same(row[key], data[key]))
+    return existing ? this.update(existing.id, data) : this.insert(data)
+  }
+
+  async upsertMany(data: Partial<T>[], options?: UpsertOptions): Promise<T[]> {
+    const rows: T[] = []
+    for (const row of data) rows.push(await this.upsert(row, options))
+    return rows
+  }
+
+  async get(id: string): Promise<T | null> {
+    const row = this.rows.get(id)
+    return row ? { ...row } : null
+  }
+
+  async list(options: QueryOptions = {}): Promise<T[]> {
+    let rows = Array.from(this.rows.values()).filter(row => matchesFilter(row, options.where))
+
+    const orderBy = typeof options.orderBy === 'string' ? { [options.orderBy]: 'asc' as const } : options.orderBy
+    if (orderBy) {
+      const keys = Object.entries(orderBy)
+      rows = rows.sort((a, b) => {
+        for (const [key, direction] of keys) {
+          if (a[key] === b[key]) continue
+          const order = a[key] > b[key] ? 1 : -1
+          return direction === 'desc' ? -order : order
+        }
+        return 0
+      })
+    }
+
+    const offset = options.offset || 0
+    rows = rows.slice(offset, options.limit !== undefined ? offset + options.limit : undefined)
+
+    return rows.map(row => options.select
+      ? Object.fromEntries(options.select.map(key => [key, row[key]])) as T
+      : { ...row })
+  }
+
+  async update(id: string, data: Partial<T>, _options?: UpdateOptions): Promise<T> {
+    const row = this.rows.get(id)
+    if (!row) {
+      // Same wording as the SQLite error callers already check for
+      throw new Error(`${this.name}: no such rowid ${id}`)
+    }
+    const updated = { ...row, ...data, id }
+    this.rows.set(id, updated)
+    return { ...updated }
+  }
+
+  async updateMany(updates: Array<{ id: string } & Partial<T>>, options?: UpdateOptions): Promise<T[]> {
+    const rows: T[] = []
+    for (const { id, ...data } of updates) rows.push(await this.update(id, data as unknown as Partial<T>, options))
+    return rows
+  }
+
+  async delete(id: string): Promise<void> {
+    this.rows.delete(id)
+  }
+
+  async deleteMany(options: { where: FilterCondition }): Promise<void> {
+    for (const row of Array.from(this.rows.values())) {
+      if (matchesFilter(row, options.where)) this.rows.delete(row.id)
+    }
+  }
+
+  async count(options: { where?: FilterCondition } = {}): Promise<number> {
+    return Array.from(this.rows.values()).filter(row => matchesFilter(row, options.where)).length
+  }
+
+  async exists(options: { where: FilterCondition }): Promise<boolean> {
+    return (await this.count(options)) > 0
+  }
+
+  // Every row, for asserting on what a run wrote
+  snapshot(): T[] {
+    return Array.from(this.rows.values()).map(row => ({ ...row }))
+  }
+
+  private insert(data: Partial<T>): T {
+    const id = data.id || `${this.name}_${this.nextId++}`
+    if (this.rows.has(id)) {
+      throw new Error(`${this.name}: UNIQUE constraint failed: ${this.name}.id`)
+    }
+    const row = { ...data, id } as unknown as T
+    this.rows.set(id, row)
+    return { ...row }
+  }
+}
+
+// Channels delivered within the process, so two memory managers sharing one client
+// see each other's notices the way two devices would
+export class InMemoryRealtime implements PlatformRealtime {
+  readonly published: Array<{ channel: string; message: RealtimeMessage }> = []
+  private subscribers = new Map<string, Set<(message: RealtimeMessage) => void>>()
+  private nextId = 1
+
+  async subscribe(channelName: string, callback: (message: RealtimeMessage) => void): Promise<() => void> {
+    const callbacks = this.subscribers.get(channelName) || new Set()
+    callbacks.add(callback)
+    this.subscribers.set(channelName, callbacks)
+    return () => {
+      callbacks.delete(callback)
+    }
+  }
+
+  async publish(channelName: string, type: string, data: any, options?: RealtimePublishOptions): Promise<string> {
+    const message: RealtimeMessage = {
+      id: `realtime_${this.nextId++}`,
+      type,
+      data,
+      timestamp: Date.now(),
+      userId: options?.userId,
+      metadata: options?.metadata
+    }
+    this.published.push({ channel: channelName, message })
+    this.subscribers.get(channelName)?.forEach(callback => callback(message))
+    return message.id
+  }
+}
+
+export interface ScriptedSearch {
+  match: string | RegExp
+  response: Partial<SearchResponse>
+}
+
+export interface ScriptedFetch {
+  url: string | RegExp
+  response: Partial<FetchResponse> | ((request: FetchRequest) => Partial<FetchResponse>)
+}
+
+export interface InMemoryPlatformOptions {
+  tables?: Partial<Record<PlatformTableName, Row[]>>
+  llm?: ScriptedLLM | RecordedLLMResponse[] | LLMRecording
+  searches?: ScriptedSearch[]
+  fetches?: ScriptedFetch[]
+}
+
+// A PlatformClient with no network: tables live in memory, the model is a ScriptedLLM,
+// realtime channels are in-process, and web search and fetch answer from canned
+// responses. Queries without a canned response get empty results (search) or a 404
+// (fetch) rather than an exception, matching what the live services return for an
+// unknown query
+export class InMemoryPlatformClient implements PlatformClient {
+  ai: ScriptedLLM
+  db: Record<PlatformTableName, InMemoryTable>
+  data: PlatformData
+  realtime = new InMemoryRealtime()
+  readonly searches: Array<{ query: string; options?: SearchOptions }> = []
+  readonly fetches: FetchRequest[] = []
+
+  constructor(options: InMemoryPlatformOptions = {}) {
+    this.ai = options.llm instanceof ScriptedLLM ? options.llm : new ScriptedLLM(options.llm || [])
+    this.db = {
+      properties: new InMemoryTable('properties', options.tables?.properties),
+      conversationSessions: new InMemoryTable('conversationSessions', options.tables?.conversationSessions),
+      conversationMessages: new InMemoryTable('conversationMessages', options.tables?.conversationMessages),
+      userPreferences: new InMemoryTable('userPreferences', options.tables?.userPreferences)
+    }
+
+    const searches = options.searches || []
+    const fetches = options.fetches || []
+    this.data = {
+      search: async (query, searchOptions) => {
+        searchOptions?.signal?.throwIfAborted()
+        this.searches.push({ query, options: searchOptions })
+        const scripted = searches.find(search => typeof search.match === 'string' ? query.includes(search.match) : search.match.test(query))
+        return { organic_results: [], ...scripted?.response }
+      },
+      fetch: async (request) => {
+        this.fetches.push(request)
+        const scripted = fetches.find(route => typeof route.url === 'string' ? request.url.startsWith(route.url) : route.url.test(request.url))
+        const response = typeof scripted?.response === 'function' ? scripted.response(request) : scripted?.response
+        return { status: scripted ? 200 : 404, headers: {}, body: null, durationMs: 0, ...response }
+      }
+    }
+  }
+}
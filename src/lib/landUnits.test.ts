@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest'
+import type { AreaPart, AreaUnit, Property } from '@/types'
+import { AREA_UNITS, areaInRange, formatArea, normalizeArea, partsToSqm, sqmToParts, type AreaSystem } from './landUnits'
+import { applyListingFilters, EMPTY_FILTERS } from './listingFilters'
+
+const sqmOf = (unit: AreaUnit) => AREA_UNITS[unit].sqm
+
+// Each unit as a count of the next smaller one in its system
+const UNIT_RATIOS: Array<[AreaUnit, number, AreaUnit]> = [
+  ['ropani', 16, 'aana'],
+  ['aana', 4, 'paisa'],
+  ['paisa', 4, 'daam'],
+  ['bigha', 20, 'kattha'],
+  ['kattha', 20, 'dhur']
+]
+
+const SQM_CASES: Array<[AreaUnit, number]> = [
+  ['ropani', 508.737],
+  ['aana', 31.796],
+  ['bigha', 6772.632],
+  ['kattha', 338.632],
+  ['sqft', 0.0929]
+]
+
+// sqm, system, parts
+const SPLIT_CASES: Array<[number, AreaSystem, AreaPart[]]> = [
+  [sqmOf('ropani') + 4 * sqmOf('aana'), 'ropani', [{ value: 1, unit: 'ropani' }, { value: 4, unit: 'aana' }]],
+  [2 * sqmOf('kattha') + 5 * sqmOf('dhur'), 'bigha', [{ value: 2, unit: 'kattha' }, { value: 5, unit: 'dhur' }]],
+  // A daam short of 16 aana rounds up and carries into a whole ropani
+  [16 * sqmOf('aana') - 0.001, 'ropani', [{ value: 1, unit: 'ropani' }]],
+  [sqmOf('aana') + 1.5 * sqmOf('daam'), 'ropani', [{ value: 1, unit: 'aana' }, { value: 1.5, unit: 'daam' }]],
+  [1000, 'sqft', [{ value: 10764, unit: 'sqft' }]],
+  [0, 'ropani', [{ value: 0, unit: 'ropani' }]]
+]
+
+const listing = (id: string, parts: AreaPart[]): Property => ({
+  id,
+  title: id,
+  description: '',
+  price: 10000000,
+  priceType: 'sale',
+  propertyType: 'land',
+  ...normalizeArea(parts),
+  location: { address: '', city: 'Lalitpur', district: 'Lalitpur', latitude: 0, longitude: 0 },
+  amenities: [],
+  images: [],
+  ownerId: 'owner',
+  ownerContact: { name: '', phone: '', email: '' },
+  features: [],
+  nearbyPlaces: { schools: [], hospitals: [], markets: [], transport: [] },
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: '2026-10-01T00:00:00Z',
+  isActive: true,
+  views: 0
+})
+
+describe('AREA_UNITS', () => {
+  it.each(UNIT_RATIOS)('has one %s as %d %s', (unit, count, smaller) => {
+    expect(sqmOf(unit)).toBeCloseTo(count * sqmOf(smaller), 9)
+  })
+
+  it.each(SQM_CASES)('has one %s as %d sqm', (unit, sqm) => {
+    expect(sqmOf(unit)).toBeCloseTo(sqm, 3)
+  })
+})
+
+describe('sqmToParts', () => {
+  it.each(SPLIT_CASES)('splits %d sqm into %s units', (sqm, system, parts) => {
+    expect(sqmToParts(sqm, system)).toEqual(parts)
+  })
+})
+
+describe('normalizeArea', () => {
+  it('keeps the parts as entered and totals them in the largest unit', () => {
+    const area = normalizeArea([{ value: 2, unit: 'ropani' }, { value: 8, unit: 'aana' }, { value: 0, unit: 'paisa' }])
+    expect(area.area).toBe(2.5)
+    expect(area.areaUnit).toBe('ropani')
+    expect(area.areaParts).toEqual([{ value: 2, unit: 'ropani' }, { value: 8, unit: 'aana' }])
+    expect(area.areaSqm).toBeCloseTo(partsToSqm(area.areaParts as AreaPart[]), 2)
+  })
+
+  it('stores a single unit without parts', () => {
+    expect(normalizeArea([{ value: 1200, unit: 'sqft' }])).toEqual({ area: 1200, areaUnit: 'sqft', areaSqm: 111.48 })
+  })
+})
+
+describe('formatArea', () => {
+  it('shows a fractional ropani in ropani and aana', () => {
+    expect(formatArea({ area: 1.25, areaUnit: 'ropani' })).toBe('1 ropani 4 aana')
+  })
+
+  it('keeps floor space in sqft when a land system is preferred', () => {
+    expect(formatArea({ area: 1200, areaUnit: 'sqft' }, 'ropani')).toBe('1,200 sq ft')
+  })
+})
+
+describe('areaInRange', () => {
+  const oneRopani = normalizeArea([{ value: 1, unit: 'ropani' }]).areaSqm as number
+
+  it('keeps a listing of exactly the bound whose stored sqm was rounded up', () => {
+    expect(oneRopani).toBe(508.74)
+    expect(areaInRange(oneRopani, { max: sqmOf('ropani') })).toBe(true)
+  })
+
+  it('treats missing and zero bounds as open', () => {
+    expect(areaInRange(oneRopani, {})).toBe(true)
+    expect(areaInRange(oneRopani, { min: 0, max: 0 })).toBe(true)
+  })
+
+  it('still leaves out listings clearly outside the range', () => {
+    expect(areaInRange(oneRopani, { max: 15 * sqmOf('aana') })).toBe(false)
+    expect(areaInRange(oneRopani, { min: 17 * sqmOf('aana') })).toBe(false)
+  })
+
+  it('lets a "max 1 ropani" listing filter keep the 1 ropani plot', () => {
+    const plots = [listing('one-ropani', [{ value: 1, unit: 'ropani' }]), listing('two-ropani', [{ value: 2, unit: 'ropani' }])]
+    const filtered = applyListingFilters(plots, { ...EMPTY_FILTERS, areaRange: { min: 0, max: sqmOf('ropani') } }, 'relevance')
+    expect(filtered.map(plot => plot.id)).toEqual(['one-ropani'])
+  })
+})
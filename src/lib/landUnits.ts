@@ -0,0 +1,123 @@
+import type { AreaPart, AreaUnit, Property } from '@/types'
+
+// Area units used for Nepali property: ropani-aana-paisa-daam in the hills and the
+// Kathmandu Valley, bigha-kattha-dhur in the Terai, and sqft/sqm for floor space.
+// Listings keep their measurement exactly as entered; everything that compares or
+// sorts areas works in square metres.
+
+export type AreaSystem = 'ropani' | 'bigha' | 'sqft' | 'sqm'
+
+// 'listed' shows each listing in the units its owner used
+export type AreaDisplay = 'listed' | AreaSystem
+
+const SQM_PER_SQFT = 0.09290304
+
+// Hill units (ropani-aana-paisa-daam) and Terai units (bigha-kattha-dhur) are defined
+// in square feet, so converting through sqft keeps them exact
+export const AREA_UNITS: Record<AreaUnit, { sqm: number; kind: 'land' | 'floor'; system: AreaSystem; label: string; aliases: string[] }> = {
+  ropani: { sqm: 5476 * SQM_PER_SQFT, kind: 'land', system: 'ropani', label: 'ropani', aliases: ['ropanis', 'ropani', 'रोपनी'] },
+  aana: { sqm: 342.25 * SQM_PER_SQFT, kind: 'land', system: 'ropani', label: 'aana', aliases: ['aanas', 'aana', 'anna', 'ana', 'आना'] },
+  paisa: { sqm: 85.5625 * SQM_PER_SQFT, kind: 'land', system: 'ropani', label: 'paisa', aliases: ['paisa', 'पैसा'] },
+  daam: { sqm: 21.390625 * SQM_PER_SQFT, kind: 'land', system: 'ropani', label: 'daam', aliases: ['daam', 'दाम'] },
+  bigha: { sqm: 72900 * SQM_PER_SQFT, kind: 'land', system: 'bigha', label: 'bigha', aliases: ['bighas', 'bigha', 'बिघा'] },
+  kattha: { sqm: 3645 * SQM_PER_SQFT, kind: 'land', system: 'bigha', label: 'kattha', aliases: ['kattha', 'katha', 'कट्ठा'] },
+  dhur: { sqm: 182.25 * SQM_PER_SQFT, kind: 'land', system: 'bigha', label: 'dhur', aliases: ['dhurs', 'dhur', 'धुर'] },
+  sqft: { sqm: SQM_PER_SQFT, kind: 'floor', system: 'sqft', label: 'sq ft', aliases: ['square feet', 'square foot', 'sq. ft.', 'sq. ft', 'sq.ft.', 'sq.ft', 'sq ft', 'sqft', 'ft2', 'वर्ग फिट'] },
+  sqm: { sqm: 1, kind: 'floor', system: 'sqm', label: 'sq m', aliases: ['square metres', 'square meters', 'square metre', 'square meter', 'sq. m.', 'sq. m', 'sq.m.', 'sq.m', 'sq m', 'sqm', 'm2', 'वर्ग मिटर'] }
+}
+
+// Units of each system, largest first
+export const AREA_SYSTEMS: Record<AreaSystem, { label: string; units: AreaUnit[] }> = {
+  ropani: { label: 'Ropani-aana-paisa-daam', units: ['ropani', 'aana', 'paisa', 'daam'] },
+  bigha: { label: 'Bigha-kattha-dhur', units: ['bigha', 'kattha', 'dhur'] },
+  sqft: { label: 'Square feet', units: ['sqft'] },
+  sqm: { label: 'Square metres', units: ['sqm'] }
+}
+
+export const AREA_DISPLAY_OPTIONS: Array<{ value: AreaDisplay; label: string }> = [
+  { value: 'listed', label: 'As listed' },
+  ...(Object.keys(AREA_SYSTEMS) as AreaSystem[]).map(system => ({ value: system, label: AREA_SYSTEMS[system].label }))
+]
+
+export function isAreaUnit(value: unknown): value is AreaUnit {
+  return typeof value === 'string' && value in AREA_UNITS
+}
+
+export function partsToSqm(parts: AreaPart[]): number {
+  return parts.reduce((sum, part) => sum + part.value * AREA_UNITS[part.unit].sqm, 0)
+}
+
+// The listing's measurement as entered. Older listings only have area and areaUnit
+export function propertyAreaParts(property: Pick<Property, 'area' | 'areaUnit' | 'areaParts'>): AreaPart[] {
+  return property.areaParts && property.areaParts.length > 0
+    ? property.areaParts
+    : [{ value: property.area, unit: property.areaUnit }]
+}
+
+export function propertyAreaSqm(property: Pick<Property, 'area' | 'areaUnit' | 'areaParts' | 'areaSqm'>): number {
+  return property.areaSqm ?? partsToSqm(propertyAreaParts(property))
+}
+
+// Stored areaSqm is rounded to two decimals, so exactly 1 ropani is kept as 508.74 sqm
+// while a "1 ropani" filter asks for 508.737. Range bounds are widened by this much
+const AREA_TOLERANCE_SQM = 0.01
+
+// Whether an area falls inside a range of sqm; a missing or zero bound is open
+export function areaInRange(sqm: number, range: { min?: number; max?: number }): boolean {
+  return (!range.min || sqm >= range.min - AREA_TOLERANCE_SQM) && (!range.max || sqm <= range.max + AREA_TOLERANCE_SQM)
+}
+
+// Splits an area into the units of one system: 636 sqm in ropani is 1 ropani 4 aana.
+// The smallest land unit keeps up to two decimals, sqft and sqm are whole; zero parts
+// are left out
+export function sqmToParts(sqm: number, system: AreaSystem): AreaPart[] {
+  const units = AREA_SYSTEMS[system].units
+  const smallest = units[units.length - 1]
+  const precision = units.length > 1 ? 100 : 1
+  let remaining = Math.round((sqm / AREA_UNITS[smallest].sqm) * precision) / precision
+
+  const parts = units.map(unit => {
+    const perUnit = Math.round(AREA_UNITS[unit].sqm / AREA_UNITS[smallest].sqm)
+    const value = unit === smallest ? remaining : Math.floor(remaining / perUnit)
+    remaining = Math.round((remaining - value * perUnit) * precision) / precision
+    return { value, unit }
+  })
+
+  const nonZero = parts.filter(part => part.value > 0)
+  return nonZero.length > 0 ? nonZero : [{ value: 0, unit: units[0] }]
+}
+
+// Turns what an owner typed into what a listing stores: the exact parts, the total in
+// the largest unit for older readers of area/areaUnit, and sqm for search
+export function normalizeArea(parts: AreaPart[]): Pick<Property, 'area' | 'areaUnit' | 'areaParts' | 'areaSqm'> {
+  const entered = parts.filter(part => part.value > 0)
+  const unit = entered[0]?.unit ?? 'sqft'
+  const sqm = partsToSqm(entered)
+  return {
+    area: Math.round((sqm / AREA_UNITS[unit].sqm) * 10000) / 10000,
+    areaUnit: unit,
+    ...(entered.length > 1 ? { areaParts: entered } : {}),
+    areaSqm: Math.round(sqm * 100) / 100
+  }
+}
+
+// "1 ropani 4 aana", "1,200 sq ft"
+export function formatAreaParts(parts: AreaPart[]): string {
+  return parts.map(part => `${part.value.toLocaleString()} ${AREA_UNITS[part.unit].label}`).join(' ')
+}
+
+// A listing's area in the reader's preferred units. Floor space stays in sqft or sqm
+// when a land system is preferred, since nobody measures a flat in aana. Converts from
+// the exact parts rather than the rounded areaSqm
+export function formatArea(property: Pick<Property, 'area' | 'areaUnit' | 'areaParts'>, display: AreaDisplay = 'listed'): string {
+  const parts = propertyAreaParts(property)
+  const listedSystem = AREA_UNITS[parts[0].unit].system
+  const floorArea = AREA_UNITS[parts[0].unit].kind === 'floor'
+
+  if (display === 'listed' || display === listedSystem || (floorArea && (display === 'ropani' || display === 'bigha'))) {
+    // "1.25 ropani" reads better as 1 ropani 4 aana
+    const fractionalLand = !floorArea && parts.length === 1 && !Number.isInteger(parts[0].value)
+    return formatAreaParts(fractionalLand ? sqmToParts(partsToSqm(parts), listedSystem) : parts)
+  }
+  return formatAreaParts(sqmToParts(partsToSqm(parts), display))
+}
@@ -0,0 +1,60 @@
+import { Property, SearchFilters } from '@/types'
+import { areaInRange, propertyAreaSqm } from './landUnits'
+
+export type ListingSort = 'relevance' | 'price_asc' | 'price_desc' | 'area_asc' | 'area_desc'
+
+export const LISTING_SORTS: Array<{ value: ListingSort; label: string }> = [
+  { value: 'relevance', label: 'Best match' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'area_asc', label: 'Size: small to large' },
+  { value: 'area_desc', label: 'Size: large to small' }
+]
+
+export const EMPTY_FILTERS: SearchFilters = {
+  priceRange: { min: 0, max: 0 },
+  propertyType: [],
+  areaRange: { min: 0, max: 0 },
+  amenities: []
+}
+
+export function countActiveFilters(filters: SearchFilters): number {
+  return [
+    filters.priceRange.min > 0 || filters.priceRange.max > 0,
+    filters.propertyType.length > 0,
+    !!filters.bedrooms,
+    !!filters.bathrooms,
+    filters.areaRange.min > 0 || filters.areaRange.max > 0,
+    filters.amenities.length > 0
+  ].filter(Boolean).length
+}
+
+const inRange = (value: number, range: { min: number; max: number }) =>
+  (range.min <= 0 || value >= range.min) && (range.max <= 0 || value <= range.max)
+
+// Narrows and orders the listings shown beside the map. Sizes are compared in sqm, so
+// a 5 aana plot and a 1,700 sq ft plot sort next to each other
+export function applyListingFilters(properties: Property[], filters: SearchFilters, sort: ListingSort): Property[] {
+  const filtered = properties.filter(property =>
+    inRange(property.price, filters.priceRange) &&
+    (filters.propertyType.length === 0 || filters.propertyType.includes(property.propertyType)) &&
+    (!filters.bedrooms || (property.bedrooms || 0) >= filters.bedrooms) &&
+    (!filters.bathrooms || (property.bathrooms || 0) >= filters.bathrooms) &&
+    areaInRange(propertyAreaSqm(property), filters.areaRange) &&
+    filters.amenities.every(amenity => property.amenities.includes(amenity))
+  )
+
+  switch (sort) {
+    case 'price_asc':
+      return filtered.sort((a, b) => a.price - b.price)
+    case 'price_desc':
+      return filtered.sort((a, b) => b.price - a.price)
+    case 'area_asc':
+      return filtered.sort((a, b) => propertyAreaSqm(a) - propertyAreaSqm(b))
+    case 'area_desc':
+      return filtered.sort((a, b) => propertyAreaSqm(b) - propertyAreaSqm(a))
+    default:
+      // Search results arrive ranked by relevance, and the full inventory newest first
+      return filtered
+  }
+}
@@ -0,0 +1,304 @@
+import type {
+  ObjectGenerationRequest,
+  ObjectGenerationResponse,
+  TextGenerationRequest,
+  TextGenerationResponse,
+  TokenUsage
+} from '@blinkdotnew/sdk'
+import { platform } from './platformClient'
+
+// Every model call in the app goes through llmGateway so it can be attributed to a
+// feature, counted against the user's and session's token budgets, and priced.
+
+export type LLMFeature =
+  | 'agent_reasoning'
+  | 'market_analysis'
+  | 'search_interpretation'
+  | 'property_recommendation'
+  | 'property_explanation'
+  | 'onboarding'
+  | 'simple_chat'
+  | 'preference_extraction'
+  | 'memory_summarization'
+  | 'session_title'
+
+interface LLMFeatureConfig {
+  label: string
+  // Optional features are skipped once a budget is spent; their callers already
+  // fall back to template text. Essential features move to the cheaper model instead
+  optional: boolean
+}
+
+export const LLM_FEATURES: Record<LLMFeature, LLMFeatureConfig> = {
+  agent_reasoning: { label: 'Chat agent reasoning', optional: false },
+  market_analysis: { label: 'Market analysis tool', optional: false },
+  search_interpretation: { label: 'Search interpretation', optional: false },
+  property_recommendation: { label: 'Search result summary', optional: true },
+  property_explanation: { label: 'Per-listing match explanations', optional: true },
+  onboarding: { label: 'Onboarding questions', optional: false },
+  simple_chat: { label: 'Simple chat', optional: false },
+  preference_extraction: { label: 'Preference extraction', optional: true },
+  memory_summarization: { label: 'Conversation summaries', optional: true },
+  session_title: { label: 'Chat titles', optional: true }
+}
+
+export interface LLMBudgets {
+  sessionTokens: number
+  userDailyTokens: number
+}
+
+export const LLM_BUDGETS: LLMBudgets = {
+  sessionTokens: 60000,
+  userDailyTokens: 250000
+}
+
+// The model used once a budget is spent, and the completion cap that goes with it
+export const FALLBACK_MODEL = 'gpt-4o-mini'
+const FALLBACK_MAX_TOKENS = 400
+
+// Indicative USD prices per million tokens, for the usage summary only. Calls that do
+// not name a model run on the project's default, priced here as 'default'.
+export const LLM_PRICING_UPDATED_AT = '2026-10-01'
+
+export const LLM_PRICING: Record<string, { inputPerMillion: number; outputPerMillion: number }> = {
+  default: { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 }
+}
+
+export interface LLMUsageRecord {
+  id: string
+  feature: LLMFeature
+  kind: 'text' | 'object'
+  model: string
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  // True when the API returned no usage and tokens were estimated from text length
+  estimated: boolean
+  costUsd: number
+  latencyMs: number
+  success: boolean
+  // Ran on the cheaper model because a budget was spent
+  fallback: boolean
+  // Not sent at all because a budget was spent and the feature is optional
+  skipped: boolean
+  userId?: string
+  sessionId: string
+  timestamp: number
+}
+
+export interface LLMFeatureUsage {
+  feature: LLMFeature
+  label: string
+  calls: number
+  totalTokens: number
+  costUsd: number
+  averageLatencyMs: number
+}
+
+export interface LLMUsageSummary {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  costUsd: number
+  averageLatencyMs: number
+  fallbackCalls: number
+  skippedCalls: number
+  estimatedCalls: number
+  byFeature: LLMFeatureUsage[]
+  session: { id: string; totalTokens: number; limit: number }
+  user: { id?: string; totalTokens: number; limit: number }
+  overBudget: boolean
+  pricingUpdatedAt: string
+}
+
+export class LLMBudgetExceededError extends Error {
+  constructor(feature: LLMFeature) {
+    super(`Token budget spent; skipped ${LLM_FEATURES[feature].label.toLowerCase()}`)
+    this.name = 'LLMBudgetExceededError'
+  }
+}
+
+// Roughly four characters per token for English text
+const estimateTokens = (characters: number) => Math.ceil(characters / 4)
+
+const promptLength = (request: TextGenerationRequest | ObjectGenerationRequest) =>
+  (request.prompt || '').length + ('messages' in request && request.messages
+    ? request.messages.reduce((sum, message) => sum + (typeof message.content === 'string' ? message.content.length : JSON.stringify(message.content).length), 0)
+    : 0)
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+class LLMGateway {
+  private records: LLMUsageRecord[] = []
+  private maxRecords = 500
+  private userId?: string
+  // Anonymous use is budgeted per page load until a memory session is known
+  private sessionId = `local_${Date.now()}`
+  private nextId = 1
+
+  setUser(userId: string | undefined): void {
+    this.userId = userId
+  }
+
+  setSession(sessionId: string): void {
+    this.sessionId = sessionId
+  }
+
+  async generateText(feature: LLMFeature, request: TextGenerationRequest): Promise<TextGenerationResponse> {
+    const fallback = this.checkBudget(feature, 'text')
+    const finalRequest = fallback
+      ? { ...request, model: FALLBACK_MODEL, maxTokens: Math.min(request.maxTokens ?? FALLBACK_MAX_TOKENS, FALLBACK_MAX_TOKENS) }
+      : request
+    return this.track(feature, 'text', finalRequest, fallback, () => platform.ai.generateText(finalRequest), response => response.text)
+  }
+
+  async generateObject(feature: LLMFeature, request: ObjectGenerationRequest): Promise<ObjectGenerationResponse> {
+    const fallback = this.checkBudget(feature, 'object')
+    const finalRequest = fallback ? { ...request, model: FALLBACK_MODEL } : request
+    return this.track(feature, 'object', finalRequest, fallback, () => platform.ai.generateObject(finalRequest), response => JSON.stringify(response.object ?? ''))
+  }
+
+  isOverBudget(): boolean {
+    return this.sessionTokens() >= LLM_BUDGETS.sessionTokens || this.userTokensToday() >= LLM_BUDGETS.userDailyTokens
+  }
+
+  getRecords(): LLMUsageRecord[] {
+    return [...this.records]
+  }
+
+  getUsageSummary(): LLMUsageSummary {
+    const records = this.records.filter(record => !record.skipped)
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+    const average = (values: number[]) => values.length > 0 ? Math.round(sum(values) / values.length) : 0
+
+    const byFeature = (Object.keys(LLM_FEATURES) as LLMFeature[])
+      .map(feature => {
+        const featureRecords = records.filter(record => record.feature === feature)
+        return {
+          feature,
+          label: LLM_FEATURES[feature].label,
+          calls: featureRecords.length,
+          totalTokens: sum(featureRecords.map(record => record.totalTokens)),
+          costUsd: sum(featureRecords.map(record => record.costUsd)),
+          averageLatencyMs: average(featureRecords.map(record => record.latencyMs))
+        }
+      })
+      .filter(usage => usage.calls > 0)
+      .sort((a, b) => b.totalTokens - a.totalTokens)
+
+    return {
+      calls: records.length,
+      promptTokens: sum(records.map(record => record.promptTokens)),
+      completionTokens: sum(records.map(record => record.completionTokens)),
+      totalTokens: sum(records.map(record => record.totalTokens)),
+      costUsd: sum(records.map(record => record.costUsd)),
+      averageLatencyMs: average(records.map(record => record.latencyMs)),
+      fallbackCalls: records.filter(record => record.fallback).length,
+      skippedCalls: this.records.filter(record => record.skipped).length,
+      estimatedCalls: records.filter(record => record.estimated).length,
+      byFeature,
+      session: { id: this.sessionId, totalTokens: this.sessionTokens(), limit: LLM_BUDGETS.sessionTokens },
+      user: { id: this.userId, totalTokens: this.userTokensToday(), limit: LLM_BUDGETS.userDailyTokens },
+      overBudget: this.isOverBudget(),
+      pricingUpdatedAt: LLM_PRICING_UPDATED_AT
+    }
+  }
+
+  // Returns whether the call should use the fallback path; throws for optional features
+  private checkBudget(feature: LLMFeature, kind: LLMUsageRecord['kind']): boolean {
+    if (!this.isOverBudget()) return false
+    if (LLM_FEATURES[feature].optional) {
+      this.record({ feature, kind, model: '', promptTokens: 0, completionTokens: 0, estimated: false, latencyMs: 0, success: false, fallback: false, skipped: true })
+      throw new LLMBudgetExceededError(feature)
+    }
+    return true
+  }
+
+  private async track<T extends { usage?: TokenUsage }>(
+    feature: LLMFeature,
+    kind: LLMUsageRecord['kind'],
+    request: TextGenerationRequest | ObjectGenerationRequest,
+    fallback: boolean,
+    call: () => Promise<T>,
+    outputText: (response: T) => string
+  ): Promise<T> {
+    const startTime = Date.now()
+    const model = request.model || 'default'
+    try {
+      const response = await call()
+      const usage = response.usage
+      this.record({
+        feature,
+        kind,
+        model,
+        promptTokens: usage?.promptTokens ?? estimateTokens(promptLength(request)),
+        completionTokens: usage?.completionTokens ?? estimateTokens(outputText(response).length),
+        estimated: !usage,
+        latencyMs: Date.now() - startTime,
+        success: true,
+        fallback,
+        skipped: false
+      })
+      return response
+    } catch (error) {
+      // Failed calls are still billed for the prompt in most cases, so count it
+      this.record({
+        feature,
+        kind,
+        model,
+        promptTokens: estimateTokens(promptLength(request)),
+        completionTokens: 0,
+        estimated: true,
+        latencyMs: Date.now() - startTime,
+        success: false,
+        fallback,
+        skipped: false
+      })
+      throw error
+    }
+  }
+
+  private record(entry: Omit<LLMUsageRecord, 'id' | 'totalTokens' | 'costUsd' | 'userId' | 'sessionId' | 'timestamp'>): void {
+    const pricing = LLM_PRICING[entry.model] || LLM_PRICING.default
+    const record: LLMUsageRecord = {
+      ...entry,
+      id: `llm_${this.nextId++}`,
+      totalTokens: entry.promptTokens + entry.completionTokens,
+      costUsd: (entry.promptTokens * pricing.inputPerMillion + entry.completionTokens * pricing.outputPerMillion) / 1_000_000,
+      userId: this.userId,
+      sessionId: this.sessionId,
+      timestamp: Date.now()
+    }
+
+    this.records.push(record)
+    if (this.records.length > this.maxRecords) {
+      this.records = this.records.slice(-this.maxRecords)
+    }
+    if (this.userId && record.totalTokens > 0) {
+      this.storeUserTokens(this.userTokensToday() + record.totalTokens)
+    }
+  }
+
+  private sessionTokens(): number {
+    return this.records
+      .filter(record => record.sessionId === this.sessionId)
+      .reduce((total, record) => total + record.totalTokens, 0)
+  }
+
+  // The daily total is kept in localStorage so it survives reloads; the call records
+  // themselves are only kept for the current page
+  private userTokensToday(): number {
+    if (!this.userId || typeof localStorage === 'undefined') return 0
+    return Number(localStorage.getItem(`llm_usage_${this.userId}_${today()}`)) || 0
+  }
+
+  private storeUserTokens(tokens: number): void {
+    if (!this.userId || typeof localStorage === 'undefined') return
+    localStorage.setItem(`llm_usage_${this.userId}_${today()}`, String(tokens))
+  }
+}
+
+export const llmGateway = new LLMGateway()
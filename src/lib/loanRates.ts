@@ -0,0 +1,39 @@
+// Local home-loan rate table used by the mortgage calculator. These are indicative
+// figures, not a live feed: update them by hand when lenders publish new base rates.
+
+export interface LoanRate {
+  id: string
+  lender: string
+  label: string
+  // Annual interest rate in percent
+  annualRate: number
+  maxTenureYears: number
+}
+
+export interface LendingLimits {
+  // Largest share of the property price a bank will lend against
+  maxLoanToValue: number
+  // Largest share of gross monthly income that may go to loan repayments,
+  // including existing obligations
+  maxDebtToIncome: number
+}
+
+export const LOAN_RATES_UPDATED_AT = '2026-10-01'
+
+export const LOAN_RATES: LoanRate[] = [
+  { id: 'commercial-avg', lender: 'Commercial banks', label: 'Commercial bank average', annualRate: 10.5, maxTenureYears: 25 },
+  { id: 'development-avg', lender: 'Development banks', label: 'Development bank average', annualRate: 11.75, maxTenureYears: 20 },
+  { id: 'finance-avg', lender: 'Finance companies', label: 'Finance company average', annualRate: 13, maxTenureYears: 15 },
+  { id: 'first-home', lender: 'Commercial banks', label: 'First-home concessional', annualRate: 9.25, maxTenureYears: 30 }
+]
+
+export const DEFAULT_LOAN_RATE_ID = 'commercial-avg'
+
+export const LENDING_LIMITS: LendingLimits = {
+  maxLoanToValue: 0.7,
+  maxDebtToIncome: 0.5
+}
+
+export function getLoanRate(id: string): LoanRate | undefined {
+  return LOAN_RATES.find(rate => rate.id === id)
+}
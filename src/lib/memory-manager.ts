@@ -1,4 +1,47 @@
-import { blink } from './blink'
+import { platform } from './platformClient'
+import { llmGateway } from './llmGateway'
+import { detectLanguage } from './nepaliLanguage'
+import { understandQuery } from './queryUnderstanding'
+import { sessionSync, type SessionChange, type SessionSync } from './sessionSync'
+import { offlineStore } from './offlineStore'
+import { offlineStatus } from './offlineStatus'
+import { isConnectionError, writeOutbox } from './writeOutbox'
+import { simplePropertyService } from './simplePropertyService'
+import { userProfileService, type HouseholdType, type SearchIntent, type UserProfile } from './userProfile'
+import {
+  extractPreferenceChanges,
+  MIN_PREFERENCE_CONFIDENCE,
+  type PreferenceListField,
+  type PreferenceSource
+} from './preferenceExtraction'
+import {
+  cleanSessionTitle,
+  createUserFact,
+  DEFAULT_SESSION_TITLE,
+  generateSessionTitle,
+  MAX_SUMMARY_LENGTH,
+  MAX_USER_FACTS,
+  summarizeEvictedMessages,
+  type SessionSummary,
+  type UserFact
+} from './conversationSummary'
+
+const INTENT_LABELS: Record<SearchIntent, string> = {
+  rent: 'rent a home',
+  buy: 'buy a home',
+  invest: 'invest in property',
+  list: 'list their own property'
+}
+
+// Tries before a context write gives up on a session other tabs keep changing
+const MAX_CONTEXT_WRITE_ATTEMPTS = 3
+
+const HOUSEHOLD_LABELS: Record<HouseholdType, string> = {
+  solo: 'lives alone',
+  couple: 'a couple',
+  family: 'a family with children',
+  roommates: 'sharing with roommates'
+}
 
 export interface ConversationMessage {
   id: string
@@ -9,25 +52,13 @@ export interface ConversationMessage {
     toolCalls?: any[]
     reasoning?: any[]
     properties?: any[]
+    // The pending question and quick replies when the agent paused to ask the user
+    clarification?: any
+    // Numbered sources cited by the assistant's answer
+    citations?: any[]
   }
 }
 
-export interface UserPreferences {
-  id: string
-  userId: string
-  propertyType?: string[]
-  priceRange?: { min: number; max: number }
-  locations?: string[]
-  bedrooms?: number
-  amenities?: string[]
-  searchHistory?: string[]
-  viewedProperties?: string[]
-  favoriteProperties?: string[]
-  communicationStyle?: 'detailed' | 'concise' | 'technical'
-  language?: 'en' | 'ne'
-  updatedAt: number
-}
-
 export interface ConversationSession {
   id: string
   userId: string
@@ -35,47 +66,77 @@ export interface ConversationSession {
   messages: ConversationMessage[]
   context: {
     currentSearch?: any
-    extractedPreferences?: Partial<UserPreferences>
+    extractedPreferences?: Partial<UserProfile>
+    // Messages trimmed from the session, condensed
+    summary?: SessionSummary
     lastActivity: number
   }
   createdAt: number
   updatedAt: number
+  // Bumped by every context write; a write expecting an older version lost a race
+  version: number
+}
+
+export interface SessionSearchResult {
+  session: ConversationSession
+  // Text around the first match, for the result list
+  snippet: string
+  matches: number
+}
+
+// A session as last loaded or changed on this device, for reading offline
+interface SavedSession {
+  session: ConversationSession
+  savedAt: number
+}
+
+// Everything the memory manager holds about one user, for the privacy export
+export interface MemoryExport {
+  preferences: UserProfile | null
+  sessions: ConversationSession[]
 }
 
 export class MemoryManager {
   private currentSession: ConversationSession | null = null
-  private userPreferences: UserPreferences | null = null
+  // A session the user opened or started from the session browser stays current,
+  // however old, instead of the one-hour rule picking one
+  private chosenSessionId: string | null = null
+  // Sessions started while memory was paused; they exist only in this page
+  private unsavedSessionIds = new Set<string>()
+  // Messages being appended or waiting offline, kept when a reload from storage does not have them yet
+  private pendingMessageIds = new Set<string>()
+  private sessionListeners = new Set<(change: SessionChange) => void>()
+  private sync: SessionSync
+
+  constructor(sync: SessionSync = sessionSync) {
+    this.sync = sync
+    sync.onChange(change => this.handleRemoteChange(change))
+  }
+
+  private get userPreferences(): UserProfile | null {
+    return userProfileService.get()
+  }
   private maxMessagesInMemory = 20
   private maxTokensEstimate = 8000
+  // Messages are trimmed this many at a time, so the summary is not rewritten every turn
+  private summaryBatchSize = 6
 
   async initializeSession(userId: string): Promise<ConversationSession> {
     try {
       // Load user preferences
       await this.loadUserPreferences(userId)
-      
-      // Create or load current session
-      const sessions = await blink.db.conversationSessions.list({
-        where: { userId },
-        orderBy: { updatedAt: 'desc' },
-        limit: 1
-      })
 
-      if (sessions.length > 0 && this.isRecentSession(sessions[0])) {
-        // Map database format to interface format
-        const dbSession = sessions[0]
-        this.currentSession = {
-          id: dbSession.id,
-          userId: dbSession.userId,
-          title: dbSession.title,
-          messages: this.parseJsonField(dbSession.messages) || [],
-          context: this.parseJsonField(dbSession.context) || { lastActivity: Date.now() },
-          createdAt: dbSession.createdAt,
-          updatedAt: dbSession.updatedAt
-        }
-      } else {
-        this.currentSession = await this.createNewSession(userId)
-      }
+      this.sync.connect(userId)
+
+      // The open session stays open while in use, even if another tab has started a newer
+      // one; it is re-read so messages added elsewhere are in the context
+      const current = this.currentSession
+      const keep = current?.userId === userId && (current.id === this.chosenSessionId || this.isRecentSession(current))
+      const reloaded = keep ? await this.reloadCurrentSession() : null
+      this.currentSession = reloaded || await this.latestOrNewSession(userId)
 
+      llmGateway.setUser(userId)
+      llmGateway.setSession(this.currentSession.id)
       return this.currentSession
     } catch (error) {
       console.error('Failed to initialize session:', error)
@@ -98,17 +159,27 @@ export class MemoryManager {
     this.currentSession.messages.push(newMessage)
     this.currentSession.updatedAt = Date.now()
     this.currentSession.context.lastActivity = Date.now()
+    await this.appendMessage(this.currentSession, newMessage)
+
+    // Paused: the message is kept for this conversation only, and nothing is learned from it
+    if (this.isMemoryPaused()) {
+      await this.trimMemoryIfNeeded()
+      return
+    }
 
     // Extract preferences from user messages
     if (message.role === 'user') {
-      await this.extractAndUpdatePreferences(message.content)
+      await this.extractAndUpdatePreferences(newMessage)
+      await this.updateLanguageFromMessage(message.content)
     }
 
-    // Manage memory size
-    this.trimMemoryIfNeeded()
+    // Name the session after its first exchange
+    if (message.role === 'assistant' && this.currentSession.title === DEFAULT_SESSION_TITLE) {
+      await this.titleFromFirstExchange()
+    }
 
-    // Persist to database
-    await this.persistSession()
+    // Manage memory size, summarising what is trimmed
+    await this.trimMemoryIfNeeded()
   }
 
   async getConversationContext(): Promise<ConversationMessage[]> {
@@ -120,90 +191,79 @@ export class MemoryManager {
     return this.optimizeMessagesForContext(this.currentSession.messages)
   }
 
-  async getUserPreferences(): Promise<UserPreferences | null> {
+  async getUserPreferences(): Promise<UserProfile | null> {
     return this.userPreferences
   }
 
-  async updateUserPreferences(updates: Partial<UserPreferences>): Promise<void> {
-    if (!this.userPreferences) {
-      return
-    }
+  // The profile is shared with onboarding and the app store; see userProfile.ts
+  async updateUserPreferences(updates: Partial<UserProfile>): Promise<void> {
+    await userProfileService.update(updates)
+  }
+
+  // Takes back something the assistant inferred. For list fields pass the value;
+  // bedrooms and priceRange are cleared outright
+  async revokePreference(field: PreferenceSource['field'], value?: string): Promise<void> {
+    if (!this.userPreferences) return
 
-    this.userPreferences = {
-      ...this.userPreferences,
-      ...updates,
-      updatedAt: Date.now()
+    const updates: Partial<UserProfile> = {
+      preferenceSources: (this.userPreferences.preferenceSources || [])
+        .filter(source => !(source.field === field && (value === undefined || source.value === value)))
+    }
+    if (field === 'bedrooms') {
+      updates.bedrooms = undefined
+    } else if (field === 'priceRange') {
+      updates.priceRange = undefined
+    } else {
+      updates[field] = (this.userPreferences[field] || []).filter(item => item !== value)
     }
 
-    try {
-      // Map interface format to database format
-      const dbUpdates: any = {
-        updatedAt: this.userPreferences.updatedAt
-      }
+    await this.updateUserPreferences(updates)
+  }
 
-      if (updates.propertyType !== undefined) {
-        dbUpdates.propertyType = JSON.stringify(this.userPreferences.propertyType)
-      }
-      if (updates.priceRange !== undefined) {
-        dbUpdates.priceRangeMin = this.userPreferences.priceRange?.min
-        dbUpdates.priceRangeMax = this.userPreferences.priceRange?.max
-      }
-      if (updates.locations !== undefined) {
-        dbUpdates.locations = JSON.stringify(this.userPreferences.locations)
-      }
-      if (updates.bedrooms !== undefined) {
-        dbUpdates.bedrooms = this.userPreferences.bedrooms
-      }
-      if (updates.amenities !== undefined) {
-        dbUpdates.amenities = JSON.stringify(this.userPreferences.amenities)
-      }
-      if (updates.searchHistory !== undefined) {
-        dbUpdates.searchHistory = JSON.stringify(this.userPreferences.searchHistory)
-      }
-      if (updates.viewedProperties !== undefined) {
-        dbUpdates.viewedProperties = JSON.stringify(this.userPreferences.viewedProperties)
-      }
-      if (updates.favoriteProperties !== undefined) {
-        dbUpdates.favoriteProperties = JSON.stringify(this.userPreferences.favoriteProperties)
-      }
-      if (updates.communicationStyle !== undefined) {
-        dbUpdates.communicationStyle = this.userPreferences.communicationStyle
-      }
-      if (updates.language !== undefined) {
-        dbUpdates.language = this.userPreferences.language
-      }
+  async getSessionSummary(): Promise<SessionSummary | undefined> {
+    return this.currentSession?.context.summary
+  }
 
-      await blink.db.userPreferences.update(this.userPreferences.id, dbUpdates)
-    } catch (error) {
-      console.error('Failed to update preferences:', error)
-      // If update fails, try to recreate the preferences
-      if (error.message?.includes('NOT NULL constraint') || error.message?.includes('no such rowid')) {
-        console.log('Attempting to recreate user preferences...')
-        try {
-          const now = Date.now()
-          const recreatePrefs = {
-            id: this.userPreferences.id,
-            userId: this.userPreferences.userId,
-            searchHistory: JSON.stringify(this.userPreferences.searchHistory || []),
-            viewedProperties: JSON.stringify(this.userPreferences.viewedProperties || []),
-            favoriteProperties: JSON.stringify(this.userPreferences.favoriteProperties || []),
-            propertyType: JSON.stringify(this.userPreferences.propertyType || []),
-            locations: JSON.stringify(this.userPreferences.locations || []),
-            amenities: JSON.stringify(this.userPreferences.amenities || []),
-            communicationStyle: this.userPreferences.communicationStyle || 'detailed',
-            language: this.userPreferences.language || 'en',
-            bedrooms: this.userPreferences.bedrooms,
-            priceRangeMin: this.userPreferences.priceRange?.min,
-            priceRangeMax: this.userPreferences.priceRange?.max,
-            createdAt: now,
-            updatedAt: now
-          }
-          await blink.db.userPreferences.create(recreatePrefs)
-        } catch (recreateError) {
-          console.error('Failed to recreate preferences:', recreateError)
-        }
+  // The user's own rewrite of the summary; later updates build on it
+  async updateSessionSummary(text: string): Promise<void> {
+    if (!this.currentSession) return
+
+    await this.updateSessionContext(this.currentSession, context => ({
+      ...context,
+      summary: {
+        ...context.summary,
+        text: text.trim().slice(0, MAX_SUMMARY_LENGTH),
+        messageCount: context.summary?.messageCount || 0,
+        updatedAt: Date.now(),
+        editedByUser: true
       }
-    }
+    }))
+  }
+
+  async getUserFacts(): Promise<UserFact[]> {
+    return this.userPreferences?.userFacts || []
+  }
+
+  async addUserFact(text: string): Promise<void> {
+    if (!this.userPreferences || !text.trim()) return
+    const facts = [...(this.userPreferences.userFacts || []), createUserFact(text, undefined, true)]
+    await this.updateUserPreferences({ userFacts: facts.slice(-MAX_USER_FACTS) })
+  }
+
+  async updateUserFact(id: string, text: string): Promise<void> {
+    if (!this.userPreferences || !text.trim()) return
+    await this.updateUserPreferences({
+      userFacts: (this.userPreferences.userFacts || []).map(fact =>
+        fact.id === id ? { ...fact, text: text.trim(), updatedAt: Date.now(), editedByUser: true } : fact
+      )
+    })
+  }
+
+  async removeUserFact(id: string): Promise<void> {
+    if (!this.userPreferences) return
+    await this.updateUserPreferences({
+      userFacts: (this.userPreferences.userFacts || []).filter(fact => fact.id !== id)
+    })
   }
 
   async getSearchHistory(limit: number = 10): Promise<string[]> {
@@ -211,7 +271,7 @@ export class MemoryManager {
   }
 
   async addToSearchHistory(query: string): Promise<void> {
-    if (!this.userPreferences) return
+    if (!this.userPreferences || this.isMemoryPaused()) return
 
     const searchHistory = this.userPreferences.searchHistory || []
     searchHistory.push(query)
@@ -232,12 +292,16 @@ export class MemoryManager {
 
     if (preferences) {
       personalizedPrompt += `\n\nUser Profile:
+- Looking to: ${preferences.intent ? INTENT_LABELS[preferences.intent] : 'Not specified'}
+- Household: ${preferences.householdType ? HOUSEHOLD_LABELS[preferences.householdType] : 'Not specified'}
 - Preferred property types: ${preferences.propertyType?.join(', ') || 'Not specified'}
 - Budget range: NPR ${preferences.priceRange?.min?.toLocaleString()} - ${preferences.priceRange?.max?.toLocaleString() || 'Not specified'}
 - Preferred locations: ${preferences.locations?.join(', ') || 'Not specified'}
+- Places to avoid: ${preferences.excludedLocations?.join(', ') || 'None'}
+- Deal-breakers: ${preferences.dealBreakers?.join(', ') || 'None'}
 - Bedrooms: ${preferences.bedrooms || 'Not specified'}
 - Communication style: ${preferences.communicationStyle || 'balanced'}
-- Language: ${preferences.language === 'ne' ? 'Nepali' : 'English'}`
+- Language: ${preferences.language === 'ne' ? `Nepali (${preferences.languageScript === 'romanized' ? 'Romanized' : 'Devanagari'})` : 'English'}`
 
       if (recentSearches.length > 0) {
         personalizedPrompt += `\n- Recent searches: ${recentSearches.join(', ')}`
@@ -246,6 +310,15 @@ export class MemoryManager {
       if (preferences.viewedProperties?.length) {
         personalizedPrompt += `\n- Has viewed ${preferences.viewedProperties.length} properties recently`
       }
+
+      if (preferences.userFacts?.length) {
+        personalizedPrompt += `\n\nWhat you know about this user from earlier conversations:\n${preferences.userFacts.map(fact => `- ${fact.text}`).join('\n')}`
+      }
+    }
+
+    const summary = this.currentSession?.context.summary
+    if (summary?.text) {
+      personalizedPrompt += `\n\nEarlier in this conversation (older messages, summarised):\n${summary.text}`
     }
 
     personalizedPrompt += `\n\nUse this context to provide more relevant and personalized responses. Reference their preferences when appropriate and avoid asking for information you already know.`
@@ -254,83 +327,7 @@ export class MemoryManager {
   }
 
   private async loadUserPreferences(userId: string): Promise<void> {
-    try {
-      const preferences = await blink.db.userPreferences.list({
-        where: { userId },
-        limit: 1
-      })
-
-      if (preferences.length > 0) {
-        // Map database fields to interface format
-        const dbPref = preferences[0]
-        this.userPreferences = {
-          id: dbPref.id,
-          userId: dbPref.userId,
-          propertyType: this.parseJsonField(dbPref.propertyType) || [],
-          priceRange: dbPref.priceRangeMin || dbPref.priceRangeMax ? {
-            min: dbPref.priceRangeMin || 0,
-            max: dbPref.priceRangeMax || 0
-          } : undefined,
-          locations: this.parseJsonField(dbPref.locations) || [],
-          bedrooms: dbPref.bedrooms,
-          amenities: this.parseJsonField(dbPref.amenities) || [],
-          searchHistory: this.parseJsonField(dbPref.searchHistory) || [],
-          viewedProperties: this.parseJsonField(dbPref.viewedProperties) || [],
-          favoriteProperties: this.parseJsonField(dbPref.favoriteProperties) || [],
-          communicationStyle: dbPref.communicationStyle || 'detailed',
-          language: dbPref.language || 'en',
-          updatedAt: dbPref.updatedAt || Date.now()
-        }
-      } else {
-        // Create default preferences with proper database mapping
-        const now = Date.now()
-        const defaultPrefs = {
-          userId,
-          searchHistory: JSON.stringify([]),
-          viewedProperties: JSON.stringify([]),
-          favoriteProperties: JSON.stringify([]),
-          propertyType: JSON.stringify([]),
-          locations: JSON.stringify([]),
-          amenities: JSON.stringify([]),
-          communicationStyle: 'detailed',
-          language: 'en',
-          createdAt: now,
-          updatedAt: now
-        }
-        
-        const created = await blink.db.userPreferences.create(defaultPrefs)
-        
-        this.userPreferences = {
-          id: created.id,
-          userId,
-          propertyType: [],
-          locations: [],
-          amenities: [],
-          searchHistory: [],
-          viewedProperties: [],
-          favoriteProperties: [],
-          communicationStyle: 'detailed',
-          language: 'en',
-          updatedAt: Date.now()
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load user preferences:', error)
-      // Create fallback preferences
-      this.userPreferences = {
-        id: `pref_${userId}`,
-        userId,
-        propertyType: [],
-        locations: [],
-        amenities: [],
-        searchHistory: [],
-        viewedProperties: [],
-        favoriteProperties: [],
-        communicationStyle: 'detailed',
-        language: 'en',
-        updatedAt: Date.now()
-      }
-    }
+    await userProfileService.load(userId)
   }
 
   private async createNewSession(userId: string): Promise<ConversationSession> {
@@ -338,13 +335,19 @@ export class MemoryManager {
     const session: ConversationSession = {
       id: `session_${now}_${Math.random().toString(36).substr(2, 9)}`,
       userId,
-      title: 'New Property Search',
+      title: DEFAULT_SESSION_TITLE,
       messages: [],
       context: {
         lastActivity: now
       },
       createdAt: now,
-      updatedAt: now
+      updatedAt: now,
+      version: 0
+    }
+
+    if (this.isMemoryPaused()) {
+      this.unsavedSessionIds.add(session.id)
+      return session
     }
 
     try {
@@ -353,19 +356,40 @@ export class MemoryManager {
         id: session.id,
         userId: session.userId,
         title: session.title,
-        messages: JSON.stringify(session.messages),
+        // Messages are rows of conversationMessages; this column only has them in older sessions
+        messages: '[]',
         context: JSON.stringify(session.context),
+        version: session.version,
         createdAt: session.createdAt,
         updatedAt: session.updatedAt
       }
-      await blink.db.conversationSessions.create(dbSession)
+      await writeOutbox.run({ table: 'conversationSessions', action: 'create', data: dbSession })
+      this.sync.publish({ kind: 'session', userId, sessionId: session.id })
     } catch (error) {
       console.error('Failed to create session in database:', error)
     }
 
+    await this.keepOffline(session)
     return session
   }
 
+  // The user's most recently active session if it is still recent, otherwise a new one
+  private async latestOrNewSession(userId: string): Promise<ConversationSession> {
+    let latest: ConversationSession | undefined
+    try {
+      const sessions = await platform.db.conversationSessions.list({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' },
+        limit: 1
+      })
+      latest = (await this.withMessages(sessions))[0]
+    } catch (error) {
+      if (!isConnectionError(error)) throw error
+      latest = (await this.savedSessions(userId))[0]
+    }
+    return latest && this.isRecentSession(latest) ? latest : this.createNewSession(userId)
+  }
+
   private createFallbackSession(userId: string): ConversationSession {
     return {
       id: `fallback_${Date.now()}`,
@@ -376,7 +400,36 @@ export class MemoryManager {
         lastActivity: Date.now()
       },
       createdAt: Date.now(),
-      updatedAt: Date.now()
+      updatedAt: Date.now(),
+      version: 0
+    }
+  }
+
+  private async titleFromFirstExchange(): Promise<void> {
+    const session = this.currentSession
+    if (!session) return
+
+    const question = session.messages.find(m => m.role === 'user')
+    const answer = session.messages.find(m => m.role === 'assistant')
+    if (!question || !answer) return
+
+    const title = await generateSessionTitle(question.content, answer.content)
+    // The user may have renamed the session while the title was being written
+    if (session.title !== DEFAULT_SESSION_TITLE) return
+    session.title = title
+    if (!this.isStored(session)) return
+
+    try {
+      // Another tab may have named or renamed it meanwhile
+      const stored = await platform.db.conversationSessions.get(session.id)
+      if (stored && stored.title !== DEFAULT_SESSION_TITLE) {
+        session.title = stored.title
+        return
+      }
+      await platform.db.conversationSessions.update(session.id, { title })
+      this.sync.publish({ kind: 'session', userId: session.userId, sessionId: session.id })
+    } catch (error) {
+      console.error('Failed to save session title:', error)
     }
   }
 
@@ -385,140 +438,169 @@ export class MemoryManager {
     return Date.now() - session.context.lastActivity < oneHour
   }
 
-  private async extractAndUpdatePreferences(userMessage: string): Promise<void> {
+  private async extractAndUpdatePreferences(message: ConversationMessage): Promise<void> {
     if (!this.userPreferences) return
 
-    const message = userMessage.toLowerCase()
-    const updates: Partial<UserPreferences> = {}
+    const preferences = this.userPreferences
+    const updates: Partial<UserProfile> = {}
+    let sources = [...(preferences.preferenceSources || [])]
+    const record = (source: Omit<PreferenceSource, 'messageId' | 'sessionId' | 'timestamp'>) => {
+      sources = sources.filter(existing => !(existing.field === source.field && existing.value === source.value))
+      sources.push({ ...source, messageId: message.id, sessionId: this.currentSession?.id, timestamp: message.timestamp })
+    }
 
-    // Extract budget information - more comprehensive patterns
-    const budgetPatterns = [
-      /(?:under|below|maximum|max|budget|afford)\s*(?:npr|rs)?\s*([0-9,]+)/i,
-      /(?:npr|rs)\s*([0-9,]+)(?:\s*(?:per|\/)??\s*month)?/i,
-      /([0-9,]+)\s*(?:npr|rupees?|rs)/i,
-      /budget\s*(?:of|is|around)?\s*([0-9,]+)/i
-    ]
-    
-    for (const pattern of budgetPatterns) {
-      const budgetMatch = message.match(pattern)
-      if (budgetMatch) {
-        const budget = parseInt(budgetMatch[1].replace(/,/g, ''))
-        if (budget > 1000) { // Reasonable budget threshold
-          updates.priceRange = { 
-            min: this.userPreferences.priceRange?.min || 0, 
-            max: budget 
-          }
-        }
-        break
+    // Budget and bedrooms, read the same way the search tools read them
+    const understood = understandQuery(message.content)
+    if (understood.budget?.max) {
+      updates.priceRange = {
+        min: understood.budget.min ?? preferences.priceRange?.min ?? 0,
+        max: understood.budget.max
+      }
+    } else if (understood.budget?.min) {
+      updates.priceRange = {
+        min: understood.budget.min,
+        max: preferences.priceRange?.max || 0
       }
     }
+    if (understood.budget && updates.priceRange) {
+      sources = sources.filter(source => source.field !== 'priceRange')
+      record({ field: 'priceRange', value: understood.budget.text, confidence: 0.9, method: 'rules', quote: understood.budget.text })
+    }
 
-    // Extract bedroom preferences - more patterns
-    const bedroomPatterns = [
-      /(\d+)\s*(?:bed|bedroom|bhk|br)/i,
-      /(\d+)\s*room/i,
-      /(one|two|three|four|five)\s*(?:bed|bedroom|bhk)/i
-    ]
-    
-    for (const pattern of bedroomPatterns) {
-      const bedroomMatch = message.match(pattern)
-      if (bedroomMatch) {
-        let bedrooms: number
-        if (bedroomMatch[1].match(/\d+/)) {
-          bedrooms = parseInt(bedroomMatch[1])
-        } else {
-          // Convert word to number
-          const wordToNumber: { [key: string]: number } = {
-            'one': 1, 'two': 2, 'three': 3, 'four': 4, 'five': 5
-          }
-          bedrooms = wordToNumber[bedroomMatch[1]] || 0
-        }
-        if (bedrooms > 0 && bedrooms <= 10) {
-          updates.bedrooms = bedrooms
-        }
-        break
-      }
+    // "for rent" or "to buy" said outright; investors and listers keep their onboarding intent
+    if (understood.intent && !understood.intentInferred && (!preferences.intent || preferences.intent === 'rent' || preferences.intent === 'buy')) {
+      updates.intent = understood.intent === 'rent' ? 'rent' : 'buy'
     }
 
-    // Extract location preferences - expanded list
-    const locations = [
-      'kathmandu', 'lalitpur', 'bhaktapur', 'pokhara', 'chitwan', 'butwal',
-      'thamel', 'pulchowk', 'kupondole', 'baneshwor', 'new road', 'durbarmarg',
-      'godawari', 'patan', 'boudha', 'swayambhu', 'balaju', 'maharajgunj',
-      'lazimpat', 'naxal', 'panipokhari', 'sinamangal', 'koteshwor', 'un park'
-    ]
-    
-    const mentionedLocations = locations.filter(loc => {
-      // Check for exact match or as part of phrase like "in kathmandu" or "near thamel"
-      return message.includes(loc) || 
-             message.includes(`in ${loc}`) || 
-             message.includes(`near ${loc}`) ||
-             message.includes(`around ${loc}`)
-    })
-    
-    if (mentionedLocations.length > 0) {
-      const currentLocations = this.userPreferences.locations || []
-      updates.locations = [...new Set([...currentLocations, ...mentionedLocations])]
-    }
-
-    // Extract property type preferences - more comprehensive
-    const propertyTypeMap: { [key: string]: string } = {
-      'apartment': 'apartment',
-      'flat': 'apartment', 
-      'bhk': 'apartment',
-      'house': 'house',
-      'villa': 'house',
-      'bungalow': 'house',
-      'commercial': 'commercial',
-      'office': 'commercial',
-      'shop': 'commercial',
-      'restaurant': 'commercial',
-      'land': 'land',
-      'plot': 'land',
-      'studio': 'apartment',
-      'penthouse': 'apartment'
+    if (understood.bedrooms) {
+      updates.bedrooms = understood.bedrooms
+      sources = sources.filter(source => source.field !== 'bedrooms')
+      record({ field: 'bedrooms', value: String(understood.bedrooms), confidence: 0.9, method: 'rules' })
     }
-    
-    const mentionedTypes: string[] = []
-    for (const [keyword, type] of Object.entries(propertyTypeMap)) {
-      if (message.includes(keyword)) {
-        mentionedTypes.push(type)
+
+    // Places, property types, amenities and deal-breakers, including what the user
+    // rules out or takes back
+    const extraction = await extractPreferenceChanges(message.content, preferences)
+    const listValue = (field: PreferenceListField) => updates[field] ?? preferences[field] ?? []
+    const dropValue = (field: PreferenceListField, value: string) => {
+      if (listValue(field).includes(value)) {
+        updates[field] = listValue(field).filter(item => item !== value)
       }
-    }
-    
-    if (mentionedTypes.length > 0) {
-      const currentTypes = this.userPreferences.propertyType || []
-      updates.propertyType = [...new Set([...currentTypes, ...mentionedTypes])]
+      sources = sources.filter(source => !(source.field === field && source.value === value))
     }
 
-    // Extract family situation
-    if (message.includes('couple') || message.includes('family') || message.includes('kids') || message.includes('children')) {
-      const currentAmenities = this.userPreferences.amenities || []
-      if (!currentAmenities.includes('family-friendly')) {
-        updates.amenities = [...currentAmenities, 'family-friendly']
+    for (const change of extraction.changes) {
+      if (change.confidence < MIN_PREFERENCE_CONFIDENCE) continue
+
+      if (change.action === 'remove') {
+        dropValue(change.field, change.value)
+        continue
       }
+
+      updates[change.field] = [...new Set([...listValue(change.field), change.value])]
+      record({ field: change.field, value: change.value, confidence: change.confidence, method: extraction.method, quote: change.quote })
+      // Wanting a place and ruling it out cannot both hold; the latest message wins
+      if (change.field === 'locations') dropValue('excludedLocations', change.value)
+      if (change.field === 'excludedLocations') dropValue('locations', change.value)
     }
 
     if (Object.keys(updates).length > 0) {
       console.log('Extracted preferences from message:', updates)
-      await this.updateUserPreferences(updates)
+      await this.updateUserPreferences({ ...updates, preferenceSources: sources })
     }
   }
 
-  private trimMemoryIfNeeded(): void {
+  // Switches the stored language only on a confident detection, so a short reply like
+  // "2 bedrooms" in an otherwise Nepali conversation does not flip it back to English
+  private async updateLanguageFromMessage(userMessage: string): Promise<void> {
+    if (!this.userPreferences) return
+
+    const detection = detectLanguage(userMessage)
+    if (!detection.confident) return
+    if (detection.language === this.userPreferences.language && detection.script === this.userPreferences.languageScript) return
+
+    await this.updateUserPreferences({
+      language: detection.language,
+      ...(detection.script ? { languageScript: detection.script } : {})
+    })
+  }
+
+  // Trims the session once it passes the message or token limit, folding the trimmed
+  // messages into the session summary and the user's lasting facts
+  private async trimMemoryIfNeeded(): Promise<void> {
     if (!this.currentSession) return
 
-    // Keep system message + recent messages within limits
     const messages = this.currentSession.messages
-    if (messages.length > this.maxMessagesInMemory) {
-      const systemMessages = messages.filter(m => m.role === 'system')
-      const otherMessages = messages.filter(m => m.role !== 'system')
-      
-      this.currentSession.messages = [
-        ...systemMessages,
-        ...otherMessages.slice(-this.maxMessagesInMemory + systemMessages.length)
-      ]
+    const systemMessages = messages.filter(m => m.role === 'system')
+    const otherMessages = messages.filter(m => m.role !== 'system')
+    const withinLimits = (kept: ConversationMessage[]) =>
+      kept.length + systemMessages.length <= this.maxMessagesInMemory && this.estimateTokens(kept) <= this.maxTokensEstimate
+
+    if (withinLimits(otherMessages)) return
+
+    let keep = Math.max(2, this.maxMessagesInMemory - systemMessages.length - this.summaryBatchSize)
+    while (keep > 2 && !withinLimits(otherMessages.slice(-keep))) {
+      keep -= 2
+    }
+
+    const session = this.currentSession
+    const evicted = otherMessages.slice(0, -keep)
+    session.messages = [...systemMessages, ...otherMessages.slice(-keep)]
+    // Summaries and facts are memory too, so paused sessions just drop old messages
+    if (!this.isStored(session)) return
+
+    // Trimmed messages live on only in the summary, so they stay stored until it is saved
+    if (!await this.summarizeEvicted(session, evicted)) return
+    try {
+      await platform.db.conversationMessages.deleteMany({ where: { id: { in: evicted.map(m => m.id) } } })
+      this.sync.publish({ kind: 'messages', userId: session.userId, sessionId: session.id })
+    } catch (error) {
+      console.error('Failed to delete trimmed messages:', error)
+    }
+  }
+
+  // Folds trimmed messages into the stored summary. Another tab may trim the same
+  // messages at the same time, so the summary is rebuilt from whatever was stored last,
+  // leaving out messages it already covers, until a write goes through unchallenged.
+  // Returns whether the stored summary now covers the messages
+  private async summarizeEvicted(session: ConversationSession, evicted: ConversationMessage[]): Promise<boolean> {
+    for (let attempt = 0; attempt < MAX_CONTEXT_WRITE_ATTEMPTS; attempt++) {
+      const stored = await this.readSessionContext(session)
+      if (!stored) return false
+
+      const previous = stored.context.summary
+      const pending = evicted.filter(m => m.timestamp > (previous?.throughTimestamp || 0))
+      if (pending.length === 0) {
+        session.context = stored.context
+        session.version = stored.version
+        return true
+      }
+
+      const facts = this.userPreferences?.userFacts || []
+      const update = await summarizeEvictedMessages(previous, pending, facts)
+      const summary: SessionSummary = {
+        text: update.summary,
+        messageCount: (previous?.messageCount || 0) + pending.length,
+        throughTimestamp: pending[pending.length - 1].timestamp,
+        updatedAt: Date.now(),
+        ...(previous?.editedByUser ? { editedByUser: true } : {})
+      }
+      if (!await this.writeSessionContext(session, stored.version, { ...stored.context, summary })) continue
+
+      if (update.newFacts.length > 0 || update.outdatedFactIds.length > 0) {
+        const kept = facts.filter(fact => !update.outdatedFactIds.includes(fact.id))
+        const learned = update.newFacts.map(text => createUserFact(text, session.id))
+        await this.updateUserPreferences({ userFacts: [...kept, ...learned].slice(-MAX_USER_FACTS) })
+      }
+      return true
     }
+    console.warn('Session summary not saved after repeated conflicts:', session.id)
+    return false
+  }
+
+  // Rough approximation: 1 token ≈ 4 characters
+  private estimateTokens(messages: ConversationMessage[]): number {
+    return messages.reduce((sum, m) => sum + m.content.length / 4, 0)
   }
 
   private optimizeMessagesForContext(messages: ConversationMessage[]): ConversationMessage[] {
@@ -547,24 +629,101 @@ export class MemoryManager {
     return optimizedMessages
   }
 
-  private async persistSession(): Promise<void> {
-    if (!this.currentSession) return
+  private isStored(session: ConversationSession): boolean {
+    return !this.isMemoryPaused() && !this.unsavedSessionIds.has(session.id)
+  }
+
+  // Messages are appended as rows of their own, so two tabs adding to one session never
+  // overwrite each other. The session row only has its activity time bumped. Offline,
+  // both writes wait in the outbox
+  private async appendMessage(session: ConversationSession, message: ConversationMessage): Promise<void> {
+    if (!this.isStored(session)) return
 
+    this.pendingMessageIds.add(message.id)
     try {
-      // Map to database format
-      const dbSession = {
-        id: this.currentSession.id,
-        userId: this.currentSession.userId,
-        title: this.currentSession.title,
-        messages: JSON.stringify(this.currentSession.messages),
-        context: JSON.stringify(this.currentSession.context),
-        createdAt: this.currentSession.createdAt,
-        updatedAt: this.currentSession.updatedAt
+      const result = await writeOutbox.run({
+        table: 'conversationMessages',
+        action: 'create',
+        data: {
+          id: message.id,
+          sessionId: session.id,
+          userId: session.userId,
+          role: message.role,
+          content: message.content,
+          metadata: message.metadata ? JSON.stringify(message.metadata) : null,
+          timestamp: message.timestamp
+        }
+      })
+      await writeOutbox.run({ table: 'conversationSessions', action: 'update', rowId: session.id, data: { updatedAt: session.updatedAt } })
+      if (result === 'saved') {
+        this.pendingMessageIds.delete(message.id)
+        this.sync.publish({ kind: 'messages', userId: session.userId, sessionId: session.id })
       }
-      await blink.db.conversationSessions.update(this.currentSession.id, dbSession)
     } catch (error) {
-      console.error('Failed to persist session:', error)
+      console.error('Failed to save message:', error)
+      this.pendingMessageIds.delete(message.id)
     }
+    await this.keepOffline(session)
+  }
+
+  // The stored context and its version; for an unsaved session, the one in memory
+  private async readSessionContext(session: ConversationSession): Promise<{ context: ConversationSession['context']; version: number } | null> {
+    if (!this.isStored(session)) return { context: session.context, version: session.version }
+
+    try {
+      const row = await platform.db.conversationSessions.get(session.id)
+      if (!row) return null
+      return {
+        context: this.parseJsonField(row.context) || { lastActivity: session.context.lastActivity },
+        version: Number(row.version) || 0
+      }
+    } catch (error) {
+      console.error('Failed to read session context:', error)
+      return null
+    }
+  }
+
+  // Writes the context if the stored version is still the one it was built from, and
+  // reports whether it did. Tables have no conditional update, so the version is checked
+  // just before writing and the write is read back; a write that lands in between shows
+  // up as a mismatch and the caller rebuilds on top of it
+  private async writeSessionContext(session: ConversationSession, expectedVersion: number, context: ConversationSession['context']): Promise<boolean> {
+    if (!this.isStored(session)) {
+      session.context = context
+      return true
+    }
+
+    try {
+      const table = platform.db.conversationSessions
+      const before = await table.get(session.id)
+      if (!before || (Number(before.version) || 0) !== expectedVersion) return false
+
+      const serialized = JSON.stringify(context)
+      await table.update(session.id, { context: serialized, version: expectedVersion + 1 })
+      const after = await table.get(session.id)
+      if (after?.context !== serialized || (Number(after.version) || 0) !== expectedVersion + 1) return false
+
+      session.context = context
+      session.version = expectedVersion + 1
+      this.sync.publish({ kind: 'session', userId: session.userId, sessionId: session.id })
+      return true
+    } catch (error) {
+      console.error('Failed to save session context:', error)
+      return false
+    }
+  }
+
+  // Applies a change to the latest stored context, retrying when another tab wrote first
+  private async updateSessionContext(
+    session: ConversationSession,
+    change: (context: ConversationSession['context']) => ConversationSession['context']
+  ): Promise<void> {
+    for (let attempt = 0; attempt < MAX_CONTEXT_WRITE_ATTEMPTS; attempt++) {
+      const stored = await this.readSessionContext(session)
+      if (!stored) return
+      if (await this.writeSessionContext(session, stored.version, change(stored.context))) return
+    }
+    console.warn('Session context not saved after repeated conflicts:', session.id)
   }
 
   private parseJsonField(field: any): any {
@@ -580,56 +739,390 @@ export class MemoryManager {
     return null
   }
 
+  private fromDbMessage(dbMessage: any): ConversationMessage {
+    return {
+      id: dbMessage.id,
+      role: dbMessage.role,
+      content: dbMessage.content,
+      timestamp: Number(dbMessage.timestamp),
+      ...(dbMessage.metadata ? { metadata: this.parseJsonField(dbMessage.metadata) || undefined } : {})
+    }
+  }
+
+  private fromDbSession(dbSession: any, dbMessages: any[]): ConversationSession {
+    const context = this.parseJsonField(dbSession.context) || { lastActivity: Date.now() }
+    const messages = dbMessages.map(dbMessage => this.fromDbMessage(dbMessage))
+    // Sessions saved before messages had rows keep them in the messages column. Those
+    // already folded into the summary are left out; trimming them removes nothing stored
+    const rowIds = new Set(messages.map(m => m.id))
+    const summarizedThrough = context.summary?.throughTimestamp || 0
+    const older = ((this.parseJsonField(dbSession.messages) || []) as ConversationMessage[])
+      .filter(m => !rowIds.has(m.id) && m.timestamp > summarizedThrough)
+
+    return {
+      id: dbSession.id,
+      userId: dbSession.userId,
+      title: dbSession.title,
+      messages: [...older, ...messages].sort((a, b) => a.timestamp - b.timestamp),
+      // Appending bumps only updatedAt, so activity in other tabs counts as well
+      context: { ...context, lastActivity: Math.max(context.lastActivity || 0, Number(dbSession.updatedAt) || 0) },
+      createdAt: dbSession.createdAt,
+      updatedAt: dbSession.updatedAt,
+      version: Number(dbSession.version) || 0
+    }
+  }
+
+  // Session rows with their messages, fetched for all of them at once and saved on the
+  // device. Losing the connection midway throws, so a partial session is never saved
+  private async withMessages(dbSessions: any[]): Promise<ConversationSession[]> {
+    if (dbSessions.length === 0) return []
+
+    let dbMessages: any[] = []
+    try {
+      dbMessages = await platform.db.conversationMessages.list({
+        where: { sessionId: { in: dbSessions.map(dbSession => dbSession.id) } },
+        orderBy: { timestamp: 'asc' }
+      })
+    } catch (error) {
+      if (isConnectionError(error)) throw error
+      console.error('Failed to load conversation messages:', error)
+    }
+
+    const sessions = dbSessions.map(dbSession =>
+      this.fromDbSession(dbSession, dbMessages.filter(dbMessage => dbMessage.sessionId === dbSession.id))
+    )
+    for (const session of sessions) await this.keepOffline(session)
+    offlineStatus.report('conversations', { source: 'live' })
+    return sessions
+  }
+
+  private async keepOffline(session: ConversationSession): Promise<void> {
+    // Paused memory is not written anywhere, this device included
+    if (!this.isStored(session)) return
+    await offlineStore.put('sessions', session.id, { session, savedAt: Date.now() })
+  }
+
+  // The user's sessions saved on this device, most recently active first
+  private async savedSessions(userId: string): Promise<ConversationSession[]> {
+    const saved = (await offlineStore.getAll<SavedSession>('sessions'))
+      .filter(entry => entry.session.userId === userId)
+      .sort((a, b) => b.session.updatedAt - a.session.updatedAt)
+
+    if (saved.length > 0) {
+      offlineStatus.report('conversations', { source: 'cache', savedAt: Math.max(...saved.map(entry => entry.savedAt)) })
+    }
+    return saved.map(entry => entry.session)
+  }
+
+  private async forgetSavedSessions(userId: string): Promise<void> {
+    const saved = await offlineStore.getAll<SavedSession>('sessions')
+    for (const entry of saved) {
+      if (entry.session.userId === userId) await offlineStore.delete('sessions', entry.session.id)
+    }
+  }
+
+  // Writes of the user's conversations and profile still waiting for a connection.
+  // Session updates carry only the row id; the session's create comes first in the
+  // queue, or the session is saved on this device
+  private async discardQueuedWrites(userId: string): Promise<void> {
+    const saved = await offlineStore.getAll<SavedSession>('sessions')
+    const sessionIds = new Set(saved.filter(entry => entry.session.userId === userId).map(entry => entry.session.id))
+    if (this.currentSession?.userId === userId) sessionIds.add(this.currentSession.id)
+    const profileId = userProfileService.get()?.id
+
+    await writeOutbox.discard(write => {
+      if (write.data?.userId === userId) {
+        if (write.table === 'conversationSessions') sessionIds.add(write.data.id)
+        return true
+      }
+      if (write.table === 'userPreferences') return write.rowId === profileId
+      return write.table === 'conversationSessions' && sessionIds.has(write.rowId as string)
+    })
+  }
+
+  // Re-reads the open session from storage, keeping messages this tab is still saving.
+  // Returns null when the session has been deleted elsewhere
+  private async reloadCurrentSession(): Promise<ConversationSession | null> {
+    const session = this.currentSession
+    if (!session || !this.isStored(session)) return session
+
+    let stored: ConversationSession | undefined
+    try {
+      const rows = await platform.db.conversationSessions.list({ where: { id: session.id }, limit: 1 })
+      stored = (await this.withMessages(rows))[0]
+    } catch (error) {
+      // Offline, this tab's copy is the most recent there is
+      if (isConnectionError(error)) return session
+      throw error
+    }
+    if (!stored) return null
+    // Another reload or a session switch may have happened meanwhile
+    if (this.currentSession !== session) return this.currentSession
+
+    // Updated in place, since a message being added may still hold the session
+    const storedIds = new Set(stored.messages.map(m => m.id))
+    storedIds.forEach(id => this.pendingMessageIds.delete(id))
+    const saving = session.messages.filter(m => this.pendingMessageIds.has(m.id))
+    Object.assign(session, stored, { messages: [...stored.messages, ...saving] })
+    return session
+  }
+
+  getCurrentSessionId(): string | null {
+    return this.currentSession?.id || null
+  }
+
   async getConversationHistory(limit: number = 5): Promise<ConversationSession[]> {
     if (!this.currentSession) return []
 
     try {
-      const dbSessions = await blink.db.conversationSessions.list({
+      const dbSessions = await platform.db.conversationSessions.list({
         where: { userId: this.currentSession.userId },
         orderBy: { updatedAt: 'desc' },
         limit
       })
-      
-      // Map database format to interface format
-      return dbSessions.map(dbSession => ({
-        id: dbSession.id,
-        userId: dbSession.userId,
-        title: dbSession.title,
-        messages: this.parseJsonField(dbSession.messages) || [],
-        context: this.parseJsonField(dbSession.context) || { lastActivity: Date.now() },
-        createdAt: dbSession.createdAt,
-        updatedAt: dbSession.updatedAt
-      }))
+      return await this.withMessages(dbSessions)
     } catch (error) {
+      if (isConnectionError(error)) {
+        return (await this.savedSessions(this.currentSession.userId)).slice(0, limit)
+      }
       console.error('Failed to load conversation history:', error)
       return []
     }
   }
 
-  async loadSession(sessionId: string): Promise<void> {
+  async loadSession(sessionId: string): Promise<ConversationSession | null> {
     try {
-      const sessions = await blink.db.conversationSessions.list({
+      const sessions = await platform.db.conversationSessions.list({
         where: { id: sessionId },
         limit: 1
       })
 
-      if (sessions.length > 0) {
-        // Map database format to interface format
-        const dbSession = sessions[0]
-        this.currentSession = {
-          id: dbSession.id,
-          userId: dbSession.userId,
-          title: dbSession.title,
-          messages: this.parseJsonField(dbSession.messages) || [],
-          context: this.parseJsonField(dbSession.context) || { lastActivity: Date.now() },
-          createdAt: dbSession.createdAt,
-          updatedAt: dbSession.updatedAt
-        }
+      const [session] = await this.withMessages(sessions)
+      if (session) {
+        this.currentSession = session
+        this.chosenSessionId = this.currentSession.id
+        llmGateway.setSession(this.currentSession.id)
+        return this.currentSession
       }
     } catch (error) {
       console.error('Failed to load session:', error)
+      const saved = await offlineStore.get<SavedSession>('sessions', sessionId)
+      if (isConnectionError(error) && saved) {
+        offlineStatus.report('conversations', { source: 'cache', savedAt: saved.savedAt })
+        this.currentSession = saved.session
+        this.chosenSessionId = saved.session.id
+        llmGateway.setSession(saved.session.id)
+        return saved.session
+      }
+    }
+    return null
+  }
+
+  // A fresh chat on the user's request, whatever the age of the current one
+  async startNewSession(userId: string): Promise<ConversationSession> {
+    this.currentSession = await this.createNewSession(userId)
+    this.chosenSessionId = this.currentSession.id
+    llmGateway.setUser(userId)
+    llmGateway.setSession(this.currentSession.id)
+    return this.currentSession
+  }
+
+  async renameSession(sessionId: string, title: string): Promise<void> {
+    const cleaned = cleanSessionTitle(title)
+    if (!cleaned) return
+
+    if (this.currentSession?.id === sessionId) {
+      this.currentSession.title = cleaned
+    }
+    try {
+      // updatedAt is left alone so renaming does not reorder the list
+      await writeOutbox.run({ table: 'conversationSessions', action: 'update', rowId: sessionId, data: { title: cleaned } })
+      const saved = await offlineStore.get<SavedSession>('sessions', sessionId)
+      if (saved) await offlineStore.put('sessions', sessionId, { ...saved, session: { ...saved.session, title: cleaned } })
+      if (this.currentSession) {
+        this.sync.publish({ kind: 'session', userId: this.currentSession.userId, sessionId })
+      }
+    } catch (error) {
+      console.error('Failed to rename session:', error)
+    }
+  }
+
+  // Deleting the open session starts a new one in its place
+  async deleteSession(sessionId: string): Promise<void> {
+    try {
+      const session = await platform.db.conversationSessions.get(sessionId)
+      await platform.db.conversationMessages.deleteMany({ where: { sessionId } })
+      await platform.db.conversationSessions.delete(sessionId)
+      await offlineStore.delete('sessions', sessionId)
+      if (session) this.sync.publish({ kind: 'deleted', userId: session.userId, sessionId })
+    } catch (error) {
+      console.error('Failed to delete session:', error)
+      return
+    }
+
+    if (this.currentSession?.id === sessionId) {
+      await this.startNewSession(this.currentSession.userId)
+    }
+  }
+
+  // Every word of the query must appear somewhere in the session's title, summary or
+  // messages; sessions with more hits come first, title hits counting triple
+  async searchSessions(query: string, limit: number = 50): Promise<SessionSearchResult[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 0)
+    if (terms.length === 0) return []
+
+    const sessions = await this.getConversationHistory(limit)
+    const results: SessionSearchResult[] = []
+
+    for (const session of sessions) {
+      const title = session.title.toLowerCase()
+      const texts = [
+        session.context.summary?.text || '',
+        ...session.messages.filter(m => m.role !== 'system').map(m => m.content)
+      ].filter(Boolean)
+      const body = texts.join('\n').toLowerCase()
+
+      if (!terms.every(term => title.includes(term) || body.includes(term))) continue
+
+      const count = (text: string, term: string) => text.split(term).length - 1
+      const matches = terms.reduce((sum, term) => sum + count(title, term) * 3 + count(body, term), 0)
+      const snippetSource = texts.find(text => terms.some(term => text.toLowerCase().includes(term)))
+      results.push({
+        session,
+        snippet: snippetSource ? snippetAround(snippetSource, terms) : '',
+        matches
+      })
+    }
+
+    return results.sort((a, b) => b.matches - a.matches || b.session.updatedAt - a.session.updatedAt)
+  }
+
+  isMemoryPaused(): boolean {
+    return !!this.userPreferences?.memoryPaused
+  }
+
+  // The pause is a setting, so it is saved even though it stops everything else being saved.
+  // Resuming leaves the unsaved paused chat behind and starts one that is stored
+  async setMemoryPaused(userId: string, paused: boolean): Promise<void> {
+    await this.ensurePreferences(userId)
+    await this.updateUserPreferences({ memoryPaused: paused })
+
+    if (!paused && this.currentSession && this.unsavedSessionIds.has(this.currentSession.id)) {
+      await this.startNewSession(userId)
+    }
+  }
+
+  async exportMemory(userId: string): Promise<MemoryExport> {
+    await this.ensurePreferences(userId)
+
+    let sessions: ConversationSession[] = []
+    try {
+      const dbSessions = await platform.db.conversationSessions.list({
+        where: { userId },
+        orderBy: { createdAt: 'asc' }
+      })
+      sessions = await this.withMessages(dbSessions)
+    } catch (error) {
+      console.error('Failed to export conversation sessions:', error)
+    }
+
+    return {
+      preferences: this.userPreferences?.userId === userId ? this.userPreferences : null,
+      sessions
     }
   }
+
+  // Deletes every session and everything learned about the user. Settings the user chose
+  // (Devanagari numerals, the memory pause) are kept
+  async wipeAllMemory(userId: string): Promise<void> {
+    await this.ensurePreferences(userId)
+    // Before the rows go, so a flush cannot send them back afterwards
+    await this.discardQueuedWrites(userId)
+
+    try {
+      await platform.db.conversationMessages.deleteMany({ where: { userId } })
+      await platform.db.conversationSessions.deleteMany({ where: { userId } })
+    } catch (error) {
+      console.error('Failed to delete conversation sessions:', error)
+    }
+    await this.forgetSavedSessions(userId)
+    await simplePropertyService.forgetSavedFavorites(userId)
+
+    await this.updateUserPreferences({
+      intent: undefined,
+      householdType: undefined,
+      propertyType: [],
+      priceRange: undefined,
+      locations: [],
+      excludedLocations: [],
+      bedrooms: undefined,
+      amenities: [],
+      dealBreakers: [],
+      preferenceSources: [],
+      userFacts: [],
+      searchHistory: [],
+      viewedProperties: [],
+      favoriteProperties: [],
+      communicationStyle: 'detailed',
+      language: 'en',
+      languageScript: undefined
+    })
+
+    this.unsavedSessionIds.clear()
+    await this.startNewSession(userId)
+    // Sent once the new session exists, so other tabs can move into it
+    this.sync.publish({ kind: 'cleared', userId })
+  }
+
+  // The privacy controls can be used before the chat has opened a session
+  private async ensurePreferences(userId: string): Promise<void> {
+    if (this.userPreferences?.userId !== userId) {
+      await this.loadUserPreferences(userId)
+    }
+  }
+
+  // Called after a change made in another tab or on another device has been applied
+  // here: the open session re-read, or replaced when it was deleted
+  onSessionChange(listener: (change: SessionChange) => void): () => void {
+    this.sessionListeners.add(listener)
+    return () => {
+      this.sessionListeners.delete(listener)
+    }
+  }
+
+  private async handleRemoteChange(change: SessionChange): Promise<void> {
+    const session = this.currentSession
+    if (!session || session.userId !== change.userId) return
+
+    try {
+      if (change.kind === 'cleared' || (change.kind === 'deleted' && change.sessionId === session.id)) {
+        // Usually lands in the session the other tab opened in its place
+        if (this.isStored(session)) {
+          this.chosenSessionId = null
+          this.currentSession = await this.latestOrNewSession(session.userId)
+          llmGateway.setSession(this.currentSession.id)
+        }
+      } else if (change.sessionId === session.id) {
+        if (!await this.reloadCurrentSession()) {
+          this.currentSession = await this.latestOrNewSession(session.userId)
+          llmGateway.setSession(this.currentSession.id)
+        }
+      }
+    } catch (error) {
+      console.error('Failed to apply a change from another tab:', error)
+    }
+
+    for (const listener of this.sessionListeners) listener(change)
+  }
+}
+
+function snippetAround(text: string, terms: string[]): string {
+  const lower = text.toLowerCase()
+  const index = Math.min(...terms.map(term => lower.indexOf(term)).filter(i => i >= 0))
+  const start = Math.max(0, index - 40)
+  const end = Math.min(text.length, index + 80)
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim()
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`
 }
 
-export const memoryManager = new MemoryManager()
\ No newline at end of file
+export const memoryManager = new MemoryManager()
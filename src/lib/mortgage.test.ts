@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import {
+  LOAN_INPUT_LIMITS,
+  buildAmortizationSchedule,
+  calculateAffordability,
+  calculateEmi,
+  loanInputError,
+  principalForEmi,
+  summarizeByYear,
+  summarizeLoan
+} from './mortgage'
+
+// principal, annual rate %, months, EMI
+const EMI_CASES: Array<[number, number, number, number]> = [
+  [1000000, 12, 12, 88848.79],
+  [5000000, 10.5, 240, 49918.99],
+  [1200000, 0, 12, 100000]
+]
+
+describe('calculateEmi', () => {
+  it.each(EMI_CASES)('repays %d at %d%% over %d months with %d a month', (principal, rate, months, emi) => {
+    expect(calculateEmi(principal, rate, months)).toBeCloseTo(emi, 2)
+  })
+
+  it.each(EMI_CASES)('is undone by principalForEmi for %d at %d%% over %d months', (principal, rate, months) => {
+    expect(principalForEmi(calculateEmi(principal, rate, months), rate, months)).toBeCloseTo(principal, 4)
+  })
+})
+
+describe('buildAmortizationSchedule', () => {
+  const schedule = buildAmortizationSchedule(1000000, 12, 12)
+
+  it('has one row a month and ends with nothing owed', () => {
+    expect(schedule).toHaveLength(12)
+    expect(schedule[11].balance).toBe(0)
+  })
+
+  it('repays exactly the principal', () => {
+    expect(schedule.reduce((sum, row) => sum + row.principal, 0)).toBeCloseTo(1000000, 4)
+  })
+
+  it('charges a month of interest on the opening balance', () => {
+    expect(schedule[0].interest).toBeCloseTo(10000, 6)
+    expect(schedule[0].payment).toBeCloseTo(88848.79, 2)
+  })
+
+  it('sums into years, keeping the balance at each year end', () => {
+    const years = summarizeByYear(buildAmortizationSchedule(1000000, 12, 18))
+    expect(years.map(year => year.year)).toEqual([1, 2])
+    expect(years[0].balance).toBeCloseTo(buildAmortizationSchedule(1000000, 12, 18)[11].balance, 6)
+    expect(years[1].balance).toBe(0)
+  })
+})
+
+describe('summarizeLoan', () => {
+  it('rounds the tenure to whole months and totals the payments', () => {
+    const loan = summarizeLoan(1000000, 12, 1)
+    expect(loan.months).toBe(12)
+    expect(loan.totalPayment).toBeCloseTo(loan.emi * 12, 2)
+    expect(loan.totalInterest).toBeCloseTo(loan.totalPayment - 1000000, 6)
+  })
+})
+
+describe('calculateAffordability', () => {
+  it('is limited by income when repayments run out first', () => {
+    const result = calculateAffordability({ monthlyIncome: 100000, monthlyObligations: 10000, downPayment: 3000000, tenureYears: 20, annualRate: 10.5 })
+    // Half of income may go to repayments, less what is already owed each month
+    expect(result.maxEmi).toBe(40000)
+    expect(result.limitedBy).toBe('income')
+    expect(result.maxLoanAmount).toBeCloseTo(principalForEmi(40000, 10.5, 240), 4)
+    expect(result.maxPropertyPrice).toBeCloseTo(result.maxLoanAmount + 3000000, 4)
+  })
+
+  it('is limited by the down payment under the loan-to-value cap', () => {
+    const result = calculateAffordability({ monthlyIncome: 1000000, monthlyObligations: 0, downPayment: 3000000, tenureYears: 20, annualRate: 10.5 })
+    expect(result.limitedBy).toBe('down_payment')
+    // A 70% loan-to-value cap makes NPR 3M the 30% deposit on NPR 10M
+    expect(result.maxPropertyPrice).toBeCloseTo(10000000, 4)
+    expect(result.maxLoanAmount).toBeCloseTo(7000000, 4)
+  })
+
+  it('never goes below zero when obligations exceed the repayment share', () => {
+    const result = calculateAffordability({ monthlyIncome: 50000, monthlyObligations: 40000, downPayment: 0, tenureYears: 20, annualRate: 10.5 })
+    expect(result.maxEmi).toBe(0)
+    expect(result.maxLoanAmount).toBe(0)
+  })
+})
+
+describe('loanInputError', () => {
+  it.each([
+    [20, 10.5],
+    [1 / 12, 10.5],
+    [LOAN_INPUT_LIMITS.maxTenureYears, LOAN_INPUT_LIMITS.maxAnnualRate],
+    [20, 0]
+  ])('accepts %d years at %d%%', (years, rate) => {
+    expect(loanInputError(years, rate)).toBeNull()
+  })
+
+  it.each([
+    // Rounds to no instalments at all
+    [0, 10.5],
+    [0.01, 10.5],
+    // Would build a schedule of over a million rows
+    [100000, 10.5],
+    [-5, 10.5],
+    [Number.NaN, 10.5]
+  ])('rejects a tenure of %d years', (years, rate) => {
+    expect(loanInputError(years, rate)).toMatch(/^Tenure/)
+  })
+
+  it.each([-1, 250, Number.POSITIVE_INFINITY])('rejects a rate of %d%%', (rate) => {
+    expect(loanInputError(20, rate)).toMatch(/^Interest rate/)
+  })
+})
@@ -0,0 +1,148 @@
+import { LENDING_LIMITS, type LendingLimits } from './loanRates'
+
+export interface AmortizationRow {
+  month: number
+  payment: number
+  principal: number
+  interest: number
+  balance: number
+}
+
+export interface AmortizationYear {
+  year: number
+  principal: number
+  interest: number
+  balance: number
+}
+
+export interface LoanSummary {
+  principal: number
+  annualRate: number
+  months: number
+  emi: number
+  totalInterest: number
+  totalPayment: number
+  schedule: AmortizationRow[]
+}
+
+export interface AffordabilityInput {
+  monthlyIncome: number
+  monthlyObligations: number
+  downPayment: number
+  tenureYears: number
+  annualRate: number
+  limits?: Partial<LendingLimits>
+}
+
+export interface AffordabilityResult {
+  maxEmi: number
+  maxLoanAmount: number
+  maxPropertyPrice: number
+  // Which constraint capped the price: repayment capacity or the loan-to-value rule
+  limitedBy: 'income' | 'down_payment'
+  limits: LendingLimits
+}
+
+// Inputs beyond these are typos rather than loans a bank would write. A tenure under a
+// month leaves no instalment to repay with, and the schedule is built month by month
+export const LOAN_INPUT_LIMITS = {
+  maxTenureYears: 40,
+  maxAnnualRate: 30
+}
+
+// Why a tenure and rate cannot be calculated with, or null when they can
+export function loanInputError(tenureYears: number, annualRatePercent: number): string | null {
+  if (!Number.isFinite(tenureYears) || Math.round(tenureYears * 12) < 1 || tenureYears > LOAN_INPUT_LIMITS.maxTenureYears) {
+    return `Tenure must be from one month to ${LOAN_INPUT_LIMITS.maxTenureYears} years.`
+  }
+  if (!Number.isFinite(annualRatePercent) || annualRatePercent < 0 || annualRatePercent > LOAN_INPUT_LIMITS.maxAnnualRate) {
+    return `Interest rate must be from 0% to ${LOAN_INPUT_LIMITS.maxAnnualRate}% a year.`
+  }
+  return null
+}
+
+// Equated monthly instalment for a fully amortising loan
+export function calculateEmi(principal: number, annualRatePercent: number, months: number): number {
+  const monthlyRate = annualRatePercent / 12 / 100
+  if (monthlyRate === 0) return principal / months
+  const growth = Math.pow(1 + monthlyRate, months)
+  return (principal * monthlyRate * growth) / (growth - 1)
+}
+
+// Inverse of calculateEmi: the largest principal a given instalment can repay
+export function principalForEmi(emi: number, annualRatePercent: number, months: number): number {
+  const monthlyRate = annualRatePercent / 12 / 100
+  if (monthlyRate === 0) return emi * months
+  return (emi * (1 - Math.pow(1 + monthlyRate, -months))) / monthlyRate
+}
+
+export function buildAmortizationSchedule(principal: number, annualRatePercent: number, months: number): AmortizationRow[] {
+  const monthlyRate = annualRatePercent / 12 / 100
+  const emi = calculateEmi(principal, annualRatePercent, months)
+  const schedule: AmortizationRow[] = []
+  let balance = principal
+
+  for (let month = 1; month <= months; month++) {
+    const interest = balance * monthlyRate
+    // The last instalment clears whatever rounding left on the balance
+    const principalPaid = month === months ? balance : emi - interest
+    balance = Math.max(0, balance - principalPaid)
+    schedule.push({ month, payment: principalPaid + interest, principal: principalPaid, interest, balance })
+  }
+
+  return schedule
+}
+
+export function summarizeByYear(schedule: AmortizationRow[]): AmortizationYear[] {
+  const years: AmortizationYear[] = []
+  for (const row of schedule) {
+    const index = Math.ceil(row.month / 12) - 1
+    if (!years[index]) {
+      years[index] = { year: index + 1, principal: 0, interest: 0, balance: row.balance }
+    }
+    years[index].principal += row.principal
+    years[index].interest += row.interest
+    years[index].balance = row.balance
+  }
+  return years
+}
+
+export function summarizeLoan(principal: number, annualRatePercent: number, tenureYears: number): LoanSummary {
+  const months = Math.round(tenureYears * 12)
+  const schedule = buildAmortizationSchedule(principal, annualRatePercent, months)
+  const totalPayment = schedule.reduce((sum, row) => sum + row.payment, 0)
+
+  return {
+    principal,
+    annualRate: annualRatePercent,
+    months,
+    emi: calculateEmi(principal, annualRatePercent, months),
+    totalInterest: totalPayment - principal,
+    totalPayment,
+    schedule
+  }
+}
+
+export function calculateAffordability(input: AffordabilityInput): AffordabilityResult {
+  const limits: LendingLimits = { ...LENDING_LIMITS, ...input.limits }
+  const months = Math.round(input.tenureYears * 12)
+
+  const maxEmi = Math.max(0, input.monthlyIncome * limits.maxDebtToIncome - input.monthlyObligations)
+  const loanByIncome = principalForEmi(maxEmi, input.annualRate, months)
+  // With a fixed down payment, the loan-to-value cap limits the price to downPayment / (1 - LTV)
+  const priceByDownPayment = limits.maxLoanToValue >= 1
+    ? Infinity
+    : input.downPayment / (1 - limits.maxLoanToValue)
+  const priceByIncome = loanByIncome + input.downPayment
+
+  const limitedBy = priceByIncome <= priceByDownPayment ? 'income' : 'down_payment'
+  const maxPropertyPrice = Math.min(priceByIncome, priceByDownPayment)
+
+  return {
+    maxEmi,
+    maxLoanAmount: Math.max(0, maxPropertyPrice - input.downPayment),
+    maxPropertyPrice,
+    limitedBy,
+    limits
+  }
+}
@@ -0,0 +1,112 @@
+// Detects whether a message is written in Nepali, in Devanagari or in Latin letters
+// (Romanized Nepali), and formats prices the way Nepali readers expect them.
+
+export type AppLanguage = 'en' | 'ne'
+export type NepaliScript = 'devanagari' | 'romanized'
+
+export interface LanguageDetection {
+  language: AppLanguage
+  // Only set for Nepali
+  script?: NepaliScript
+  // False when the text is too short or mixed to tell, e.g. "2 bedrooms" or "Rent".
+  // Callers should keep whatever language they had rather than switch on a guess
+  confident: boolean
+}
+
+// The language a reply is written in, once an uncertain detection has been settled
+// against the conversation so far and the user's stored preference
+export interface ReplyLanguage {
+  language: AppLanguage
+  script?: NepaliScript
+  devanagariNumerals?: boolean
+}
+
+export interface PriceFormatOptions extends Partial<ReplyLanguage> {
+  // "/month" style suffix for rent
+  perMonth?: boolean
+}
+
+const DEVANAGARI_LETTER = /[ऀ-ॿ]/g
+const LATIN_LETTER = /[a-z]/gi
+const DEVANAGARI_DIGITS = ['०', '१', '२', '३', '४', '५', '६', '७', '८', '९']
+
+// Everyday Romanized Nepali words. Units like lakh, crore, aana and ropani are left
+// out: English speakers in Nepal use them too
+const ROMANIZED_NEPALI_WORDS = new Set([
+  'malai', 'mero', 'meri', 'hamro', 'hami', 'tapai', 'tapain', 'timi', 'uni', 'yo', 'tyo',
+  'cha', 'chha', 'xa', 'chaina', 'chhaina', 'xaina', 'ho', 'hoina', 'thiyo', 'huncha', 'hunchha', 'hunxa', 'hola',
+  'chahiyo', 'chaiyo', 'chahincha', 'chahinchha', 'chainxa', 'chaheko', 'chahanchu', 'khojdai', 'khojeko', 'khojnu',
+  'kinna', 'kinne', 'kinnu', 'bechna', 'bechne', 'bechnu', 'dinus', 'dinuhos', 'dekhaunus', 'bataunus', 'garnus',
+  'kati', 'kaha', 'kahan', 'kasto', 'kun', 'kina', 'kasari', 'kohi',
+  'ghar', 'kotha', 'bhada', 'bhadama', 'bhaadama', 'bhaada', 'jagga', 'jaggaa', 'pasal', 'flatma',
+  'sasto', 'mahango', 'ramro', 'naramro', 'thulo', 'sano', 'najik', 'nera', 'tira', 'bhanda', 'samma',
+  'rupaiya', 'rupaiyan', 'mahina', 'mahinako', 'barsa', 'parcha', 'parchha', 'parxa', 'sakcha', 'sakchha',
+  'ani', 'pani', 'ta', 'lai', 'ko', 'ki', 'ka', 'ma', 'le', 'bata', 'dekhi', 'sanga', 'wala', 'wali',
+  'namaste', 'dhanyabad', 'hajur', 'huss', 'ali', 'dherai', 'ekdam'
+])
+
+// Short words that also read as English ("ma", "ta", "ko", "ali") only count once
+// something unambiguous has been seen
+const AMBIGUOUS_WORDS = new Set(['ma', 'ta', 'ko', 'ki', 'ka', 'le', 'yo', 'ho', 'ali', 'uni', 'kun', 'sano', 'tira'])
+
+export function detectLanguage(text: string): LanguageDetection {
+  const devanagari = text.match(DEVANAGARI_LETTER)?.length || 0
+  const latin = text.match(LATIN_LETTER)?.length || 0
+
+  if (devanagari > 0 && devanagari >= latin) {
+    return { language: 'ne', script: 'devanagari', confident: devanagari >= 3 }
+  }
+
+  const words = text.toLowerCase().match(/[a-z]+/g) || []
+  const nepaliWords = words.filter(word => ROMANIZED_NEPALI_WORDS.has(word))
+  const distinctive = nepaliWords.filter(word => !AMBIGUOUS_WORDS.has(word))
+  const share = words.length > 0 ? nepaliWords.length / words.length : 0
+
+  if (distinctive.length >= 2 || (distinctive.length === 1 && share >= 0.3)) {
+    return { language: 'ne', script: 'romanized', confident: distinctive.length >= 2 || words.length >= 3 }
+  }
+
+  return { language: 'en', confident: words.length >= 3 }
+}
+
+export function toDevanagariDigits(text: string): string {
+  return text.replace(/[0-9]/g, digit => DEVANAGARI_DIGITS[Number(digit)])
+}
+
+// Groups digits the South Asian way: 12,34,56,789
+export function formatNepaliNumber(value: number, devanagariNumerals = false): string {
+  const [whole, fraction] = Math.abs(value).toString().split('.')
+  const lastThree = whole.slice(-3)
+  const rest = whole.slice(0, -3).replace(/\B(?=(\d{2})+(?!\d))/g, ',')
+  const grouped = `${value < 0 ? '-' : ''}${rest ? `${rest},` : ''}${lastThree}${fraction ? `.${fraction}` : ''}`
+  return devanagariNumerals ? toDevanagariDigits(grouped) : grouped
+}
+
+// "NPR 1.25 crore", "Rs. 45 lakh", "रु. ४५ लाख", "रु. ३५,०००/महिना"
+export function formatNepaliPrice(amount: number, options: PriceFormatOptions = {}): string {
+  const devanagariScript = options.language === 'ne' && options.script !== 'romanized'
+  const currency = options.language === 'ne' ? (devanagariScript ? 'रु.' : 'Rs.') : 'NPR'
+  const units = devanagariScript ? { crore: 'करोड', lakh: 'लाख' } : { crore: 'crore', lakh: 'lakh' }
+  const perMonth = devanagariScript ? '/महिना' : '/month'
+  const rounded = Math.round(amount)
+  const decimals = (value: number) => String(Number(value.toFixed(2)))
+
+  const figure = rounded >= 10000000
+    ? `${decimals(rounded / 10000000)} ${units.crore}`
+    : rounded >= 100000
+      ? `${decimals(rounded / 100000)} ${units.lakh}`
+      : formatNepaliNumber(rounded)
+  const text = `${currency} ${figure}${options.perMonth ? perMonth : ''}`
+  return options.devanagariNumerals ? toDevanagariDigits(text) : text
+}
+
+// Prompt section telling the model which language to answer in. Empty for English
+export function languageInstruction(reply: ReplyLanguage): string {
+  if (reply.language !== 'ne') return ''
+  const example = formatNepaliPrice(4500000, reply)
+  const largeExample = formatNepaliPrice(12500000, reply)
+  const script = reply.script === 'romanized'
+    ? 'Romanized Nepali (Nepali written in Latin letters, the way the user writes it)'
+    : 'Nepali in Devanagari script'
+  return `The user writes in ${script}. Write everything addressed to the user in ${script}, keeping place and listing names as they are written. Write prices in lakh and crore, e.g. "${example}" or "${largeExample}"${reply.devanagariNumerals ? ', with Devanagari numerals' : ''}, never in millions.`
+}
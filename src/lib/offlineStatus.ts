@@ -0,0 +1,46 @@
+// Where each part of the app got the data it is showing, so the UI can say when it is
+// a copy saved on this device rather than what the server has now
+
+export type DataSource =
+  | 'live'
+  // Saved on this device the last time the server answered
+  | 'cache'
+  // Built-in examples, when there was neither a connection nor a saved copy
+  | 'sample'
+
+export type OfflineArea = 'listings' | 'conversations'
+
+export interface AreaStatus {
+  source: DataSource
+  // When the cached copy was saved
+  savedAt?: number
+}
+
+export type OfflineAreas = Partial<Record<OfflineArea, AreaStatus>>
+
+type OfflineStatusListener = (areas: OfflineAreas) => void
+
+export class OfflineStatus {
+  private areas: OfflineAreas = {}
+  private listeners = new Set<OfflineStatusListener>()
+
+  get(): OfflineAreas {
+    return this.areas
+  }
+
+  report(area: OfflineArea, status: AreaStatus): void {
+    const previous = this.areas[area]
+    if (previous?.source === status.source && previous.savedAt === status.savedAt) return
+    this.areas = { ...this.areas, [area]: status }
+    for (const listener of this.listeners) listener(this.areas)
+  }
+
+  onChange(listener: OfflineStatusListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+}
+
+export const offlineStatus = new OfflineStatus()
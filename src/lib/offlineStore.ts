@@ -0,0 +1,88 @@
+// Data kept on this device so the app has something to show without a connection, and
+// writes waiting for one. Backed by IndexedDB; where that is unavailable (some private
+// windows, scripts run in Node) it is held in memory for the life of the page
+
+export type OfflineStoreName = 'listings' | 'favorites' | 'sessions' | 'profiles' | 'outbox'
+
+const DB_NAME = 'realestate-ai-offline'
+const DB_VERSION = 1
+const STORE_NAMES: OfflineStoreName[] = ['listings', 'favorites', 'sessions', 'profiles', 'outbox']
+
+const completed = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+export class OfflineStore {
+  private database: Promise<IDBDatabase | null> | null = null
+  private memory = new Map<OfflineStoreName, Map<string, any>>()
+
+  async get<T>(store: OfflineStoreName, key: string): Promise<T | undefined> {
+    return this.run(store, 'readonly', objectStore => objectStore.get(key), values => values.get(key))
+  }
+
+  async getAll<T>(store: OfflineStoreName): Promise<T[]> {
+    return this.run(store, 'readonly', objectStore => objectStore.getAll(), values => Array.from(values.values()))
+  }
+
+  async put(store: OfflineStoreName, key: string, value: unknown): Promise<void> {
+    await this.run(store, 'readwrite', objectStore => objectStore.put(value, key), values => {
+      values.set(key, value)
+    })
+  }
+
+  async delete(store: OfflineStoreName, key: string): Promise<void> {
+    await this.run(store, 'readwrite', objectStore => objectStore.delete(key), values => {
+      values.delete(key)
+    })
+  }
+
+  async clear(store: OfflineStoreName): Promise<void> {
+    await this.run(store, 'readwrite', objectStore => objectStore.clear(), values => values.clear())
+  }
+
+  // Runs the request against IndexedDB, or the same operation on the in-memory copy
+  private async run<T>(
+    store: OfflineStoreName,
+    mode: IDBTransactionMode,
+    request: (objectStore: IDBObjectStore) => IDBRequest,
+    inMemory: (values: Map<string, any>) => T
+  ): Promise<T> {
+    const database = await this.open()
+    if (database) {
+      try {
+        return await completed(request(database.transaction(store, mode).objectStore(store)))
+      } catch (error) {
+        console.warn('Offline store request failed, using memory:', error)
+      }
+    }
+
+    if (!this.memory.has(store)) this.memory.set(store, new Map())
+    return inMemory(this.memory.get(store) as Map<string, any>)
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.database) {
+      this.database = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null)
+          return
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          for (const name of STORE_NAMES) {
+            if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => {
+          console.warn('IndexedDB unavailable, offline data kept in memory:', request.error)
+          resolve(null)
+        }
+      })
+    }
+    return this.database
+  }
+}
+
+export const offlineStore = new OfflineStore()
@@ -0,0 +1,99 @@
+import type {
+  BlinkData,
+  BlinkRealtime,
+  ObjectGenerationRequest,
+  ObjectGenerationResponse,
+  SearchResponse,
+  TableOperations,
+  TextGenerationRequest,
+  TextGenerationResponse
+} from '@blinkdotnew/sdk'
+import { blink } from './blink'
+
+export type PlatformTableName = 'properties' | 'conversationSessions' | 'conversationMessages' | 'userPreferences'
+
+// The SDK's search takes no signal; the platform layer adds one (see abortable below)
+export type SearchOptions = NonNullable<Parameters<BlinkData['search']>[1]> & { signal?: AbortSignal }
+export type FetchRequest = Parameters<BlinkData['fetch']>[0]
+export type FetchResponse = Awaited<ReturnType<BlinkData['fetch']>>
+
+export interface PlatformAI {
+  generateText(request: TextGenerationRequest): Promise<TextGenerationResponse>
+  generateObject(request: ObjectGenerationRequest): Promise<ObjectGenerationResponse>
+}
+
+export interface PlatformData {
+  search(query: string, options?: SearchOptions): Promise<SearchResponse>
+  fetch(request: FetchRequest): Promise<FetchResponse>
+}
+
+// Pub/sub between the user's devices, used to tell other sessions that stored data changed
+export type PlatformRealtime = Pick<BlinkRealtime, 'subscribe' | 'publish'>
+
+// The part of the Blink client the search and agent pipeline depends on. Everything
+// in src/lib goes through `platform` rather than `blink`, so a run can be pointed at
+// an in-memory client with no network (see inMemoryPlatformClient.ts)
+export interface PlatformClient {
+  ai: PlatformAI
+  db: Record<PlatformTableName, TableOperations>
+  data: PlatformData
+  realtime: PlatformRealtime
+}
+
+// Settles as soon as the signal aborts. The request itself keeps running, but the
+// caller stops waiting on it and the response is dropped
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  signal.throwIfAborted()
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+// The SDK resolves tables by name at runtime, so they are looked up explicitly here
+export const blinkPlatformClient: PlatformClient = {
+  ai: blink.ai,
+  db: {
+    properties: blink.db.table('properties'),
+    conversationSessions: blink.db.table('conversationSessions'),
+    conversationMessages: blink.db.table('conversationMessages'),
+    userPreferences: blink.db.table('userPreferences')
+  },
+  data: {
+    search: (query, { signal, ...options } = {}) => abortable(blink.data.search(query, options), signal),
+    fetch: request => blink.data.fetch(request)
+  },
+  realtime: blink.realtime
+}
+
+let activeClient: PlatformClient = blinkPlatformClient
+
+// Reads through to whichever client is installed, so the module singletons pick up
+// a replacement without being reconstructed
+export const platform: PlatformClient = {
+  get ai() {
+    return activeClient.ai
+  },
+  get db() {
+    return activeClient.db
+  },
+  get data() {
+    return activeClient.data
+  },
+  get realtime() {
+    return activeClient.realtime
+  }
+}
+
+// Installs a client for every caller of `platform` and returns the one it replaced
+export function setPlatformClient(client: PlatformClient): PlatformClient {
+  const previous = activeClient
+  activeClient = client
+  return previous
+}
+
+export function resetPlatformClient(): void {
+  activeClient = blinkPlatformClient
+}
@@ -0,0 +1,203 @@
+import { llmGateway } from './llmGateway'
+import type { UserProfile } from './userProfile'
+
+// Reads what a chat message says about the places, property types and features a user
+// wants or refuses. Budgets and bedroom counts are read by queryUnderstanding instead,
+// so amounts like "50 lakh" are parsed the same way everywhere.
+
+export type PreferenceListField = 'locations' | 'excludedLocations' | 'propertyType' | 'amenities' | 'dealBreakers'
+
+export const PREFERENCE_LIST_FIELDS: Record<PreferenceListField, string> = {
+  locations: 'Preferred locations',
+  excludedLocations: 'Places to avoid',
+  propertyType: 'Property types',
+  amenities: 'Wanted amenities',
+  dealBreakers: 'Deal-breakers'
+}
+
+export interface PreferenceChange {
+  field: PreferenceListField
+  // 'remove' takes back a saved value the user has corrected or withdrawn
+  action: 'add' | 'remove'
+  value: string
+  // 0 to 1; changes below MIN_PREFERENCE_CONFIDENCE are not applied
+  confidence: number
+  // The words in the message the change rests on
+  quote?: string
+}
+
+export interface PreferenceExtraction {
+  changes: PreferenceChange[]
+  method: 'llm' | 'rules'
+}
+
+export const MIN_PREFERENCE_CONFIDENCE = 0.5
+
+// Where a stored preference came from, so the user can see why the assistant thinks
+// it and take it back. Budgets and bedrooms are recorded here too
+export interface PreferenceSource {
+  field: PreferenceListField | 'bedrooms' | 'priceRange'
+  value: string
+  messageId: string
+  sessionId?: string
+  timestamp: number
+  confidence: number
+  // 'onboarding' for answers given in the onboarding conversation
+  method: PreferenceExtraction['method'] | 'onboarding'
+  quote?: string
+}
+
+export function findPreferenceSource(sources: PreferenceSource[] | undefined, field: PreferenceSource['field'], value?: string): PreferenceSource | undefined {
+  return (sources || []).find(source => source.field === field && (value === undefined || source.value === value))
+}
+
+// "From your message “not Thamel, too noisy” · 18 Oct, 14:05 · 90% sure"
+export function describePreferenceSource(source?: PreferenceSource): string {
+  if (!source) return 'Set outside the chat'
+  if (source.method === 'onboarding') {
+    return `From your onboarding answers · ${new Date(source.timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}`
+  }
+  const when = new Date(source.timestamp).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+  const quote = source.quote ? ` “${source.quote}”` : ''
+  const method = source.method === 'rules' ? ' · keyword match' : ''
+  return `From your message${quote} · ${when} · ${Math.round(source.confidence * 100)}% sure${method}`
+}
+
+const PROPERTY_TYPES = ['apartment', 'house', 'commercial', 'land']
+
+// Used when the model is unavailable or the token budget is spent
+const KNOWN_LOCATIONS = [
+  'kathmandu', 'lalitpur', 'bhaktapur', 'pokhara', 'chitwan', 'butwal',
+  'thamel', 'pulchowk', 'kupondole', 'baneshwor', 'new road', 'durbarmarg',
+  'godawari', 'patan', 'boudha', 'swayambhu', 'balaju', 'maharajgunj',
+  'lazimpat', 'naxal', 'panipokhari', 'sinamangal', 'koteshwor', 'un park'
+]
+
+const PROPERTY_TYPE_WORDS: Record<string, string> = {
+  apartment: 'apartment',
+  flat: 'apartment',
+  bhk: 'apartment',
+  studio: 'apartment',
+  penthouse: 'apartment',
+  house: 'house',
+  villa: 'house',
+  bungalow: 'house',
+  commercial: 'commercial',
+  office: 'commercial',
+  shop: 'commercial',
+  restaurant: 'commercial',
+  land: 'land',
+  plot: 'land'
+}
+
+// "not Thamel", "anything but a flat", "avoid Koteshwor"; the negation must be in the
+// same clause as the word it applies to
+const NEGATED_BEFORE = /\b(?:not|no|avoid|except|without|never|don'?t want|do not want|anything but|rather not|hate)\b[^.,;!?]{0,25}$/i
+// "Thamel, too noisy", "Koteshwor is too far"
+const NEGATED_AFTER = /^[\s,]*(?:(?:is|are|it's|its)\s+)?(?:too|so)\s+(?:noisy|far|crowded|busy|expensive|polluted|dusty)\b/i
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+export async function extractPreferenceChanges(message: string, current: UserProfile): Promise<PreferenceExtraction> {
+  try {
+    return { changes: await extractWithModel(message, current), method: 'llm' }
+  } catch (error) {
+    // Budget skips land here too; the rules still catch negated place names
+    console.warn('Preference extraction fell back to rules:', error)
+    return { changes: extractWithRules(message), method: 'rules' }
+  }
+}
+
+async function extractWithModel(message: string, current: UserProfile): Promise<PreferenceChange[]> {
+  const saved = (Object.keys(PREFERENCE_LIST_FIELDS) as PreferenceListField[])
+    .map(field => `- ${field}: ${(current[field] || []).join(', ') || 'none'}`)
+    .join('\n')
+
+  const response = await llmGateway.generateObject('preference_extraction', {
+    prompt: `You update the saved preferences of someone searching for property in Nepal. List the changes their latest chat message makes.
+
+Saved preferences:
+${saved}
+
+Latest message:
+"""${message}"""
+
+Rules:
+- Add a location, property type or amenity only when the user wants it. A place the user rejects ("not Thamel, too noisy") goes in excludedLocations, never in locations.
+- Remove a saved value the user takes back or corrects ("actually not Lalitpur", "I don't need parking any more"). A correction is a remove plus an add.
+- dealBreakers are short phrases for anything that rules a listing out, e.g. "noisy area", "no parking", "ground floor".
+- propertyType values are apartment, house, commercial or land.
+- Places named only as landmarks, workplaces or comparisons are not preferences.
+- Budgets and bedroom counts are handled elsewhere; leave them out.
+- confidence is 0 to 1: 0.9 or more for explicit statements, lower for things only implied.
+- quote is the few words of the message the change rests on.
+- Return an empty list when the message states no preference.`,
+    schema: {
+      type: 'object',
+      properties: {
+        changes: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              field: { type: 'string', enum: Object.keys(PREFERENCE_LIST_FIELDS) },
+              action: { type: 'string', enum: ['add', 'remove'] },
+              value: { type: 'string' },
+              confidence: { type: 'number' },
+              quote: { type: 'string' }
+            },
+            required: ['field', 'action', 'value', 'confidence']
+          }
+        }
+      },
+      required: ['changes']
+    }
+  })
+
+  const changes: any[] = Array.isArray(response.object?.changes) ? response.object.changes : []
+  return changes
+    .filter(change => change && change.field in PREFERENCE_LIST_FIELDS && (change.action === 'add' || change.action === 'remove') && typeof change.value === 'string')
+    .map(change => ({
+      field: change.field as PreferenceListField,
+      action: change.action as PreferenceChange['action'],
+      value: change.value.trim().toLowerCase().slice(0, 80),
+      confidence: Math.min(1, Math.max(0, Number(change.confidence) || 0)),
+      ...(typeof change.quote === 'string' && change.quote.trim() ? { quote: change.quote.trim().slice(0, 200) } : {})
+    }))
+    .filter(change => change.value && (change.field !== 'propertyType' || PROPERTY_TYPES.includes(change.value)))
+}
+
+function extractWithRules(message: string): PreferenceChange[] {
+  const changes: PreferenceChange[] = []
+
+  const mentions = (word: string) => Array.from(message.matchAll(new RegExp(`\\b${escape(word)}s?\\b`, 'gi')))
+  const negated = (match: RegExpMatchArray) => {
+    const start = match.index as number
+    const end = start + match[0].length
+    return NEGATED_BEFORE.test(message.slice(Math.max(0, start - 40), start)) || NEGATED_AFTER.test(message.slice(end, end + 30))
+  }
+  const quoteAround = (match: RegExpMatchArray) => {
+    const start = match.index as number
+    return message.slice(Math.max(0, start - 20), start + match[0].length + 20).trim()
+  }
+
+  for (const location of KNOWN_LOCATIONS) {
+    const match = mentions(location)[0]
+    if (!match) continue
+    const rejected = negated(match)
+    changes.push({ field: rejected ? 'excludedLocations' : 'locations', action: 'add', value: location, confidence: 0.6, quote: quoteAround(match) })
+  }
+
+  for (const [word, type] of Object.entries(PROPERTY_TYPE_WORDS)) {
+    const match = mentions(word)[0]
+    if (!match || changes.some(change => change.field === 'propertyType' && change.value === type)) continue
+    changes.push({ field: 'propertyType', action: negated(match) ? 'remove' : 'add', value: type, confidence: 0.6, quote: quoteAround(match) })
+  }
+
+  const family = message.match(/\b(?:couple|family|kids|children)\b/i)
+  if (family) {
+    changes.push({ field: 'amenities', action: 'add', value: 'family-friendly', confidence: 0.5, quote: quoteAround(family) })
+  }
+
+  return changes
+}
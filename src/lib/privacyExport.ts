@@ -0,0 +1,67 @@
+import { platform } from './platformClient'
+import { memoryManager, type ConversationSession } from './memory-manager'
+import type { UserProfile } from './userProfile'
+
+// Everything the app stores about a user, gathered into one JSON file they can download:
+// the memory manager's preferences and transcripts, their listings, and the settings
+// this browser keeps under their id.
+
+export interface PrivacyExport {
+  format: 'realestate-ai-user-data'
+  version: 1
+  exportedAt: string
+  userId: string
+  preferences: UserProfile | null
+  sessions: ConversationSession[]
+  // Listings the user published, as stored
+  listings: any[]
+  // localStorage entries keyed by the user's id (area units, onboarding, daily AI usage)
+  browserStorage: Record<string, string>
+}
+
+export async function buildPrivacyExport(userId: string): Promise<PrivacyExport> {
+  const memory = await memoryManager.exportMemory(userId)
+
+  let listings: any[] = []
+  try {
+    listings = await platform.db.properties.list({ where: { ownerId: userId } })
+  } catch (error) {
+    console.error('Failed to export listings:', error)
+  }
+
+  return {
+    format: 'realestate-ai-user-data',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    userId,
+    preferences: memory.preferences,
+    sessions: memory.sessions,
+    listings,
+    browserStorage: readBrowserStorage(userId)
+  }
+}
+
+export function downloadPrivacyExport(data: PrivacyExport): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `realestate-ai-data-${data.exportedAt.slice(0, 10)}.json`
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  URL.revokeObjectURL(url)
+}
+
+function readBrowserStorage(userId: string): Record<string, string> {
+  if (typeof localStorage === 'undefined') return {}
+
+  const entries: Record<string, string> = {}
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)
+    if (key && key.includes(userId)) {
+      entries[key] = localStorage.getItem(key) || ''
+    }
+  }
+  return entries
+}
@@ -1,10 +1,11 @@
-import { blink } from './blink'
+import { platform } from './platformClient'
 import { Property } from '@/types'
+import { areaInRange, isAreaUnit, propertyAreaSqm } from './landUnits'
 
 export class PropertyDatabase {
   async getAllProperties(): Promise<Property[]> {
     try {
-      const result = await blink.db.properties.list({
+      const result = await platform.db.properties.list({
         where: { isActive: "1" },
         orderBy: { createdAt: 'desc' }
       })
@@ -23,6 +24,9 @@ export class PropertyDatabase {
     minPrice?: number
     maxPrice?: number
     bedrooms?: number
+    // Areas are compared in square metres whatever unit a listing uses
+    minAreaSqm?: number
+    maxAreaSqm?: number
   }): Promise<Property[]> {
     try {
       const whereConditions: any = { isActive: "1" }
@@ -40,7 +44,7 @@ export class PropertyDatabase {
         whereConditions.bedrooms = filters.bedrooms
       }
 
-      const result = await blink.db.properties.list({
+      const result = await platform.db.properties.list({
         where: whereConditions,
         orderBy: { createdAt: 'desc' }
       })
@@ -56,6 +60,12 @@ export class PropertyDatabase {
         })
       }
 
+      if (filters.minAreaSqm || filters.maxAreaSqm) {
+        properties = properties.filter(property =>
+          areaInRange(propertyAreaSqm(property), { min: filters.minAreaSqm, max: filters.maxAreaSqm })
+        )
+      }
+
       return properties
     } catch (error) {
       console.error('Error fetching filtered properties:', error)
@@ -65,7 +75,7 @@ export class PropertyDatabase {
 
   async getPropertyById(id: string): Promise<Property | null> {
     try {
-      const result = await blink.db.properties.list({
+      const result = await platform.db.properties.list({
         where: { id, isActive: "1" },
         limit: 1
       })
@@ -101,7 +111,7 @@ export class PropertyDatabase {
     try {
       const property = await this.getPropertyById(propertyId)
       if (property) {
-        await blink.db.properties.update(propertyId, {
+        await platform.db.properties.update(propertyId, {
           views: property.views + 1,
           updatedAt: new Date().toISOString()
         })
@@ -122,6 +132,15 @@ export class PropertyDatabase {
       markets: [],
       transport: []
     })
+    const areaUnit = isAreaUnit(dbProperty.areaUnit) ? dbProperty.areaUnit : 'sqft'
+    const areaParts = this.safeJsonParse(dbProperty.areaParts, [])
+      .filter((part: any) => isAreaUnit(part?.unit) && Number(part.value) > 0)
+      .map((part: any) => ({ value: Number(part.value), unit: part.unit }))
+    const area = {
+      area: dbProperty.area,
+      areaUnit,
+      ...(areaParts.length > 1 ? { areaParts } : {})
+    }
 
     return {
       id: dbProperty.id,
@@ -132,8 +151,8 @@ export class PropertyDatabase {
       propertyType: dbProperty.propertyType as 'apartment' | 'house' | 'commercial' | 'land',
       bedrooms: dbProperty.bedrooms || undefined,
       bathrooms: dbProperty.bathrooms || undefined,
-      area: dbProperty.area,
-      areaUnit: dbProperty.areaUnit as 'sqft' | 'sqm',
+      ...area,
+      areaSqm: Number(dbProperty.areaSqm) || propertyAreaSqm(area),
       location: {
         address: dbProperty.address,
         city: dbProperty.city,
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { understandQuery, type MoneyRange, type QueryUnderstanding } from './queryUnderstanding'
+
+const ROPANI_SQM = 508.73704704
+const AANA_SQM = ROPANI_SQM / 16
+
+// Only the fields a case names are checked
+type Expected = Omit<QueryUnderstanding, 'budget' | 'area'> & { budget?: Partial<MoneyRange> }
+
+// Phrasings as people type them, and what the search should take from each
+const BUDGET_CASES: Array<[string, Expected]> = [
+  // Lakh and crore
+  ['house under 50 lakh', { budget: { max: 5000000, approximate: false }, intent: 'sale', intentInferred: true }],
+  ['budget 1.2 crore', { budget: { max: 12000000, approximate: false }, intent: 'sale', intentInferred: true }],
+  ['3 bhk under 40k', { budget: { max: 40000, approximate: false }, intent: 'rent', intentInferred: true, bedrooms: 3 }],
+  ['around 40,000', { budget: { max: 40000, approximate: true }, intent: 'rent', intentInferred: true }],
+  // Ranges
+  ['house 80 lakh to 1.5 crore', { budget: { min: 8000000, max: 15000000, approximate: false }, intent: 'sale' }],
+  ['flat between 40k and 60k per month', { budget: { min: 40000, max: 60000, period: 'month' }, intent: 'rent' }],
+  // Per month, per year and total
+  ['apartment 25000 monthly', { budget: { max: 25000, period: 'month' }, intent: 'rent', intentInferred: true }],
+  ['rent 2 lakh yearly', { budget: { max: 16667, period: 'year' }, intent: 'rent' }],
+  ['rent 3 lakh per year', { budget: { max: 25000, period: 'year' }, intent: 'rent' }],
+  ['total 2 crore', { budget: { max: 20000000, period: 'total' }, intent: 'sale' }],
+  // Devanagari digits and units
+  ['१५ लाख को घर', { budget: { max: 1500000 }, intent: 'sale', intentInferred: true }],
+  ['घर भाडा २५ हजार', { budget: { max: 25000 }, intent: 'rent' }]
+]
+
+const AREA_CASES: Array<[string, { units: string[]; sqm: number }]> = [
+  ['land 5 aana', { units: ['aana'], sqm: 5 * AANA_SQM }],
+  ['plot 2 ropani', { units: ['ropani'], sqm: 2 * ROPANI_SQM }],
+  ['land 2 ropani 5 aana', { units: ['ropani', 'aana'], sqm: 2 * ROPANI_SQM + 5 * AANA_SQM }],
+  ['land 0-8-0-0', { units: ['aana'], sqm: 8 * AANA_SQM }]
+]
+
+// Numbers that are not money and must not become a budget
+const NOT_MONEY = ['loan for 20 years', 'house 3 storeys', 'within 5 km']
+
+// What the user earns is not what they want to spend; the amount after it still counts
+const INCOME_CASES: Array<[string, Expected]> = [
+  ['I earn 1.5 lakh a month and want to buy a house', { intent: 'sale' }],
+  ['my salary is 80k, looking for a flat on rent', { intent: 'rent' }],
+  ['mahinako 2 lakh kamaunchu, ghar kinna chahanchhu', { intent: 'sale' }],
+  ['I earn 1.5 lakh a month, house under 60 lakh', { budget: { max: 6000000 }, intent: 'sale', intentInferred: true }]
+]
+
+describe('understandQuery', () => {
+  it.each(BUDGET_CASES)('reads "%s"', (query, expected) => {
+    expect(understandQuery(query)).toMatchObject(expected)
+  })
+
+  it.each(AREA_CASES)('reads the area in "%s"', (query, { units, sqm }) => {
+    const { area } = understandQuery(query)
+    expect(area?.kind).toBe('land')
+    expect(area?.parts.map(part => part.unit)).toEqual(units)
+    expect(area?.sqm).toBeCloseTo(sqm, 3)
+  })
+
+  it.each(INCOME_CASES)('does not take income as the budget in "%s"', (query, expected) => {
+    const understanding = understandQuery(query)
+    expect(understanding).toMatchObject(expected)
+    if (!expected.budget) expect(understanding.budget).toBeUndefined()
+  })
+
+  it.each(NOT_MONEY)('finds no budget in "%s"', (query) => {
+    expect(understandQuery(query).budget).toBeUndefined()
+  })
+})
@@ -0,0 +1,315 @@
+// Reads budgets, rent-or-buy intent, bedroom counts and sizes out of free text the way
+// people in Nepal write them: "50 lakh", "1.2 crore", "40k a month", "5 aana",
+// "2 ropani", "0-8-0-0", "१५ लाख". Every parser that turns a user's words into search
+// criteria goes through here, so they all read a phrase the same way.
+
+import type { AreaPart, AreaUnit } from '@/types'
+import { AREA_UNITS, formatAreaParts, partsToSqm } from './landUnits'
+
+export type PriceIntent = 'rent' | 'sale'
+export type PricePeriod = 'month' | 'year' | 'total'
+
+export interface MoneyRange {
+  // In the basis listings are priced in: per month for rent, the total for sale
+  min?: number
+  max?: number
+  // "around 40,000" rather than a limit; the amount is kept as the max
+  approximate: boolean
+  // The period the user stated, if any. A yearly rent is converted to monthly above
+  period?: PricePeriod
+  // The amount as the user wrote it
+  text: string
+}
+
+export interface AreaMeasure {
+  // As written, largest unit first: "2 ropani 5 aana" keeps both parts
+  parts: AreaPart[]
+  sqm: number
+  // Land units measure plots; sqft and sqm usually measure floor space
+  kind: 'land' | 'floor'
+  bound?: 'min' | 'max'
+  text: string
+}
+
+export interface QueryUnderstanding {
+  budget?: MoneyRange
+  intent?: PriceIntent
+  // True when the intent was read from the amount alone: NPR 45,000 is a monthly
+  // rent and NPR 1.2 crore is a purchase price
+  intentInferred?: boolean
+  bedrooms?: number
+  area?: AreaMeasure
+}
+
+const MULTIPLIERS: Array<{ pattern: string; value: number }> = [
+  { pattern: 'crores|crore|karod|cr|करोड', value: 10000000 },
+  { pattern: 'million|mn', value: 1000000 },
+  { pattern: 'lakhs|lakh|lacs|lac|लाख', value: 100000 },
+  { pattern: 'thousand|hajar|hazar|हजार|k', value: 1000 }
+]
+
+const NUMBER = '\\d+(?:,\\d+)*(?:\\.\\d+)?'
+const CURRENCY = '(?:npr|nrs\\.?|rs\\.?|rupees?|रु\\.?|रुपैयाँ)'
+// A unit must not run straight into more letters ("5 anna" yes, "5 analysts" no)
+const END_OF_WORD = '(?![a-z])'
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const AREA_ALIASES = (Object.keys(AREA_UNITS) as AreaUnit[])
+  .flatMap(unit => AREA_UNITS[unit].aliases.map(alias => ({ alias, unit })))
+  .sort((a, b) => b.alias.length - a.alias.length)
+const AREA_TOKEN = new RegExp(`(${NUMBER})\\s*(${AREA_ALIASES.map(entry => escape(entry.alias)).join('|')})${END_OF_WORD}`, 'gi')
+// Ropani-aana-paisa-daam written as 0-8-0-0, the way lalpurja (land certificates) show it
+const RAPD_TOKEN = /(?<![\d,.-])(\d{1,3})-(\d{1,2})-([0-3])-([0-3])(?![\d-])/g
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  ek: 1, dui: 2, tin: 3, char: 4, paanch: 5, panch: 5
+}
+const BEDROOM_TOKEN = new RegExp(`(\\d+|${Object.keys(NUMBER_WORDS).join('|')})\\s*-?\\s*(?:bhk|bedrooms?|beds?|br|rooms?|kotha|कोठा)${END_OF_WORD}`, 'gi')
+
+const MONEY_TOKEN = new RegExp(
+  `(${CURRENCY}\\s*)?(${NUMBER})\\s*(${MULTIPLIERS.map(multiplier => multiplier.pattern).join('|')})?${END_OF_WORD}(\\s*(?:${CURRENCY}|rupaiya)${END_OF_WORD})?`,
+  'gi'
+)
+// Numbers followed by these are durations, rates or counts, not money
+// Whole words only, so "monthly" and "yearly" stay free to mark the price period
+const NOT_MONEY_AFTER = /^\s*(?:(?:years?|yrs?|months?|days?|weeks?|percent|storeys?|stories|floors?|kms?|minutes?|mins?|metres?|meters?|m|ft|feet|bathrooms?|baths?|people|persons?|members?|cars?|barsa)\b|%|बर्ष|वर्ष)/i
+
+// Amounts the user earns rather than spends: "I earn 1.5 lakh a month", "mahinako 2 lakh kamaunchu"
+const INCOME_BEFORE = /(?:\b(?:earn|earns|earning|salary|income|take[- ]home|kamai|talab)\b|तलब)(?:\s+(?:is|of|around|about|roughly|nearly|only|just|rs\.?|npr))*\s*$/i
+const INCOME_AFTER = /^\s*(?:(?:a|per|every)\s+month\s+|monthly\s+|mahina\s+)?(?:salary|income|kamaunchu|kamauchu|kamaunchhu|kamaaunchu|kamai|talab\b|तलब|कमाउँछु)/i
+
+const MAX_WORDS = /(?:under|below|less than|not more than|no more than|up to|upto|max(?:imum)?|within|budget(?: of| is)?|afford|cap(?:ped)? at|at most)\s*$/i
+const MIN_WORDS = /(?:above|over|more than|at least|min(?:imum)?|starting(?: at| from)?|from)\s*$/i
+const AROUND_WORDS = /(?:around|about|approx(?:imately)?\.?|roughly|near|~)\s*$/i
+const MAX_AFTER = /^\s*(?:samma|bhitra|or less|or below|max(?:imum)?|at most|सम्म|भित्र)/i
+const MIN_AFTER = /^\s*(?:or more|or above|plus|\+|at least|bhanda mathi|भन्दा माथि)/i
+
+const PERIOD_AFTER: Array<{ period: PricePeriod; pattern: RegExp }> = [
+  { period: 'month', pattern: /^\s*(?:\/\s*(?:month|mo|m)\b|(?:per|a|each|every|in a)\s+month|monthly|pm\b|p\.m\.|mahina|mahinako|महिना)/i },
+  { period: 'year', pattern: /^\s*(?:\/\s*(?:year|yr|y)\b|(?:per|a|each|every)\s+(?:year|annum)|yearly|annually|p\.a\.|barsa|वर्ष|बर्ष)/i },
+  { period: 'total', pattern: /^\s*(?:total|in total|all[- ]in|lump ?sum|one[- ]time)/i }
+]
+const PERIOD_BEFORE: Array<{ period: PricePeriod; pattern: RegExp }> = [
+  { period: 'month', pattern: /(?:monthly|per month|a month|mahinako|मासिक)\s+(?:rent|budget|payment)?\s*(?:of|is|around|about|under|up to|upto|below)?\s*$/i },
+  { period: 'year', pattern: /(?:yearly|annual|per year)\s+(?:rent|budget)?\s*(?:of|is|around|about|under|up to|upto|below)?\s*$/i },
+  { period: 'total', pattern: /(?:total|purchase|sale|asking)\s+(?:price|budget|cost)?\s*(?:of|is|around|about|under|up to|upto|below)?\s*$/i }
+]
+
+const RENT_WORDS = /\b(?:rent|rents|rental|renting|lease|leasing|to let|tenant|bhada|bhaada|bhadama|bhaadama)\b|भाडा/i
+const SALE_WORDS = /\b(?:buy|buying|purchase|purchasing|for sale|on sale|sell|selling|kinna|kinne|kinnu|bechna|bechne)\b|किन्न|बिक्री/i
+
+// Monthly rents in the valley rarely pass two lakh, and purchase prices rarely fall
+// under ten lakh, so anything outside that band says which one is meant
+const RENT_CEILING = 200000
+const SALE_FLOOR = 1000000
+
+interface Span { start: number; end: number }
+
+const overlaps = (spans: Span[], start: number, end: number) => spans.some(span => start < span.end && end > span.start)
+
+export function normalizeDigits(text: string): string {
+  return text.replace(/[०-९]/g, digit => String(digit.charCodeAt(0) - 0x0966))
+}
+
+const toNumber = (text: string) => parseFloat(text.replace(/,/g, ''))
+
+const multiplierFor = (word: string | undefined) => {
+  if (!word) return undefined
+  const lower = word.toLowerCase()
+  return MULTIPLIERS.find(multiplier => new RegExp(`^(?:${multiplier.pattern})$`, 'i').test(lower))?.value
+}
+
+// One amount on its own, as typed into a budget box: "45000", "45k", "50 lakh", "1.2 crore"
+export function parseAmount(text: string): number | undefined {
+  const match = normalizeDigits(text.trim()).match(new RegExp(`^${CURRENCY}?\\s*(${NUMBER})\\s*(${MULTIPLIERS.map(multiplier => multiplier.pattern).join('|')})?\\s*${CURRENCY}?\\.?$`, 'i'))
+  if (!match) return undefined
+  const amount = toNumber(match[1]) * (multiplierFor(match[2]) || 1)
+  return Number.isFinite(amount) ? Math.round(amount) : undefined
+}
+
+function findArea(text: string, taken: Span[]): AreaMeasure | undefined {
+  const rapd = RAPD_TOKEN.exec(text)
+  RAPD_TOKEN.lastIndex = 0
+  if (rapd) {
+    const units: AreaUnit[] = ['ropani', 'aana', 'paisa', 'daam']
+    const parts = units
+      .map((unit, index) => ({ value: parseInt(rapd[index + 1]), unit }))
+      .filter(part => part.value > 0)
+    taken.push({ start: rapd.index, end: rapd.index + rapd[0].length })
+    return {
+      parts,
+      sqm: partsToSqm(parts),
+      kind: 'land',
+      bound: areaBound(text, rapd.index, rapd.index + rapd[0].length),
+      text: rapd[0]
+    }
+  }
+
+  const tokens = Array.from(text.matchAll(AREA_TOKEN)).map(match => ({
+    value: toNumber(match[1]),
+    unit: AREA_ALIASES.find(entry => entry.alias.toLowerCase() === match[2].toLowerCase())?.unit as AreaUnit,
+    start: match.index as number,
+    end: (match.index as number) + match[0].length
+  }))
+  if (tokens.length === 0) return undefined
+
+  // "2 ropani 5 aana" and "1 bigha, 3 kattha" are one measurement
+  const group = [tokens[0]]
+  for (const token of tokens.slice(1)) {
+    const previous = group[group.length - 1]
+    const gap = text.slice(previous.end, token.start)
+    if (!/^[\s,]*(?:and\s*)?$/i.test(gap) || AREA_UNITS[token.unit].kind !== 'land' || AREA_UNITS[previous.unit].kind !== 'land') break
+    group.push(token)
+  }
+
+  const start = group[0].start
+  const end = group[group.length - 1].end
+  taken.push({ start, end })
+  const parts = group.map(token => ({ value: token.value, unit: token.unit }))
+  return {
+    parts,
+    sqm: partsToSqm(parts),
+    kind: AREA_UNITS[group[0].unit].kind,
+    bound: areaBound(text, start, end),
+    text: text.slice(start, end)
+  }
+}
+
+function areaBound(text: string, start: number, end: number): AreaMeasure['bound'] {
+  const before = text.slice(Math.max(0, start - 30), start)
+  const after = text.slice(end, end + 20)
+  if (MAX_WORDS.test(before) || MAX_AFTER.test(after)) return 'max'
+  if (MIN_WORDS.test(before) || MIN_AFTER.test(after)) return 'min'
+  return undefined
+}
+
+function findBedrooms(text: string, taken: Span[]): number | undefined {
+  for (const match of text.matchAll(BEDROOM_TOKEN)) {
+    const start = match.index as number
+    if (overlaps(taken, start, start + match[0].length)) continue
+    const word = match[1].toLowerCase()
+    const bedrooms = /^\d+$/.test(word) ? parseInt(word) : NUMBER_WORDS[word]
+    taken.push({ start, end: start + match[0].length })
+    if (bedrooms > 0 && bedrooms <= 10) return bedrooms
+  }
+  return undefined
+}
+
+function findMoney(text: string, taken: Span[]): MoneyRange | undefined {
+  const tokens = Array.from(text.matchAll(MONEY_TOKEN))
+    .map(match => {
+      const start = (match.index as number) + (match[0].length - match[0].trimStart().length)
+      const end = (match.index as number) + match[0].trimEnd().length
+      const multiplier = multiplierFor(match[3])
+      return {
+        start,
+        end,
+        value: toNumber(match[2]),
+        multiplier,
+        marked: Boolean(match[1] || match[4] || multiplier)
+      }
+    })
+    .filter(token => !overlaps(taken, token.start, token.end))
+    .filter(token => !NOT_MONEY_AFTER.test(text.slice(token.end)))
+
+  for (let index = 0; index < tokens.length; index++) {
+    const first = tokens[index]
+    const next = tokens[index + 1]
+    const connector = next ? text.slice(first.end, next.start) : ''
+    const isRange = next && /^\s*(?:-|–|to|and|se|dekhi)\s*$/i.test(connector)
+
+    // "30-40 lakh": the unit written after the second number covers both
+    const firstAmount = first.value * (first.multiplier || (isRange ? next.multiplier : undefined) || 1)
+    const marked = first.marked || (isRange && next.marked)
+    // An unmarked number is only money if it is big enough to be a price and is not a year
+    const plausible = marked || (firstAmount >= 1000 && !(firstAmount >= 1900 && firstAmount <= 2100 && !/,/.test(text.slice(first.start, first.end))))
+    if (!plausible) continue
+
+    const end = isRange ? next.end : first.end
+    const before = text.slice(Math.max(0, first.start - 40), first.start)
+    const after = text.slice(end, end + 30)
+    if (INCOME_BEFORE.test(before) || INCOME_AFTER.test(after)) continue
+    const period = PERIOD_AFTER.find(entry => entry.pattern.test(after))?.period
+      ?? PERIOD_BEFORE.find(entry => entry.pattern.test(before))?.period
+
+    if (isRange) {
+      const secondAmount = next.value * (next.multiplier || 1)
+      return {
+        min: Math.round(Math.min(firstAmount, secondAmount)),
+        max: Math.round(Math.max(firstAmount, secondAmount)),
+        approximate: false,
+        period,
+        text: text.slice(first.start, end)
+      }
+    }
+
+    const amount = Math.round(firstAmount)
+    const isMin = MIN_WORDS.test(before) || MIN_AFTER.test(after)
+    return {
+      ...(isMin ? { min: amount } : { max: amount }),
+      approximate: !isMin && AROUND_WORDS.test(before),
+      period,
+      text: text.slice(first.start, end)
+    }
+  }
+  return undefined
+}
+
+function findIntent(text: string, budget: MoneyRange | undefined): Pick<QueryUnderstanding, 'intent' | 'intentInferred'> {
+  const rent = text.search(RENT_WORDS)
+  const sale = text.search(SALE_WORDS)
+  // The first one mentioned wins: "buy a flat to rent out" is a purchase
+  if (rent >= 0 && (sale < 0 || rent < sale)) return { intent: 'rent' }
+  if (sale >= 0) return { intent: 'sale' }
+
+  if (budget?.period === 'month' || budget?.period === 'year') return { intent: 'rent', intentInferred: true }
+  if (budget?.period === 'total') return { intent: 'sale', intentInferred: true }
+  const amount = budget?.max ?? budget?.min
+  if (amount === undefined) return {}
+  if (amount <= RENT_CEILING) return { intent: 'rent', intentInferred: true }
+  if (amount >= SALE_FLOOR) return { intent: 'sale', intentInferred: true }
+  return {}
+}
+
+export function understandQuery(text: string): QueryUnderstanding {
+  const normalized = normalizeDigits(text)
+  // Sizes and bedroom counts are found first so their numbers are not read as money
+  const taken: Span[] = []
+  const area = findArea(normalized, taken)
+  const bedrooms = findBedrooms(normalized, taken)
+  let budget = findMoney(normalized, taken)
+
+  const { intent, intentInferred } = findIntent(normalized, budget)
+
+  // Rent listings are priced per month
+  if (budget && budget.period === 'year' && intent === 'rent') {
+    budget = {
+      ...budget,
+      min: budget.min !== undefined ? Math.round(budget.min / 12) : undefined,
+      max: budget.max !== undefined ? Math.round(budget.max / 12) : undefined
+    }
+  }
+
+  return {
+    ...(budget ? { budget } : {}),
+    ...(intent ? { intent } : {}),
+    ...(intentInferred ? { intentInferred } : {}),
+    ...(bedrooms ? { bedrooms } : {}),
+    ...(area ? { area } : {})
+  }
+}
+
+// The range of plot or floor sizes, in sqm, that satisfies an area the user asked for.
+// "5 aana" on its own means roughly that size, give or take a fifth
+export function areaRangeSqm(area: Pick<AreaMeasure, 'sqm' | 'bound'>): { min?: number; max?: number } {
+  if (area.bound === 'min') return { min: area.sqm }
+  if (area.bound === 'max') return { max: area.sqm }
+  return { min: area.sqm * 0.8, max: area.sqm * 1.2 }
+}
+
+// "2 ropani 5 aana", "1,200 sq ft"
+export function describeArea(area: Pick<AreaMeasure, 'parts'>): string {
+  return formatAreaParts(area.parts)
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { ReActTools, reactAgent } from './react-agent'
+import { InMemoryPlatformClient } from './inMemoryPlatformClient'
+import { ScriptedLLM } from './scriptedLLM'
+import { resetPlatformClient, setPlatformClient } from './platformClient'
+
+const listing = (row: Record<string, any>) => ({
+  description: '',
+  propertyType: 'apartment',
+  bathrooms: 1,
+  area: 900,
+  areaUnit: 'sqft',
+  district: 'Lalitpur',
+  city: 'Lalitpur',
+  amenities: '[]',
+  images: '[]',
+  isActive: '1',
+  createdAt: '2026-01-01T00:00:00Z',
+  ...row
+})
+
+const LISTINGS = [
+  listing({ id: 'prop_jhamsikhel', title: 'Bright 2BHK in Jhamsikhel', price: 35000, priceType: 'rent', bedrooms: 2, address: 'Jhamsikhel' }),
+  listing({ id: 'prop_sanepa', title: 'Sanepa 2BHK with parking', price: 55000, priceType: 'rent', bedrooms: 2, address: 'Sanepa' }),
+  listing({ id: 'prop_baneshwor', title: 'Baneshwor 2BHK', price: 30000, priceType: 'rent', bedrooms: 2, address: 'Baneshwor', city: 'Kathmandu', district: 'Kathmandu' })
+]
+
+describe('reactAgent.processQuery', () => {
+  afterEach(() => {
+    resetPlatformClient()
+  })
+
+  it('searches listings, feeds the observation back and cites the listing it recommends', async () => {
+    const llm = new ScriptedLLM([
+      {
+        kind: 'text',
+        match: 'User Query: "2 bedroom flat for rent in Lalitpur under 40000"',
+        text: 'Thought: I should look for matching rentals.\nAction: PropertyDatabase\nAction Input: 2 bedroom apartment for rent in Lalitpur under 40000'
+      },
+      {
+        kind: 'text',
+        // Replayed only once the tool's real observation is in the prompt
+        match: 'Observation: {"total_found":1',
+        text: 'Thought: One listing fits the budget.\nFinal Answer: The Bright 2BHK in Jhamsikhel rents for NPR 35,000 a month [1].'
+      }
+    ], { mode: 'match' })
+    setPlatformClient(new InMemoryPlatformClient({ llm, tables: { properties: LISTINGS } }))
+
+    const response = await reactAgent.processQuery('2 bedroom flat for rent in Lalitpur under 40000')
+
+    expect(response.steps.map(step => step.type)).toEqual(['thought', 'action', 'observation', 'thought'])
+    const action = response.steps[1]
+    expect(action.actionName).toBe('PropertyDatabase')
+    expect(action.toolResult?.success).toBe(true)
+    expect(action.toolResult?.data.properties.map((property: { id: string }) => property.id)).toEqual(['prop_jhamsikhel'])
+
+    expect(response.isComplete).toBe(true)
+    expect(response.needsClarification).toBe(false)
+    expect(response.finalAnswer).toBe('The Bright 2BHK in Jhamsikhel rents for NPR 35,000 a month [1].')
+    expect(response.citations).toEqual([expect.objectContaining({ number: 1, toolName: 'PropertyDatabase', propertyId: 'prop_jhamsikhel', stepIndex: 2 })])
+    expect(llm.remaining()).toEqual([])
+  })
+
+  it('keeps the steps and citations of overlapping runs apart', async () => {
+    const llm = new ScriptedLLM([
+      {
+        kind: 'text',
+        match: 'User Query: "2 bedroom flat for rent in Lalitpur under 40000"',
+        text: 'Thought: Rentals in Lalitpur.\nAction: PropertyDatabase\nAction Input: 2 bedroom apartment for rent in Lalitpur under 40000'
+      },
+      {
+        kind: 'text',
+        match: 'User Query: "2 bedroom flat for rent in Kathmandu"',
+        text: 'Thought: Rentals in Kathmandu.\nAction: PropertyDatabase\nAction Input: 2 bedroom apartment for rent in Kathmandu'
+      },
+      {
+        kind: 'text',
+        match: /User Query: "2 bedroom flat for rent in Lalitpur[\s\S]*Observation:/,
+        text: 'Final Answer: Try the Bright 2BHK in Jhamsikhel [1].'
+      },
+      {
+        kind: 'text',
+        match: /User Query: "2 bedroom flat for rent in Kathmandu[\s\S]*Observation:/,
+        text: 'Final Answer: Try the Baneshwor 2BHK [1].'
+      }
+    ], { mode: 'match' })
+    setPlatformClient(new InMemoryPlatformClient({ llm, tables: { properties: LISTINGS } }))
+
+    const lalitpurSteps: string[] = []
+    const [lalitpur, kathmandu] = await Promise.all([
+      reactAgent.processQuery('2 bedroom flat for rent in Lalitpur under 40000', undefined, { onStep: step => lalitpurSteps.push(step.type) }),
+      reactAgent.processQuery('2 bedroom flat for rent in Kathmandu')
+    ])
+
+    expect(lalitpur.steps.map(step => step.type)).toEqual(['thought', 'action', 'observation'])
+    expect(kathmandu.steps.map(step => step.type)).toEqual(['thought', 'action', 'observation'])
+    expect(lalitpurSteps).toEqual(['thought', 'action', 'observation'])
+    expect(lalitpur.citations).toEqual([expect.objectContaining({ number: 1, propertyId: 'prop_jhamsikhel' })])
+    expect(kathmandu.citations).toEqual([expect.objectContaining({ number: 1, propertyId: 'prop_baneshwor' })])
+  })
+})
+
+describe('ReActTools.search', () => {
+  afterEach(() => {
+    resetPlatformClient()
+  })
+
+  it('passes the run\'s signal on to the web search', async () => {
+    const client = new InMemoryPlatformClient({ searches: [{ match: 'land price', response: { organic_results: [] } }] })
+    setPlatformClient(client)
+    const controller = new AbortController()
+
+    await ReActTools.search('land price in Bhaktapur', controller.signal)
+    expect(client.searches[0].options?.signal).toBe(controller.signal)
+
+    controller.abort()
+    const result = await ReActTools.search('land price in Bhaktapur', controller.signal)
+    expect(result.success).toBe(false)
+    expect(client.searches).toHaveLength(1)
+  })
+})
@@ -1,5 +1,22 @@
-import { blink } from './blink'
+import { platform } from './platformClient'
+import { llmGateway } from './llmGateway'
+import { Property } from '@/types'
 import { memoryManager } from './memory-manager'
+import { profileKnownFacts, userProfileService, type UserProfile } from './userProfile'
+import { propertyDatabase } from './propertyDatabase'
+import { ToolRegistry } from './tool-registry'
+import { evaluateCalculation, CALCULATOR_USAGE } from './calculator'
+import { calculateAffordability, loanInputError, summarizeByYear, summarizeLoan } from './mortgage'
+import { estimateTransactionCosts, type CostableListing } from './transactionCosts'
+import { DEFAULT_LOAN_RATE_ID, LENDING_LIMITS, LOAN_RATES_UPDATED_AT, getLoanRate } from './loanRates'
+import { contentGuard, SOURCE_LENGTH_LIMITS } from './contentGuard'
+import { CURRENT_REACT_PROMPT_VERSION, getReActPromptVersion, type ReActPromptVersion } from './reactPrompts'
+import { detectLanguage, languageInstruction, type ReplyLanguage } from './nepaliLanguage'
+import { areaRangeSqm, understandQuery } from './queryUnderstanding'
+import { formatArea } from './landUnits'
+import type { ToolResult, ToolSource } from './tool-registry'
+
+export type { ToolResult, ToolSource }
 
 export interface ReActStep {
   type: 'thought' | 'action' | 'observation'
@@ -10,41 +27,154 @@ export interface ReActStep {
   toolResult?: ToolResult
 }
 
+export interface ProcessQueryOptions {
+  // Called as soon as each thought, action and observation is produced. Action steps
+  // are emitted before their tool runs, so a missing observation means it is in flight.
+  onStep?: (step: ReActStep) => void
+  // Aborting stops the run at the next model or tool call; the response then carries
+  // the steps finished so far with `cancelled` set
+  signal?: AbortSignal
+}
+
+export interface ClarificationField {
+  field: string
+  label: string
+  // Quick replies the user can pick instead of typing
+  options: string[]
+}
+
+export interface ClarificationRequest {
+  question: string
+  missingFields: ClarificationField[]
+  // What the user has already told us in this run, so it is not asked again
+  knownFacts: Record<string, string | number>
+}
+
+// A numbered source the final answer can cite as [n]
+export interface Citation extends ToolSource {
+  number: number
+  toolName: string
+  // Index of the observation step in this response's steps; absent for sources
+  // gathered before a clarification pause
+  stepIndex?: number
+}
+
 export interface ReActResponse {
   steps: ReActStep[]
   finalAnswer: string
   isComplete: boolean
   needsClarification: boolean
+  // Set when the run is paused on a Clarify action and will resume on the user's reply
+  clarification?: ClarificationRequest
+  // True when this response continues a run that was paused for clarification
+  resumed?: boolean
+  // Sources the final answer cites, in order of their [n] markers
+  citations?: Citation[]
+  // True when the user stopped the run; steps hold whatever finished before that
+  cancelled?: boolean
+  // The language the answer was asked for in, so prices can be shown to match
+  language?: ReplyLanguage
 }
 
-export interface ToolResult {
-  success: boolean
-  data: any
-  error?: string
-  executionTime?: number
+// A run paused on Clarify. Its scratchpad holds every step so far and ends with the
+// Clarify action, so the user's reply becomes that action's observation on resume.
+interface SuspendedRun {
+  userQuery: string
+  userReplies: string[]
+  systemPrompt: string
+  scratchpad: string
+  clarification: ClarificationRequest
+  citations: Citation[]
+  // The system prompt already asks for this language, so the resumed run keeps it
+  language: ReplyLanguage
 }
 
+// Everything that belongs to one processQuery call. It is passed down rather than kept
+// on the agent, so overlapping runs on the shared instance cannot see each other's steps
+interface RunState {
+  steps: ReActStep[]
+  // Sources gathered from tool results, numbered from 1
+  citations: Citation[]
+  onStep?: (step: ReActStep) => void
+  signal?: AbortSignal
+  language: ReplyLanguage
+  // The signed-in user's profile; null for anonymous runs
+  profile: UserProfile | null
+}
+
+// Fields the agent may ask about, with the quick replies offered for each. Quick replies
+// stay in English because they are parsed back into search criteria; only the label
+// is shown in Devanagari to users writing Nepali
+const CLARIFICATION_FIELDS: Record<string, { label: string; labelNe: string; options: string[] }> = {
+  price_type: { label: 'Rent or buy', labelNe: 'भाडा वा किन्ने', options: ['Rent', 'Buy'] },
+  property_type: { label: 'Property type', labelNe: 'सम्पत्तिको प्रकार', options: ['Apartment', 'House', 'Commercial', 'Land'] },
+  location: { label: 'Location', labelNe: 'स्थान', options: ['Kathmandu', 'Lalitpur', 'Bhaktapur'] },
+  budget: { label: 'Budget', labelNe: 'बजेट', options: [] },
+  bedrooms: { label: 'Bedrooms', labelNe: 'सुत्ने कोठा', options: ['1 bedroom', '2 bedrooms', '3 bedrooms', '4+ bedrooms'] },
+  purpose: { label: 'Purpose', labelNe: 'उद्देश्य', options: ['To live in', 'Investment', 'Business use'] },
+  amenities: { label: 'Must-haves', labelNe: 'अनिवार्य सुविधा', options: ['Parking', 'Furnished', 'Pet-friendly', '24/7 security'] }
+}
+
+const RENT_BUDGET_OPTIONS = ['Under NPR 20,000/month', 'NPR 20,000-40,000/month', 'NPR 40,000-80,000/month', 'Over NPR 80,000/month']
+const SALE_BUDGET_OPTIONS = ['Under NPR 10,000,000', 'NPR 10,000,000-30,000,000', 'NPR 30,000,000-60,000,000', 'Over NPR 60,000,000']
+
 // Available tools for the ReAct agent
 export class ReActTools {
-  // Real-time web search for current market data, news, regulations, etc.
-  static async search(query: string): Promise<ToolResult> {
+  // Real-time web search for current market data, news, regulations, etc. Result text
+  // is third-party content, so it is sanitised and quarantined before the model sees it
+  static async search(query: string, signal?: AbortSignal): Promise<ToolResult> {
     const startTime = Date.now()
     try {
-      const response = await blink.data.search(query, {
+      const response = await platform.data.search(query, {
         type: 'all',
-        limit: 10
+        limit: 10,
+        signal
       })
-      
+
+      const contentFiltered: Array<{ source: string; reasons: string[] }> = []
+      const guard = (text: string | undefined, source: string, maxLength: number) => {
+        const guarded = contentGuard.sanitize(text, source, maxLength)
+        if (guarded.filtered) contentFiltered.push({ source, reasons: guarded.reasons })
+        return guarded.text
+      }
+      const guardResult = <T extends { title: string; link: string; snippet: string }>(result: T): T => ({
+        ...result,
+        title: guard(result.title, result.link, SOURCE_LENGTH_LIMITS.webTitle),
+        snippet: guard(result.snippet, result.link, SOURCE_LENGTH_LIMITS.webSnippet)
+      })
+
+      const organicResults = (response.organic_results?.slice(0, 5) || []).map(guardResult)
+      const newsResults = (response.news_results?.slice(0, 3) || []).map(guardResult)
+      const rawAnswerBox = response.answer_box
+      const answerBox = rawAnswerBox
+        ? { ...rawAnswerBox, answer: guard(rawAnswerBox.answer, 'answer box', SOURCE_LENGTH_LIMITS.webSnippet) }
+        : null
+      const quarantined = (result: { title: string; link: string; snippet: string }) =>
+        `<untrusted source="${result.link.replace(/"/g, '')}">${result.title} — ${result.snippet}</untrusted>`
+
       return {
         success: true,
         data: {
           query: query,
-          organic_results: response.organic_results?.slice(0, 5) || [],
-          news_results: response.news_results?.slice(0, 3) || [],
+          organic_results: organicResults,
+          news_results: newsResults,
           related_searches: response.related_searches?.slice(0, 3) || [],
-          answer_box: response.answer_box || null,
-          total_results: response.organic_results?.length || 0
+          answer_box: answerBox,
+          total_results: response.organic_results?.length || 0,
+          content_filtered: contentFiltered
         },
+        observation: [
+          `Web results for "${query}" (untrusted third-party content):`,
+          ...(answerBox?.answer ? [`<untrusted source="answer box">${answerBox.answer}</untrusted>`] : []),
+          ...organicResults.map(quarantined),
+          ...newsResults.map(quarantined),
+          ...(contentFiltered.length > 0 ? [`Note: instruction-like text was removed from ${contentFiltered.length} result field(s).`] : [])
+        ].join('\n'),
+        sources: [...organicResults, ...newsResults].filter(result => result.link).map(result => ({
+          kind: 'web' as const,
+          title: result.title,
+          url: result.link
+        })),
         executionTime: Date.now() - startTime
       }
     } catch (error) {
@@ -52,24 +182,33 @@ export class ReActTools {
         success: false,
         data: null,
         error: `Search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        executionTime: Date.now() - startTime
+        executionTime: Date.now() - startTime,
+        transient: true
       }
     }
   }
 
   // Geospatial information like distances, commute times, POIs, etc.
-  static async maps(query: string): Promise<ToolResult> {
+  static async maps(query: string, signal?: AbortSignal): Promise<ToolResult> {
     const startTime = Date.now()
     try {
       // Use Google Maps API through our deployed edge function
       const response = await fetch('https://v02a98y5--google-maps-search.functions.blink.new', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query })
+        body: JSON.stringify({ query }),
+        signal
       })
       
       if (!response.ok) {
-        throw new Error(`Maps API error: ${response.statusText}`)
+        return {
+          success: false,
+          data: null,
+          error: `Maps API error: ${response.status} ${response.statusText}`,
+          executionTime: Date.now() - startTime,
+          // Rate limits and upstream errors clear up; a 4xx for the query itself will not
+          transient: response.status === 429 || response.status >= 500
+        }
       }
       
       const data = await response.json()
@@ -79,99 +218,60 @@ export class ReActTools {
         executionTime: Date.now() - startTime
       }
     } catch (error) {
-      // Fallback to mock data for development
       return {
-        success: true,
-        data: {
-          query: query,
-          places: [
-            {
-              name: query.includes('Kathmandu') ? 'Kathmandu Valley' : 'Nepal Location',
-              address: query,
-              coordinates: { lat: 27.7172, lng: 85.3240 },
-              nearby_amenities: ['Schools', 'Hospitals', 'Markets', 'Transport'],
-              commute_info: 'Well connected to major areas',
-              infrastructure: 'Good road connectivity and utilities',
-              safety_rating: 'Good',
-              demographics: 'Mixed residential and commercial area'
-            }
-          ],
-          infrastructure_projects: [
-            'Road expansion planned for 2024',
-            'New metro line under construction'
-          ],
-          commute_times: {
-            'City Center': '15-20 minutes',
-            'Airport': '30-40 minutes',
-            'Business District': '10-15 minutes'
-          }
-        },
-        executionTime: Date.now() - startTime
+        success: false,
+        data: null,
+        error: `Maps request failed: ${error instanceof Error ? error.message : 'Network error'}`,
+        executionTime: Date.now() - startTime,
+        transient: true
       }
     }
   }
 
-  // Mathematical calculations for ROI, rental yield, affordability, etc.
+  // Mathematical calculations for ROI, rental yield, affordability, etc. Input is parsed by
+  // the safe evaluator in ./calculator, never executed as code
   static async calculator(expression: string): Promise<ToolResult> {
     const startTime = Date.now()
-    try {
-      // Enhanced calculator with real estate specific calculations
-      let result: number
-      let calculation_type = 'basic'
-      
-      // Check for specific real estate calculations
-      if (expression.toLowerCase().includes('roi') || expression.toLowerCase().includes('return on investment')) {
-        // ROI calculation: ((Gain - Cost) / Cost) * 100
-        const match = expression.match(/(\d+(?:,\d{3})*(?:\.\d+)?)/g)
-        if (match && match.length >= 2) {
-          const gain = parseFloat(match[0].replace(/,/g, ''))
-          const cost = parseFloat(match[1].replace(/,/g, ''))
-          result = ((gain - cost) / cost) * 100
-          calculation_type = 'roi'
-        } else {
-          throw new Error('ROI calculation requires gain and cost values')
-        }
-      } else if (expression.toLowerCase().includes('rental yield')) {
-        // Rental yield: (Annual Rental Income / Property Value) * 100
-        const match = expression.match(/(\d+(?:,\d{3})*(?:\.\d+)?)/g)
-        if (match && match.length >= 2) {
-          const annualRent = parseFloat(match[0].replace(/,/g, ''))
-          const propertyValue = parseFloat(match[1].replace(/,/g, ''))
-          result = (annualRent / propertyValue) * 100
-          calculation_type = 'rental_yield'
-        } else {
-          throw new Error('Rental yield calculation requires annual rent and property value')
-        }
-      } else {
-        // Safe evaluation of mathematical expressions
-        const sanitizedExpression = expression.replace(/[^0-9+\-*/.() ]/g, '')
-        result = new Function(`return ${sanitizedExpression}`)()
-        calculation_type = 'basic'
-      }
-      
-      if (typeof result !== 'number' || !isFinite(result)) {
-        throw new Error('Invalid calculation result')
-      }
-      
+    const calculation = evaluateCalculation(expression)
+
+    if (!calculation.ok) {
       return {
-        success: true,
+        success: false,
         data: {
           expression: expression,
-          result: result,
-          formatted: result.toLocaleString(),
-          calculation_type: calculation_type,
-          interpretation: this.interpretCalculationResult(result, calculation_type)
+          error_code: calculation.error.code,
+          formula: calculation.error.formula,
+          missing_arguments: calculation.error.missingArguments,
+          allowed_arguments: calculation.error.allowedArguments,
+          usage: calculation.error.usage || CALCULATOR_USAGE
         },
-        executionTime: Date.now() - startTime
-      }
-    } catch (error) {
-      return {
-        success: false,
-        data: null,
-        error: `Calculation failed: ${error instanceof Error ? error.message : 'Invalid expression'}`,
+        // Syntax errors carry the full usage so the model can rewrite its input
+        error: `Calculation failed: ${calculation.error.message}${calculation.error.code === 'syntax_error' || calculation.error.code === 'unknown_formula' ? `. Usage: ${CALCULATOR_USAGE}` : ''}`,
         executionTime: Date.now() - startTime
       }
     }
+
+    const calculationId = ReActTools.newCalculationId()
+    return {
+      success: true,
+      data: {
+        calculation_id: calculationId,
+        expression: expression,
+        result: calculation.result,
+        formatted: calculation.formatted,
+        unit: calculation.unit,
+        inputs: calculation.inputs,
+        calculation_type: calculation.calculationType,
+        interpretation: this.interpretCalculationResult(calculation.result, calculation.calculationType)
+      },
+      sources: [{ kind: 'calculation', title: `${expression} = ${calculation.formatted}`, calculationId }],
+      executionTime: Date.now() - startTime
+    }
+  }
+
+  // Identifies a calculation so the final answer can cite it
+  private static newCalculationId(): string {
+    return `calc_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
   }
 
   private static interpretCalculationResult(result: number, type: string): string {
@@ -182,23 +282,218 @@ export class ReActTools {
         if (result > 10) return 'Moderate ROI - Acceptable investment'
         if (result > 5) return 'Low ROI - Consider other options'
         return 'Poor ROI - Not recommended'
-      case 'rental_yield':
+      case 'gross_yield':
+      case 'net_yield':
         if (result > 8) return 'Excellent rental yield - Very profitable'
         if (result > 6) return 'Good rental yield - Profitable investment'
         if (result > 4) return 'Moderate rental yield - Average returns'
         if (result > 2) return 'Low rental yield - Below market average'
         return 'Poor rental yield - Consider other investments'
+      case 'cap_rate':
+        if (result > 8) return 'High cap rate - Strong income relative to price'
+        if (result > 5) return 'Healthy cap rate - Reasonable income property'
+        if (result > 3) return 'Modest cap rate - Priced for appreciation more than income'
+        return 'Low cap rate - Income does not justify the price on its own'
       default:
         return 'Calculation completed successfully'
     }
   }
 
+  // Loan EMI, amortization and affordability from key=value inputs such as
+  // "income=150000, obligations=20000, down_payment=3000000, years=20, price=15000000"
+  static async mortgage(input: string): Promise<ToolResult> {
+    const startTime = Date.now()
+    const usage = 'income=<monthly income>, obligations=<existing monthly repayments>, down_payment=..., years=<tenure>, rate=<annual % (optional)>, price=<property price (optional)>'
+    const args: Record<string, number> = {}
+    for (const match of input.matchAll(/([a-z_]+)\s*[=:]\s*([\d,]*\.?\d+)/gi)) {
+      args[match[1].toLowerCase()] = parseFloat(match[2].replace(/,/g, ''))
+    }
+
+    if (args.price === undefined && args.income === undefined) {
+      return {
+        success: false,
+        data: { input, usage },
+        error: `Mortgage needs a price, an income, or both. Usage: ${usage}`,
+        executionTime: Date.now() - startTime
+      }
+    }
+
+    const defaultRate = getLoanRate(DEFAULT_LOAN_RATE_ID)!
+    const annualRate = args.rate ?? defaultRate.annualRate
+    const tenureYears = args.years ?? 20
+
+    const inputError = loanInputError(tenureYears, annualRate)
+    if (inputError) {
+      return {
+        success: false,
+        data: { input, usage },
+        error: `${inputError} Usage: ${usage}`,
+        executionTime: Date.now() - startTime
+      }
+    }
+
+    const downPayment = args.down_payment ?? (args.price !== undefined ? args.price * (1 - LENDING_LIMITS.maxLoanToValue) : 0)
+    const calculationId = ReActTools.newCalculationId()
+    const data: Record<string, any> = {
+      calculation_id: calculationId,
+      inputs: {
+        monthly_income: args.income,
+        monthly_obligations: args.obligations ?? 0,
+        down_payment: downPayment,
+        tenure_years: tenureYears,
+        annual_rate: annualRate,
+        price: args.price
+      },
+      rate_source: args.rate !== undefined ? 'user supplied' : `${defaultRate.label} (local rate table, ${LOAN_RATES_UPDATED_AT})`
+    }
+    // The table rate comes with its lender's longest tenure; a user-supplied rate names no lender
+    if (args.rate === undefined) {
+      data.lender_max_tenure_years = defaultRate.maxTenureYears
+      data.exceeds_lender_max_tenure = tenureYears > defaultRate.maxTenureYears
+    }
+
+    if (args.price !== undefined) {
+      const loan = summarizeLoan(Math.max(0, args.price - downPayment), annualRate, tenureYears)
+      data.loan = {
+        principal: Math.round(loan.principal),
+        emi: Math.round(loan.emi),
+        total_interest: Math.round(loan.totalInterest),
+        total_payment: Math.round(loan.totalPayment),
+        months: loan.months,
+        loan_to_value: args.price > 0 ? loan.principal / args.price : 0,
+        exceeds_loan_to_value_limit: loan.principal > args.price * LENDING_LIMITS.maxLoanToValue,
+        yearly_schedule: summarizeByYear(loan.schedule).map(year => ({
+          year: year.year,
+          principal: Math.round(year.principal),
+          interest: Math.round(year.interest),
+          balance: Math.round(year.balance)
+        }))
+      }
+    }
+
+    if (args.income !== undefined) {
+      const affordability = calculateAffordability({
+        monthlyIncome: args.income,
+        monthlyObligations: args.obligations ?? 0,
+        downPayment,
+        tenureYears,
+        annualRate
+      })
+      data.affordability = {
+        max_emi: Math.round(affordability.maxEmi),
+        max_loan_amount: Math.round(affordability.maxLoanAmount),
+        max_property_price: Math.round(affordability.maxPropertyPrice),
+        limited_by: affordability.limitedBy,
+        max_loan_to_value: affordability.limits.maxLoanToValue,
+        max_debt_to_income: affordability.limits.maxDebtToIncome
+      }
+      if (args.price !== undefined) {
+        data.can_afford = args.price <= affordability.maxPropertyPrice
+      }
+    }
+
+    const summary = [
+      data.loan && `EMI NPR ${data.loan.emi.toLocaleString()}/month`,
+      data.affordability && `max price NPR ${data.affordability.max_property_price.toLocaleString()}`
+    ].filter(Boolean).join(', ')
+
+    return {
+      success: true,
+      data,
+      // The yearly schedule is for the UI; the model only needs the totals
+      observation: JSON.stringify({ ...data, loan: data.loan && { ...data.loan, yearly_schedule: undefined } }),
+      sources: [{ kind: 'calculation', title: `Loan calculation: ${summary}`, calculationId }],
+      executionTime: Date.now() - startTime
+    }
+  }
+
+  // Itemised purchase costs for a sale listing from key=value inputs such as
+  // "property_id=abc123, buyer=woman" or "price=20000000, city=Lalitpur"
+  static async transactionCosts(input: string): Promise<ToolResult> {
+    const startTime = Date.now()
+    const usage = 'property_id=<listing id> or price=<NPR> with city=<city>; optional buyer=individual|woman|joint_spouses|company, purchase_price=<seller\'s purchase price>, holding_years=<years held by seller>, broker=no'
+    const args: Record<string, string> = {}
+    for (const part of input.split(/,\s*(?=[a-z_]+\s*[=:])/i)) {
+      const match = part.match(/^\s*([a-z_]+)\s*[=:]\s*(.+?)\s*$/i)
+      if (match) args[match[1].toLowerCase()] = match[2].replace(/^["']|["']$/g, '')
+    }
+    const toNumber = (value?: string) => value !== undefined ? parseFloat(value.replace(/,/g, '')) : undefined
+
+    try {
+      let listing: CostableListing
+      let listingTitle = ''
+      if (args.property_id) {
+        const property = await propertyDatabase.getPropertyById(args.property_id)
+        if (!property) throw new Error(`No listing found with id ${args.property_id}`)
+        listing = property
+        listingTitle = property.title
+      } else if (args.price) {
+        listing = {
+          id: 'unlisted',
+          price: toNumber(args.price)!,
+          priceType: 'sale',
+          location: { city: args.city || '' }
+        }
+      } else {
+        throw new Error(`Give a property_id or a price. Usage: ${usage}`)
+      }
+
+      const buyerCategory = (['individual', 'woman', 'joint_spouses', 'company'] as const)
+        .find(category => category === args.buyer) || 'individual'
+      const usesBroker = !/^(no|false|none)$/i.test(args.broker || '')
+      const estimate = estimateTransactionCosts(
+        listing,
+        { category: buyerCategory, usesBroker },
+        { purchasePrice: toNumber(args.purchase_price), holdingYears: toNumber(args.holding_years), usesBroker }
+      )
+
+      const calculationId = ReActTools.newCalculationId()
+      return {
+        success: true,
+        data: {
+          calculation_id: calculationId,
+          property_id: estimate.propertyId,
+          price: estimate.price,
+          local_body_type: estimate.localBodyType,
+          rules_version: estimate.rulesVersion,
+          buyer_category: buyerCategory,
+          items: estimate.items.map(item => ({
+            label: item.label,
+            paid_by: item.paidBy,
+            amount: item.amount !== null ? Math.round(item.amount) : null,
+            basis: item.basis
+          })),
+          buyer_total: Math.round(estimate.buyerTotal),
+          seller_total: Math.round(estimate.sellerTotal),
+          buyer_all_in: Math.round(estimate.buyerAllIn),
+          assumptions: estimate.assumptions
+        },
+        sources: [
+          {
+            kind: 'calculation',
+            title: `Transaction costs (rules ${estimate.rulesVersion}): NPR ${Math.round(estimate.buyerAllIn).toLocaleString()} to buy`,
+            calculationId
+          },
+          ...(args.property_id ? [{ kind: 'listing' as const, title: listingTitle, propertyId: args.property_id }] : [])
+        ],
+        executionTime: Date.now() - startTime
+      }
+    } catch (error) {
+      return {
+        success: false,
+        data: { input, usage },
+        error: `Transaction cost estimate failed: ${error instanceof Error ? error.message : 'Invalid input'}`,
+        executionTime: Date.now() - startTime
+      }
+    }
+  }
+
   // Internal market data, investment trends, value-addition strategies
-  static async marketAnalysis(topic: string): Promise<ToolResult> {
+  static async marketAnalysis(topic: string, signal?: AbortSignal): Promise<ToolResult> {
     const startTime = Date.now()
     try {
       // Enhanced market analysis with structured data
-      const response = await blink.ai.generateObject({
+      const response = await llmGateway.generateObject('market_analysis', {
         prompt: `Provide a comprehensive market analysis for Nepal's real estate market on the topic: "${topic}". 
         
         Include:
@@ -239,7 +534,8 @@ export class ReActTools {
             recommendations: { type: 'array', items: { type: 'string' } }
           },
           required: ['topic', 'market_overview', 'current_trends', 'investment_insights']
-        }
+        },
+        signal
       })
       
       return {
@@ -250,9 +546,11 @@ export class ReActTools {
     } catch (error) {
       // Fallback to text generation if object generation fails
       try {
-        const response = await blink.ai.generateText({
+        signal?.throwIfAborted()
+        const response = await llmGateway.generateText('market_analysis', {
           prompt: `Provide a detailed market analysis for Nepal's real estate market on the topic: "${topic}". Include current trends, investment insights, risks, opportunities, and recommendations.`,
-          maxTokens: 500
+          maxTokens: 500,
+          signal
         })
         
         return {
@@ -270,7 +568,8 @@ export class ReActTools {
           success: false,
           data: null,
           error: `Market analysis failed: ${error instanceof Error ? error.message : 'Analysis unavailable'}`,
-          executionTime: Date.now() - startTime
+          executionTime: Date.now() - startTime,
+          transient: true
         }
       }
     }
@@ -282,120 +581,82 @@ export class ReActTools {
     try {
       // Parse the query to extract search criteria
       const searchCriteria = ReActTools.parsePropertyQuery(query)
+      const areaRange = searchCriteria.area ? areaRangeSqm(searchCriteria.area) : {}
       
-      // Enhanced mock property database with more realistic data
-      const mockProperties = [
-        {
-          id: '1',
-          title: '2BHK Modern Apartment in Kupondole',
-          price: 32000,
-          priceType: 'rent',
-          bedrooms: 2,
-          bathrooms: 2,
-          area: 800,
-          location: 'Kupondole, Lalitpur',
-          amenities: ['Parking', 'WiFi', 'Security', 'Elevator'],
-          features: ['Modern Kitchen', 'Balcony', 'Furnished'],
-          match_score: 0.95,
-          property_age: '2 years',
-          floor: '4th Floor'
-        },
-        {
-          id: '2',
-          title: '2BHK Spacious Flat in Pulchowk',
-          price: 35000,
-          priceType: 'rent',
-          bedrooms: 2,
-          bathrooms: 2,
-          area: 900,
-          location: 'Pulchowk, Lalitpur',
-          amenities: ['Parking', 'Elevator', 'Garden', 'Security'],
-          features: ['Garden View', 'Semi-Furnished', 'Storage'],
-          match_score: 0.88,
-          property_age: '1 year',
-          floor: '3rd Floor'
-        },
-        {
-          id: '3',
-          title: '3BHK Family House in Baneshwor',
-          price: 45000,
-          priceType: 'rent',
-          bedrooms: 3,
-          bathrooms: 3,
-          area: 1200,
-          location: 'Baneshwor, Kathmandu',
-          amenities: ['Parking', 'Garden', 'Security', 'Water Tank'],
-          features: ['Independent House', 'Terrace', 'Unfurnished'],
-          match_score: 0.82,
-          property_age: '5 years',
-          floor: 'Ground + 1'
-        },
-        {
-          id: '4',
-          title: 'Commercial Space in Thamel',
-          price: 80000,
-          priceType: 'rent',
-          bedrooms: 0,
-          bathrooms: 2,
-          area: 600,
-          location: 'Thamel, Kathmandu',
-          amenities: ['Parking', 'WiFi', 'Security', 'Generator'],
-          features: ['Street Facing', 'High Footfall', 'Restaurant Ready'],
-          match_score: 0.90,
-          property_age: '3 years',
-          floor: 'Ground Floor'
-        },
-        {
-          id: '5',
-          title: 'Land for Sale in Godawari',
-          price: 15000000,
-          priceType: 'sale',
-          bedrooms: 0,
-          bathrooms: 0,
-          area: 5,
-          areaUnit: 'ropani',
-          location: 'Godawari, Lalitpur',
-          amenities: ['Road Access', 'Electricity', 'Water Source'],
-          features: ['Development Ready', 'Clear Title', 'Investment Grade'],
-          match_score: 0.85,
-          property_age: 'N/A',
-          floor: 'N/A'
-        }
-      ]
+      const [filteredProperties, inventory] = await Promise.all([
+        propertyDatabase.getPropertiesByFilters({
+          priceType: searchCriteria.priceType,
+          propertyType: searchCriteria.propertyType,
+          minPrice: searchCriteria.minPrice,
+          maxPrice: searchCriteria.maxPrice,
+          bedrooms: searchCriteria.bedrooms,
+          minAreaSqm: areaRange.min,
+          maxAreaSqm: areaRange.max
+        }),
+        propertyDatabase.getAllProperties()
+      ])
+      
+      // Locations in queries are usually neighbourhoods, so match them against the whole address
+      const matchingProperties = searchCriteria.location
+        ? filteredProperties.filter(property => {
+            const location = `${property.location.address} ${property.location.city} ${property.location.district}`.toLowerCase()
+            return location.includes(searchCriteria.location.toLowerCase())
+          })
+        : filteredProperties
       
-      // Filter based on criteria
-      const filteredProperties = mockProperties.filter(prop => {
-        if (searchCriteria.maxPrice && prop.price > searchCriteria.maxPrice) return false
-        if (searchCriteria.minPrice && prop.price < searchCriteria.minPrice) return false
-        if (searchCriteria.bedrooms && prop.bedrooms !== searchCriteria.bedrooms) return false
-        if (searchCriteria.location && !prop.location.toLowerCase().includes(searchCriteria.location.toLowerCase())) return false
-        if (searchCriteria.propertyType) {
-          if (searchCriteria.propertyType === 'commercial' && !prop.title.toLowerCase().includes('commercial')) return false
-          if (searchCriteria.propertyType === 'land' && !prop.title.toLowerCase().includes('land')) return false
-          if (searchCriteria.propertyType === 'house' && !prop.title.toLowerCase().includes('house')) return false
-          if (searchCriteria.propertyType === 'apartment' && !prop.title.toLowerCase().includes('apartment') && !prop.title.toLowerCase().includes('flat')) return false
+      const properties = matchingProperties.slice(0, 10) // Limit to top 10 results
+      const databaseStats = ReActTools.computeInventoryStats(inventory)
+      // Titles, descriptions and addresses are written by listing owners, so they are
+      // quarantined before the model sees them; the other fields come from validated columns
+      const contentFiltered: Array<{ source: string; reasons: string[] }> = []
+      const guardedProperties = properties.map(property => {
+        const source = `listing:${property.id}`
+        const title = contentGuard.quarantine(property.title, source, SOURCE_LENGTH_LIMITS.listingTitle)
+        const description = contentGuard.quarantine(property.description, source, SOURCE_LENGTH_LIMITS.listingDescription)
+        const address = contentGuard.sanitize(property.location.address, source, SOURCE_LENGTH_LIMITS.listingField)
+        const amenities = property.amenities.map(amenity => contentGuard.sanitize(amenity, source, SOURCE_LENGTH_LIMITS.listingField))
+        const guarded = [title, description, address, ...amenities].filter(field => field.filtered)
+        if (guarded.length > 0) {
+          contentFiltered.push({ source, reasons: [...new Set(guarded.flatMap(field => field.reasons))] })
+        }
+        return {
+          id: property.id,
+          title: title.text,
+          description: description.text,
+          price: property.price,
+          priceType: property.priceType,
+          propertyType: property.propertyType,
+          bedrooms: property.bedrooms,
+          bathrooms: property.bathrooms,
+          // As listed, with sqm alongside so sizes in different units can be compared
+          area: property.areaUnit === 'sqm' ? formatArea(property) : `${formatArea(property)} (${formatArea(property, 'sqm')})`,
+          location: address.text,
+          city: property.location.city,
+          amenities: amenities.map(amenity => amenity.text)
         }
-        if (searchCriteria.priceType && prop.priceType !== searchCriteria.priceType) return false
-        return true
       })
       
-      // Sort by match score
-      filteredProperties.sort((a, b) => b.match_score - a.match_score)
-      
       return {
         success: true,
         data: {
           query: query,
-          total_found: filteredProperties.length,
-          properties: filteredProperties.slice(0, 10), // Limit to top 10 results
+          total_found: matchingProperties.length,
+          properties,
           search_criteria: searchCriteria,
-          database_stats: {
-            total_properties: mockProperties.length,
-            avg_rent_2bhk: 35000,
-            avg_sale_price_land: 12000000,
-            popular_areas: ['Kupondole', 'Pulchowk', 'Baneshwor', 'Thamel']
-          }
+          database_stats: databaseStats,
+          content_filtered: contentFiltered
         },
+        observation: JSON.stringify({
+          total_found: matchingProperties.length,
+          properties: guardedProperties,
+          search_criteria: searchCriteria,
+          database_stats: databaseStats
+        }),
+        sources: properties.map(property => ({
+          kind: 'listing' as const,
+          title: `${property.title} — NPR ${property.price.toLocaleString()}`,
+          propertyId: property.id
+        })),
         executionTime: Date.now() - startTime
       }
     } catch (error) {
@@ -403,37 +664,69 @@ export class ReActTools {
         success: false,
         data: null,
         error: `Property database query failed: ${error instanceof Error ? error.message : 'Query error'}`,
-        executionTime: Date.now() - startTime
+        executionTime: Date.now() - startTime,
+        transient: true
       }
     }
   }
 
+  // Market figures derived from the active listings rather than assumed
+  private static computeInventoryStats(inventory: Property[]) {
+    const average = (values: number[]) => values.length > 0
+      ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length)
+      : null
+
+    const avgRentByBedrooms: Record<string, number | null> = {}
+    const rentals = inventory.filter(property => property.priceType === 'rent')
+    for (const bedrooms of new Set(rentals.map(property => property.bedrooms || 0))) {
+      avgRentByBedrooms[bedrooms === 0 ? 'no_bedrooms' : `${bedrooms}bhk`] = average(
+        rentals.filter(property => (property.bedrooms || 0) === bedrooms).map(property => property.price)
+      )
+    }
+
+    const avgSalePriceByType: Record<string, number | null> = {}
+    const sales = inventory.filter(property => property.priceType === 'sale')
+    for (const propertyType of new Set(sales.map(property => property.propertyType))) {
+      avgSalePriceByType[propertyType] = average(
+        sales.filter(property => property.propertyType === propertyType).map(property => property.price)
+      )
+    }
+
+    const areaCounts = new Map<string, number>()
+    for (const property of inventory) {
+      const area = property.location.address.split(',')[0].trim() || property.location.city
+      if (area) areaCounts.set(area, (areaCounts.get(area) || 0) + 1)
+    }
+
+    return {
+      total_properties: inventory.length,
+      total_for_rent: rentals.length,
+      total_for_sale: sales.length,
+      avg_rent_by_bedrooms: avgRentByBedrooms,
+      avg_sale_price_by_type: avgSalePriceByType,
+      popular_areas: Array.from(areaCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 5)
+        .map(([area]) => area)
+    }
+  }
+
   // Enhanced helper function to parse property queries
-  private static parsePropertyQuery(query: string): any {
+  static parsePropertyQuery(query: string): any {
     const criteria: any = {}
+    const understood = understandQuery(query)
     
-    // Extract price range
-    const priceMatch = query.match(/(\d+(?:,\d{3})*(?:\.\d+)?)(?:\s*-\s*(\d+(?:,\d{3})*(?:\.\d+)?))?(?:\s*(?:NPR|rupees?|rs\.?))/i)
-    if (priceMatch) {
-      criteria.minPrice = parseInt(priceMatch[1].replace(/,/g, ''))
-      if (priceMatch[2]) {
-        criteria.maxPrice = parseInt(priceMatch[2].replace(/,/g, ''))
-      }
+    // Budget, bedrooms and size, read the same way as everywhere else in the app
+    if (understood.budget) {
+      criteria.minPrice = understood.budget.min
+      criteria.maxPrice = understood.budget.max
+      if (understood.budget.period) criteria.pricePeriod = understood.budget.period
     }
-    
-    // Extract budget range
-    const budgetMatch = query.match(/budget\s+(?:of\s+)?(?:NPR\s+)?(\d+(?:,\d{3})*(?:\.\d+)?)(?:\s*-\s*(\d+(?:,\d{3})*(?:\.\d+)?))?/i)
-    if (budgetMatch) {
-      criteria.minPrice = parseInt(budgetMatch[1].replace(/,/g, ''))
-      if (budgetMatch[2]) {
-        criteria.maxPrice = parseInt(budgetMatch[2].replace(/,/g, ''))
-      }
+    if (understood.bedrooms) {
+      criteria.bedrooms = understood.bedrooms
     }
-    
-    // Extract bedrooms
-    const bedroomMatch = query.match(/(\d+)\s*(?:BHK|bedroom|BR|bed)/i)
-    if (bedroomMatch) {
-      criteria.bedrooms = parseInt(bedroomMatch[1])
+    if (understood.area) {
+      criteria.area = { text: understood.area.text, sqm: Math.round(understood.area.sqm), bound: understood.area.bound }
     }
     
     // Extract location
@@ -444,53 +737,183 @@ export class ReActTools {
     
     // Extract property type
     if (query.toLowerCase().includes('commercial')) criteria.propertyType = 'commercial'
-    else if (query.toLowerCase().includes('land')) criteria.propertyType = 'land'
+    else if (query.toLowerCase().includes('land') || understood.area?.kind === 'land') criteria.propertyType = 'land'
     else if (query.toLowerCase().includes('house')) criteria.propertyType = 'house'
     else if (query.toLowerCase().includes('apartment') || query.toLowerCase().includes('flat')) criteria.propertyType = 'apartment'
     
-    // Extract price type (rent/sale)
-    if (query.toLowerCase().includes('for rent') || query.toLowerCase().includes('rental')) criteria.priceType = 'rent'
-    else if (query.toLowerCase().includes('for sale') || query.toLowerCase().includes('buy')) criteria.priceType = 'sale'
+    // Rent or sale, including what a "per month" or "crore" amount implies
+    if (understood.intent) criteria.priceType = understood.intent
     
     return criteria
   }
 
-  // Clarification tool - used when user input is ambiguous
-  static async clarify(question: string): Promise<ToolResult> {
+  // Clarification tool - used when user input is ambiguous. The input is the question,
+  // optionally followed by a "Missing: field, field" line naming what is needed
+  static async clarify(input: string): Promise<ToolResult> {
+    const missingMatch = input.match(/^\s*Missing:\s*(.+)$/im)
+    const question = input.replace(/^\s*Missing:.*$/im, '').trim()
+    const missingFields = (missingMatch?.[1] || '')
+      .split(/[,;]/)
+      .map(field => field.trim().toLowerCase().replace(/[\s-]+/g, '_'))
+      .filter(field => field in CLARIFICATION_FIELDS)
+
     return {
       success: true,
       data: {
         clarification_needed: true,
-        question: question,
-        suggested_details: [
-          'Property type (apartment, house, commercial, land)',
-          'Budget range in NPR',
-          'Preferred location/area',
-          'Number of bedrooms/bathrooms',
-          'Rent or purchase',
-          'Specific amenities or features'
-        ]
+        question,
+        missing_fields: missingFields
       },
       executionTime: 0
     }
   }
+
+  // Facts stated in the user's own words so far, keyed by clarification field
+  static extractKnownFacts(userText: string): Record<string, string | number> {
+    const criteria = ReActTools.parsePropertyQuery(userText)
+    const facts: Record<string, string | number> = {}
+    if (criteria.priceType) facts.price_type = criteria.priceType
+    if (criteria.propertyType) facts.property_type = criteria.propertyType
+    if (criteria.location) facts.location = criteria.location
+    if (criteria.bedrooms) facts.bedrooms = criteria.bedrooms
+    if (criteria.minPrice && criteria.maxPrice) {
+      facts.budget = `${criteria.minPrice}-${criteria.maxPrice}`
+    } else if (criteria.maxPrice || criteria.minPrice) {
+      facts.budget = criteria.maxPrice || `${criteria.minPrice}+`
+    }
+    return facts
+  }
 }
 
+// Built-in tools. Register additional tools on this registry (or pass a custom one
+// to ReActAgent) and they appear in the prompt and dispatcher automatically.
+export const toolRegistry = new ToolRegistry()
+
+toolRegistry.register({
+  name: 'Search',
+  description: 'Performs a real-time web search for current market data, news, regulations, rental trends, historical appreciation, or general information. Prioritize this for fresh, broad knowledge.',
+  inputSchema: { name: 'query', type: 'string', description: 'A web search query.' },
+  timeoutMs: 15000,
+  retry: { maxAttempts: 2, backoffMs: 1000, budgetMs: 35000 },
+  handler: (input, signal) => ReActTools.search(input, signal)
+})
+
+toolRegistry.register({
+  name: 'Maps',
+  description: 'Provides detailed geospatial information like distances, commute times, points of interest (POIs), neighborhood demographics, infrastructure plans, safety data, and specific location-based analyses.',
+  inputSchema: { name: 'query', type: 'string', description: 'A place, area or location question.' },
+  timeoutMs: 10000,
+  retry: { maxAttempts: 3, backoffMs: 500, budgetMs: 25000 },
+  handler: (input, signal) => ReActTools.maps(input, signal)
+})
+
+toolRegistry.register({
+  name: 'Calculator',
+  description: 'Executes mathematical calculations for ROI, rental yield, cap rate, price per area, loan EMI, or investment projections. Formulas take named arguments; never describe the calculation in words.',
+  inputSchema: { name: 'expression', type: 'string', description: CALCULATOR_USAGE },
+  timeoutMs: 2000,
+  handler: (input) => ReActTools.calculator(input)
+})
+
+toolRegistry.register({
+  name: 'Mortgage',
+  description: 'Calculates home-loan EMI, total interest and the repayment schedule for a price, and the maximum affordable property price from income, existing obligations, down payment and tenure. Uses the local bank rate table unless a rate is given.',
+  inputSchema: { name: 'inputs', type: 'string', description: 'Comma-separated key=value numbers: income, obligations, down_payment, years, rate (annual %), price. Give a price, an income, or both.' },
+  timeoutMs: 2000,
+  handler: (input) => ReActTools.mortgage(input)
+})
+
+toolRegistry.register({
+  name: 'TransactionCosts',
+  description: 'Itemises the real cost of buying a sale listing in Nepal: land registration fee, local-body charges, stamp and deed costs, brokerage, and the seller\'s capital gains tax, from the versioned local rules table. Use this instead of MarketAnalysis for "what will it really cost" questions.',
+  inputSchema: { name: 'inputs', type: 'string', description: 'Comma-separated key=value pairs: property_id (from PropertyDatabase) or price with city; optional buyer (individual, woman, joint_spouses, company), purchase_price, holding_years, broker=no.' },
+  timeoutMs: 10000,
+  handler: (input) => ReActTools.transactionCosts(input)
+})
+
+toolRegistry.register({
+  name: 'MarketAnalysis',
+  description: 'Accesses internal, aggregated market data, specific property type insights, investment trends, and value-addition strategies for real estate. Use this for specific real estate financial or strategic insights.',
+  inputSchema: { name: 'topic', type: 'string', description: 'The market topic to analyse.' },
+  timeoutMs: 30000,
+  retry: { maxAttempts: 2, backoffMs: 1000, budgetMs: 45000 },
+  handler: (input, signal) => ReActTools.marketAnalysis(input, signal)
+})
+
+toolRegistry.register({
+  name: 'PropertyDatabase',
+  description: 'Queries your internal database for existing property listings, past sales data, or property-specific attributes.',
+  inputSchema: { name: 'query', type: 'string', description: 'Listing criteria such as bedrooms, location, budget and rent or sale.' },
+  timeoutMs: 10000,
+  retry: { maxAttempts: 3, backoffMs: 300, budgetMs: 20000 },
+  handler: (input) => ReActTools.propertyDatabase(input)
+})
+
+toolRegistry.register({
+  name: 'Clarify',
+  description: "Used when the user's request is ambiguous or lacks crucial details. This is an explicit action to ask the user for more information before proceeding. Do NOT use this if you have enough information to make an informed recommendation or plan.",
+  inputSchema: { name: 'question', type: 'string', description: `The specific question to ask the user, then on its own line "Missing: " followed by the fields you need from: ${Object.keys(CLARIFICATION_FIELDS).join(', ')}.` },
+  timeoutMs: 1000,
+  handler: (input) => ReActTools.clarify(input)
+})
+
 export class ReActAgent {
-  private steps: ReActStep[] = []
   private maxSteps = 15
+  private maxObservationLength = 4000
+  private registry: ToolRegistry
+  // Runs paused on Clarify, keyed by user, waiting for the user's reply
+  private suspendedRuns = new Map<string, SuspendedRun>()
+  private promptVersion: ReActPromptVersion
+
+  // The prompt version can be a registered version name or a draft that is not
+  // registered yet, so an evaluation can try a prompt before it ships
+  constructor(registry: ToolRegistry = toolRegistry, promptVersion: string | ReActPromptVersion = CURRENT_REACT_PROMPT_VERSION) {
+    this.registry = registry
+    const resolved = typeof promptVersion === 'string' ? getReActPromptVersion(promptVersion) : promptVersion
+    if (!resolved) {
+      throw new Error(`Unknown ReAct prompt version: ${promptVersion}`)
+    }
+    this.promptVersion = resolved
+  }
+
+  getPromptVersion(): string {
+    return this.promptVersion.version
+  }
   
-  async processQuery(userQuery: string, userId?: string): Promise<ReActResponse> {
-    this.steps = []
+  // If the last run for this user paused on Clarify, the query is treated as the
+  // answer and that run resumes; otherwise a new run starts
+  async processQuery(userQuery: string, userId?: string, options: ProcessQueryOptions = {}): Promise<ReActResponse> {
+    const state: RunState = {
+      steps: [],
+      citations: [],
+      onStep: options.onStep,
+      signal: options.signal,
+      language: { language: 'en' },
+      profile: null
+    }
+    const runKey = this.runKey(userId)
+    const suspended = this.suspendedRuns.get(runKey)
+    this.suspendedRuns.delete(runKey)
     
     try {
+      state.signal?.throwIfAborted()
+
       // Initialize memory session if userId provided
       if (userId) {
         await memoryManager.initializeSession(userId)
-        await memoryManager.addToSearchHistory(userQuery)
+        if (!suspended) {
+          await memoryManager.addToSearchHistory(userQuery)
+        }
       }
       
-      const response = await this.runReActLoop(userQuery, userId)
+      state.profile = userId ? userProfileService.get() : null
+      state.language = suspended ? suspended.language : await this.resolveLanguage(userQuery, userId)
+      const response = {
+        ...(suspended
+          ? await this.resumeReActLoop(state, suspended, userQuery, runKey)
+          : await this.runReActLoop(state, userQuery, userId, runKey)),
+        language: state.language
+      }
       
       // Store conversation in memory
       if (userId) {
@@ -503,12 +926,14 @@ export class ReActAgent {
           role: 'assistant',
           content: response.finalAnswer,
           metadata: {
-            toolCalls: this.steps.filter(s => s.type === 'action').map(s => ({
+            clarification: response.clarification,
+            citations: response.citations,
+            toolCalls: state.steps.filter(s => s.type === 'action').map(s => ({
               name: s.actionName,
               input: s.actionInput,
               result: s.toolResult
             })),
-            reasoning: this.steps.map(s => ({
+            reasoning: state.steps.map(s => ({
               type: s.type,
               content: s.content,
               timestamp: s.timestamp
@@ -519,19 +944,191 @@ export class ReActAgent {
       
       return response
     } catch (error) {
+      if (state.signal?.aborted) {
+        // A stopped run is not saved to memory: the user usually resends it with a
+        // correction, and a half-finished answer should not become context. A paused
+        // run is kept so its clarification can still be answered.
+        if (suspended) this.suspendedRuns.set(runKey, suspended)
+        return {
+          steps: state.steps,
+          finalAnswer: '',
+          isComplete: false,
+          needsClarification: false,
+          cancelled: true
+        }
+      }
       console.error('ReAct Agent error:', error)
       return {
-        steps: this.steps,
-        finalAnswer: "I apologize, but I encountered an error while processing your request. Please try rephrasing your question or being more specific about what you're looking for.",
+        steps: state.steps,
+        finalAnswer: state.language.language === 'ne' && state.language.script !== 'romanized'
+          ? 'माफ गर्नुहोस्, तपाईंको अनुरोध प्रक्रिया गर्दा समस्या आयो। कृपया आफ्नो प्रश्न अलि फरक तरिकाले वा थप विवरणसहित फेरि सोध्नुहोस्।'
+          : "I apologize, but I encountered an error while processing your request. Please try rephrasing your question or being more specific about what you're looking for.",
         isComplete: true,
-        needsClarification: false
+        needsClarification: false,
+        language: state.language
       }
     }
   }
   
-  private async runReActLoop(userQuery: string, userId?: string): Promise<ReActResponse> {
+  getPendingClarification(userId?: string): ClarificationRequest | undefined {
+    return this.suspendedRuns.get(this.runKey(userId))?.clarification
+  }
+
+  // Drops a paused run so the next query starts fresh
+  discardPendingClarification(userId?: string): void {
+    this.suspendedRuns.delete(this.runKey(userId))
+  }
+
+  private async runReActLoop(state: RunState, userQuery: string, userId: string | undefined, runKey: string): Promise<ReActResponse> {
+    const systemPrompt = await this.buildSystemPrompt(state, userQuery, userId)
+    return this.continueReActLoop(state, { userQuery, userReplies: [], systemPrompt, scratchpad: '\n\n' }, runKey)
+  }
+
+  private async resumeReActLoop(state: RunState, suspended: SuspendedRun, reply: string, runKey: string): Promise<ReActResponse> {
+    const userReplies = [...suspended.userReplies, reply]
+    // Earlier sources keep their numbers; their steps belong to the previous response
+    state.citations = suspended.citations.map(citation => ({ ...citation, stepIndex: undefined }))
+    const knownFacts = ReActTools.extractKnownFacts([suspended.userQuery, ...userReplies].join('\n'))
+    const scratchpad = `${suspended.scratchpad}Observation: The user replied: "${reply}"${Object.keys(knownFacts).length > 0 ? `\nKnown so far: ${JSON.stringify(knownFacts)}` : ''}\n\n`
+
+    const response = await this.continueReActLoop(state, {
+      userQuery: suspended.userQuery,
+      userReplies,
+      systemPrompt: suspended.systemPrompt,
+      scratchpad
+    }, runKey)
+    return { ...response, resumed: true }
+  }
+
+  private async continueReActLoop(
+    state: RunState,
+    run: Omit<SuspendedRun, 'clarification' | 'citations' | 'language'>,
+    runKey: string
+  ): Promise<ReActResponse> {
+    const { systemPrompt } = run
+    let scratchpad = run.scratchpad
+
+    // Each iteration asks the model for its next Thought/Action, runs the tool and
+    // feeds the real observation back in before asking again
+    while (state.steps.length < this.maxSteps) {
+      const response = await llmGateway.generateText('agent_reasoning', {
+        prompt: `${systemPrompt}${scratchpad}`,
+        maxTokens: 1000,
+        signal: state.signal
+      })
+      state.signal?.throwIfAborted()
+
+      const turn = this.parseModelTurn(response.text)
+
+      if (turn.thought) {
+        this.pushStep(state, {
+          type: 'thought',
+          content: turn.thought,
+          timestamp: new Date()
+        })
+      }
+
+      if (turn.actionName && turn.actionInput !== undefined) {
+        const actionStep: ReActStep = {
+          type: 'action',
+          content: `Action: ${turn.actionName}\nAction Input: ${turn.actionInput}`,
+          actionName: turn.actionName,
+          actionInput: turn.actionInput,
+          timestamp: new Date()
+        }
+        this.pushStep(state, actionStep)
+
+        const observation = await this.executeToolAsync(state, actionStep)
+        state.signal?.throwIfAborted()
+        const turnText = `${turn.thought ? `Thought: ${turn.thought}\n` : ''}Action: ${turn.actionName}\nAction Input: ${turn.actionInput}\n`
+
+        // Clarify pauses the run until the user answers
+        if (turn.actionName.toLowerCase() === 'clarify' && actionStep.toolResult?.success) {
+          const clarification = this.buildClarification(
+            state,
+            actionStep.toolResult.data,
+            [run.userQuery, ...run.userReplies].join('\n')
+          )
+          this.suspendedRuns.set(runKey, { ...run, scratchpad: scratchpad + turnText, clarification, citations: state.citations, language: state.language })
+          return {
+            steps: state.steps,
+            finalAnswer: clarification.question,
+            isComplete: false,
+            needsClarification: true,
+            clarification
+          }
+        }
+
+        scratchpad += `${turnText}Observation: ${observation}\n\n`
+        continue
+      }
+
+      if (turn.finalAnswer) {
+        return this.buildFinalResponse(state, turn.finalAnswer)
+      }
+
+      // The model answered without following the format; treat its text as the answer
+      return this.buildFinalResponse(state, response.text.trim())
+    }
+
+    // Step budget exhausted: ask for a final answer from the observations gathered so far
+    const response = await llmGateway.generateText('agent_reasoning', {
+      prompt: `${systemPrompt}${scratchpad}Thought: I have used all available steps and must answer now with the information I have.\nFinal Answer:`,
+      maxTokens: 1000,
+      signal: state.signal
+    })
+    state.signal?.throwIfAborted()
+    return this.buildFinalResponse(state, response.text.replace(/^\s*Final Answer:/i, '').trim())
+  }
+
+  // Turns the Clarify tool's output into quick replies, skipping anything the user
+  // has already told us. Without a Missing line, the core search fields are assumed.
+  private buildClarification(state: RunState, data: { question: string; missing_fields: string[] }, userText: string): ClarificationRequest {
+    // What onboarding or earlier chats already told us counts too; this message wins
+    const knownFacts = { ...profileKnownFacts(state.profile), ...ReActTools.extractKnownFacts(userText) }
+    const requested = data.missing_fields.length > 0
+      ? data.missing_fields
+      : ['price_type', 'property_type', 'location', 'budget']
+
+    const missingFields = requested
+      .filter(field => knownFacts[field] === undefined)
+      .map(field => ({
+        field,
+        label: state.language.language === 'ne' && state.language.script === 'devanagari'
+          ? CLARIFICATION_FIELDS[field].labelNe
+          : CLARIFICATION_FIELDS[field].label,
+        options: field === 'budget'
+          ? (knownFacts.price_type === 'sale' ? SALE_BUDGET_OPTIONS : knownFacts.price_type === 'rent' ? RENT_BUDGET_OPTIONS : [...RENT_BUDGET_OPTIONS.slice(0, 2), ...SALE_BUDGET_OPTIONS.slice(0, 2)])
+          : CLARIFICATION_FIELDS[field].options
+      }))
+
+    return { question: data.question, missingFields, knownFacts }
+  }
+
+  // The query's own language when it is clear; otherwise the user's stored preference,
+  // so "2 bedrooms" from someone who has been writing Nepali still gets a Nepali answer
+  private async resolveLanguage(userQuery: string, userId?: string): Promise<ReplyLanguage> {
+    const detection = detectLanguage(userQuery)
+    const preferences = userId ? await memoryManager.getUserPreferences() : null
+    const devanagariNumerals = preferences?.devanagariNumerals || false
+
+    if (detection.confident || !preferences?.language) {
+      return { language: detection.language, script: detection.script, devanagariNumerals }
+    }
+    return {
+      language: preferences.language,
+      script: preferences.language === 'ne' ? preferences.languageScript || 'devanagari' : undefined,
+      devanagariNumerals
+    }
+  }
+
+  private runKey(userId?: string): string {
+    return userId || 'anonymous'
+  }
+
+  private async buildSystemPrompt(state: RunState, userQuery: string, userId?: string): Promise<string> {
     // Get personalized system prompt with user context
-    let systemPrompt = `You are an expert real estate assistant and investment advisor, powered by Google's Gemini API and utilizing the ReAct framework for step-by-step reasoning and external tool usage. Your primary goal is to provide highly personalized, accurate, and actionable guidance for property search, investment, or listing, always clarifying ambiguities before proceeding.`
+    let systemPrompt = this.promptVersion.persona
     
     // Add personalized context and conversation history if user is available
     if (userId) {
@@ -561,190 +1158,84 @@ export class ReActAgent {
       }
     }
 
-    systemPrompt += `
-
-**Your Persona:** You are empathetic, detail-oriented, and focused on understanding the user's *situation* rather than just keywords. You aim to provide transparent, well-reasoned advice.
-
-**Your Persona:** You are empathetic, detail-oriented, and focused on understanding the user's *situation* rather than just keywords. You aim to provide transparent, well-reasoned advice.
-
-**Available Tools (Use only when necessary and relevant):**
-- **Search(query: str):** Performs a real-time web search for current market data, news, regulations, rental trends, historical appreciation, or general information. Prioritize this for fresh, broad knowledge.
-- **Maps(query: str):** Provides detailed geospatial information like distances, commute times, points of interest (POIs), neighborhood demographics, infrastructure plans, safety data, and specific location-based analyses.
-- **Calculator(expression: str):** Executes mathematical calculations for ROI, rental yield, affordability, or investment projections.
-- **MarketAnalysis(topic: str):** Accesses internal, aggregated market data, specific property type insights, investment trends, and value-addition strategies for real estate. Use this for specific real estate financial or strategic insights.
-- **PropertyDatabase(query: str):** Queries your internal database for existing property listings, past sales data, or property-specific attributes.
-- **Clarify(question: str):** Used when the user's request is ambiguous or lacks crucial details. This is an explicit action to ask the user for more information before proceeding. Do NOT use this if you have enough information to make an informed recommendation or plan.
-
-**Response Format:**
-Strictly follow this pattern:
-
-Thought: [Your reasoning process. Consider the user's situation, identify necessary information, decide which tool(s) to use, or if clarification is needed. Explicitly state if you lack crucial information.]
-Action: [Tool name, e.g., Search, Maps, Calculator, MarketAnalysis, PropertyDatabase, Clarify]
-Action Input: [Input for the tool. For Clarify, this is the specific question to the user.]
-Observation: [The result from the tool action. If the action was Clarify, there will be no Observation in this turn as you are awaiting user input.]
-
-[Repeat Thought, Action, Action Input, and Observation cycles as needed, building toward the final answer or clarification.]
-
-Thought: Based on the collected information (or lack thereof), I can now provide the final answer or a clarifying question.
-Final Answer: [Either the well-reasoned property recommendation/plan, OR the precise clarifying question to the user.]
-
----
-
-**Crucial Directive for Clarification:**
-If the user's initial input is ambiguous, vague, or critically missing information required to provide a meaningful answer (e.g., specific location, budget, property type, primary goal), use the \`Clarify\` action immediately. Your \`Final Answer\` in such cases will ONLY be the clarifying question. Do NOT attempt to provide a partial solution if vital information is missing.
-
-**Context:**
-- Location: Nepal (focus on Kathmandu Valley: Kathmandu, Lalitpur, Bhaktapur)
-- Currency: NPR (Nepalese Rupees)
-- Common property types: apartment, house, commercial, land
-- Typical rent ranges: 10,000-100,000 NPR/month
-- Typical sale prices: 5,000,000-50,000,000 NPR
-- Popular areas: Thamel, Lalitpur, Pulchowk, New Road, Baneshwor, Durbarmarg, Kupondole, Godawari
-
-**Examples:**
-
-**Example 1: General Home Search (Needs Clarification)**
-Question: I'm looking for a place to live in Kathmandu.
-
-Thought: The user's request is very broad. To provide a useful recommendation, I need more details about their preferences, budget, location, and the type of property they are looking for. I need to ask a clarifying question.
-Action: Clarify
-Action Input: To help me find the best place for you in Kathmandu, could you tell me a bit more about your situation? For example: What kind of property are you looking for (e.g., apartment, house, shared room)? What is your approximate budget? Are there any specific areas or neighborhoods you prefer, or perhaps close to work/school? Do you have any specific needs like pets, family size, or amenities?
-
-Thought: Based on the collected information (or lack thereof), I can now provide the final answer or a clarifying question.
-Final Answer: To help me find the best place for you in Kathmandu, could you tell me a bit more about your situation? For example: What kind of property are you looking for (e.g., apartment, house, shared room)? What is your approximate budget? Are there any specific areas or neighborhoods you prefer, or perhaps close to work/school? Do you have any specific needs like pets, family size, or amenities?
-
-**Example 2: Specific Search (Clear Enough for Action)**
-Question: I'm a young professional looking for a 2BHK apartment to rent in Kupondole, Kathmandu. My budget is NPR 30,000 to 40,000 per month, and I need good internet access and nearby cafes.
-
-Thought: The user is a young professional looking for a 2BHK apartment for rent in Kupondole, Kathmandu, with a specific budget and requirements for internet and cafes. I need to check the availability and average rental prices for 2BHKs in Kupondole within that budget, and then assess the availability of good internet providers and cafes in that area. I will start by checking the property database for rentals matching the criteria.
-Action: PropertyDatabase
-Action Input: 2BHK apartments for rent Kupondole Kathmandu budget 30000-40000 NPR
-
-Observation: [Tool result will be inserted here]
-
-Thought: Now, I need to confirm the presence of good internet access and cafes in Kupondole.
-Action: Maps
-Action Input: internet providers and cafes in Kupondole Kathmandu
+    systemPrompt += this.promptVersion.instructions({
+      toolDescriptions: this.registry.describeForPrompt(),
+      toolNames: this.registry.names(),
+      userQuery,
+      languageInstruction: languageInstruction(state.language)
+    })
 
-Observation: [Tool result will be inserted here]
+    return systemPrompt
+  }
 
-Thought: I have confirmed the availability of suitable listings and amenities. I can now provide the recommendation.
-Final Answer: [Comprehensive recommendation based on the tool results]
+  // Parses one model turn, ignoring anything after the first Observation the model
+  // tries to write itself — observations only ever come from real tool results
+  private parseModelTurn(text: string): {
+    thought?: string
+    actionName?: string
+    actionInput?: string
+    finalAnswer?: string
+  } {
+    const observationIndex = text.search(/^\s*Observation:/im)
+    const turnText = observationIndex >= 0 ? text.slice(0, observationIndex) : text
 
-User Query: "${userQuery}"
+    const thoughtMatch = turnText.match(/Thought:\s*([\s\S]*?)(?=\n\s*(?:Action:|Final Answer:)|$)/i)
+    const actionMatch = turnText.match(/^\s*Action:\s*(.+)$/im)
+    const actionInputMatch = turnText.match(/Action Input:\s*([\s\S]*?)(?=\n\s*(?:Thought:|Action:|Final Answer:)|$)/i)
+    const finalAnswerMatch = turnText.match(/Final Answer:\s*([\s\S]+)/i)
 
-Begin your analysis:`
+    // An action that comes before a final answer wins; the answer must wait for its observation
+    const actionIndex = actionMatch?.index ?? -1
+    const finalAnswerIndex = finalAnswerMatch?.index ?? -1
+    const hasAction = actionMatch && actionInputMatch && (finalAnswerIndex < 0 || actionIndex < finalAnswerIndex)
 
-    const response = await blink.ai.generateText({
-      prompt: systemPrompt,
-      maxTokens: 2000
-    })
-    
-    return await this.parseReActResponse(response.text)
-  }
-  
-  private async parseReActResponse(response: string): Promise<ReActResponse> {
-    const lines = response.split('\n').filter(line => line.trim())
-    let finalAnswer = ''
-    let needsClarification = false
-    let currentStep: ReActStep | null = null
-    
-    for (const line of lines) {
-      const trimmedLine = line.trim()
-      
-      if (trimmedLine.startsWith('Thought:')) {
-        this.steps.push({
-          type: 'thought',
-          content: trimmedLine.substring(8).trim(),
-          timestamp: new Date()
-        })
-      } else if (trimmedLine.startsWith('Action:')) {
-        const actionName = trimmedLine.substring(7).trim()
-        currentStep = {
-          type: 'action',
-          content: `Action: ${actionName}`,
-          actionName: actionName,
-          timestamp: new Date()
-        }
-        this.steps.push(currentStep)
-      } else if (trimmedLine.startsWith('Action Input:')) {
-        const actionInput = trimmedLine.substring(13).trim()
-        if (currentStep && currentStep.type === 'action') {
-          currentStep.actionInput = actionInput
-          currentStep.content += `\nAction Input: ${actionInput}`
-          
-          // Execute the tool immediately
-          await this.executeToolAsync(currentStep)
-        }
-      } else if (trimmedLine.startsWith('Observation:')) {
-        // Skip manual observations as we generate them from tool execution
-        continue
-      } else if (trimmedLine.startsWith('Final Answer:')) {
-        finalAnswer = trimmedLine.substring(13).trim()
-        
-        // Check if this is a clarifying question
-        if (finalAnswer.includes('?') && (
-          finalAnswer.toLowerCase().includes('could you') ||
-          finalAnswer.toLowerCase().includes('please tell me') ||
-          finalAnswer.toLowerCase().includes('what kind of') ||
-          finalAnswer.toLowerCase().includes('more details') ||
-          finalAnswer.toLowerCase().includes('help me') ||
-          finalAnswer.toLowerCase().includes('tell me more')
-        )) {
-          needsClarification = true
-        }
-      }
-    }
-    
-    // If no final answer was parsed, extract it from the end of the response
-    if (!finalAnswer) {
-      const finalAnswerMatch = response.match(/Final Answer:\s*([\s\S]+?)(?:\n\n|\n$|$)/i)
-      if (finalAnswerMatch) {
-        finalAnswer = finalAnswerMatch[1].trim()
-      }
+    return {
+      thought: thoughtMatch?.[1].trim() || undefined,
+      actionName: hasAction ? actionMatch[1].trim() : undefined,
+      actionInput: hasAction ? actionInputMatch[1].trim() : undefined,
+      finalAnswer: !hasAction ? finalAnswerMatch?.[1].trim() || undefined : undefined
     }
-    
+  }
+
+  private buildFinalResponse(state: RunState, finalAnswer: string): ReActResponse {
     return {
-      steps: this.steps,
+      steps: state.steps,
       finalAnswer: finalAnswer || "I need more information to provide a helpful response.",
       isComplete: true,
-      needsClarification
+      needsClarification: false,
+      citations: this.citedSources(state, finalAnswer)
+    }
+  }
+
+  // The sources whose numbers appear in the answer as [n] or [n, m]
+  private citedSources(state: RunState, answer: string): Citation[] {
+    const cited = new Set<number>()
+    for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+      match[1].split(',').forEach(number => cited.add(parseInt(number.trim())))
     }
+    return state.citations.filter(citation => cited.has(citation.number))
+  }
+
+  // Numbers a tool result's sources and returns the line listing them for the model
+  private registerSources(state: RunState, toolName: string, sources: ToolSource[] | undefined, stepIndex: number): string {
+    if (!sources || sources.length === 0) return ''
+    const numbered = sources.map(source => {
+      const citation: Citation = { ...source, number: state.citations.length + 1, toolName, stepIndex }
+      state.citations.push(citation)
+      return citation
+    })
+    return `\nSources: ${numbered.map(citation => `[${citation.number}] ${citation.title}${citation.url ? ` (${citation.url})` : ''}`).join('; ')}`
   }
   
-  private async executeToolAsync(step: ReActStep) {
-    if (!step.actionName || !step.actionInput) return
+  // Runs the tool for an action step, records the observation step and returns
+  // the observation text that is fed back to the model
+  private async executeToolAsync(state: RunState, step: ReActStep): Promise<string> {
+    if (!step.actionName || step.actionInput === undefined) {
+      return 'No tool was called because the action or its input was missing.'
+    }
     
     try {
-      let result: ToolResult
-      
-      switch (step.actionName.toLowerCase()) {
-        case 'search':
-          result = await ReActTools.search(step.actionInput)
-          break
-        case 'maps':
-          result = await ReActTools.maps(step.actionInput)
-          break
-        case 'calculator':
-          result = await ReActTools.calculator(step.actionInput)
-          break
-        case 'marketanalysis':
-          result = await ReActTools.marketAnalysis(step.actionInput)
-          break
-        case 'propertydatabase':
-          result = await ReActTools.propertyDatabase(step.actionInput)
-          break
-        case 'clarify':
-          result = await ReActTools.clarify(step.actionInput)
-          break
-        default:
-          result = {
-            success: false,
-            data: null,
-            error: `Unknown tool: ${step.actionName}`,
-            executionTime: 0
-          }
-      }
+      const result = await this.registry.execute(step.actionName, step.actionInput, state.signal)
       
       // Store tool result in the step
       step.toolResult = result
@@ -754,20 +1245,38 @@ Begin your analysis:`
         ? `Tool executed successfully in ${result.executionTime}ms. Result: ${JSON.stringify(result.data, null, 2)}`
         : `Tool execution failed: ${result.error}`
       
-      this.steps.push({
+      this.pushStep(state, {
         type: 'observation',
         content: observationContent,
         timestamp: new Date(),
         toolResult: result
       })
+
+      return result.success
+        ? this.truncateObservation(result.observation ?? JSON.stringify(result.data)) +
+          this.registerSources(state, step.actionName, result.sources, state.steps.length - 1)
+        : `Error: ${result.error}`
     } catch (error) {
-      this.steps.push({
+      const errorContent = `Tool execution error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      this.pushStep(state, {
         type: 'observation',
-        content: `Tool execution error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        content: errorContent,
         timestamp: new Date()
       })
+      return errorContent
     }
   }
+
+  private pushStep(state: RunState, step: ReActStep): void {
+    state.steps.push(step)
+    state.onStep?.(step)
+  }
+
+  private truncateObservation(observation: string): string {
+    return observation.length > this.maxObservationLength
+      ? `${observation.slice(0, this.maxObservationLength)}... [truncated]`
+      : observation
+  }
 }
 
-export const reactAgent = new ReActAgent()
\ No newline at end of file
+export const reactAgent = new ReActAgent()
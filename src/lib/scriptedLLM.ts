@@ -0,0 +1,135 @@
+import type {
+  ObjectGenerationRequest,
+  ObjectGenerationResponse,
+  TextGenerationRequest,
+  TextGenerationResponse
+} from '@blinkdotnew/sdk'
+import type { PlatformAI } from './platformClient'
+
+export interface RecordedLLMResponse {
+  kind: 'text' | 'object'
+  text?: string
+  object?: any
+  // When set, the prompt must contain this text (or match this pattern) for the
+  // response to be replayed, so a script fails loudly when the pipeline drifts
+  match?: string | RegExp
+  // The start of the prompt the response was recorded against, for humans reading a script
+  promptExcerpt?: string
+}
+
+export interface LLMRecording {
+  name: string
+  recordedAt: string
+  responses: RecordedLLMResponse[]
+}
+
+export interface ScriptedLLMCall {
+  kind: RecordedLLMResponse['kind']
+  prompt: string
+  response: RecordedLLMResponse
+}
+
+export class ScriptedLLMError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScriptedLLMError'
+  }
+}
+
+const promptText = (request: TextGenerationRequest | ObjectGenerationRequest): string => {
+  if (request.prompt) return request.prompt
+  const messages = 'messages' in request ? request.messages || [] : []
+  return messages
+    .map(message => typeof message.content === 'string' ? message.content : JSON.stringify(message.content))
+    .join('\n')
+}
+
+const matches = (prompt: string, match: RecordedLLMResponse['match']) =>
+  match === undefined || (typeof match === 'string' ? prompt.includes(match) : match.test(prompt))
+
+const excerpt = (prompt: string) => prompt.trim().replace(/\s+/g, ' ').slice(0, 120)
+
+// A stand-in for `ai` that replays recorded responses. In 'sequence' mode responses are
+// used strictly in order; in 'match' mode each call takes the first unused response
+// whose `match` fits, for pipelines whose calls can interleave
+export class ScriptedLLM implements PlatformAI {
+  private responses: RecordedLLMResponse[]
+  private used: boolean[]
+  private mode: 'sequence' | 'match'
+  readonly calls: ScriptedLLMCall[] = []
+
+  constructor(script: RecordedLLMResponse[] | LLMRecording, options: { mode?: 'sequence' | 'match' } = {}) {
+    this.responses = Array.isArray(script) ? script : script.responses
+    this.used = this.responses.map(() => false)
+    this.mode = options.mode || 'sequence'
+  }
+
+  async generateText(request: TextGenerationRequest): Promise<TextGenerationResponse> {
+    const response = this.take('text', request)
+    return { text: response.text || '', finishReason: 'stop' }
+  }
+
+  async generateObject(request: ObjectGenerationRequest): Promise<ObjectGenerationResponse> {
+    const response = this.take('object', request)
+    return { object: response.object ?? null, finishReason: 'stop' }
+  }
+
+  // Responses the run never asked for; a non-empty list usually means the script is stale
+  remaining(): RecordedLLMResponse[] {
+    return this.responses.filter((_, index) => !this.used[index])
+  }
+
+  private take(kind: RecordedLLMResponse['kind'], request: TextGenerationRequest | ObjectGenerationRequest): RecordedLLMResponse {
+    if (request.signal?.aborted) {
+      throw new DOMException('The operation was aborted', 'AbortError')
+    }
+
+    const prompt = promptText(request)
+    const index = this.mode === 'sequence'
+      ? this.used.indexOf(false)
+      : this.responses.findIndex((response, i) => !this.used[i] && response.kind === kind && matches(prompt, response.match))
+
+    if (index === -1) {
+      throw new ScriptedLLMError(`No scripted ${kind} response left for prompt: "${excerpt(prompt)}"`)
+    }
+
+    const response = this.responses[index]
+    if (response.kind !== kind) {
+      throw new ScriptedLLMError(`Scripted response ${index} is ${response.kind} but generate${kind === 'text' ? 'Text' : 'Object'} was called`)
+    }
+    if (!matches(prompt, response.match)) {
+      throw new ScriptedLLMError(`Scripted response ${index} expected the prompt to match ${String(response.match)} but got: "${excerpt(prompt)}"`)
+    }
+
+    this.used[index] = true
+    this.calls.push({ kind, prompt, response })
+    return response
+  }
+}
+
+// Wraps a live `ai` client and keeps every response, so a real run can be saved as a
+// script for ScriptedLLM
+export class LLMRecorder implements PlatformAI {
+  private responses: RecordedLLMResponse[] = []
+  private ai: PlatformAI
+
+  constructor(ai: PlatformAI) {
+    this.ai = ai
+  }
+
+  async generateText(request: TextGenerationRequest): Promise<TextGenerationResponse> {
+    const response = await this.ai.generateText(request)
+    this.responses.push({ kind: 'text', text: response.text, promptExcerpt: excerpt(promptText(request)) })
+    return response
+  }
+
+  async generateObject(request: ObjectGenerationRequest): Promise<ObjectGenerationResponse> {
+    const response = await this.ai.generateObject(request)
+    this.responses.push({ kind: 'object', object: response.object, promptExcerpt: excerpt(promptText(request)) })
+    return response
+  }
+
+  recording(name: string): LLMRecording {
+    return { name, recordedAt: new Date().toISOString(), responses: [...this.responses] }
+  }
+}
@@ -0,0 +1,99 @@
+import { platform } from './platformClient'
+
+// Tells the user's other tabs and devices that a stored conversation changed, so they
+// re-read it rather than write over it. Tabs in this browser hear it at once over a
+// BroadcastChannel; other devices through the platform's realtime channel. A notice
+// only names the session; receivers read what changed from storage
+
+export type SessionChangeKind =
+  // Messages were appended to or trimmed from the session
+  | 'messages'
+  // The session was created, renamed, titled, or its summary changed
+  | 'session'
+  | 'deleted'
+  // Every session of the user was erased
+  | 'cleared'
+
+export interface SessionChange {
+  kind: SessionChangeKind
+  userId: string
+  // Unset for 'cleared'
+  sessionId?: string
+}
+
+interface SessionNotice extends SessionChange {
+  id: string
+  // The tab that sent it, which ignores its own notices
+  origin: string
+}
+
+type SessionChangeListener = (change: SessionChange) => void
+
+const BROADCAST_CHANNEL = 'realestate-ai-sessions'
+const NOTICE_TYPE = 'session-change'
+// A tab hears a notice on both channels; this many recent ids are kept to drop the repeat
+const SEEN_NOTICE_LIMIT = 100
+
+const randomId = () => Math.random().toString(36).substr(2, 9)
+const channelFor = (userId: string) => `sessions-${userId}`
+
+export class SessionSync {
+  private origin = `tab_${Date.now()}_${randomId()}`
+  private userId: string | null = null
+  private broadcast: BroadcastChannel | null = null
+  private unsubscribeRemote: Promise<(() => void) | null> | null = null
+  private seen: string[] = []
+  private listeners = new Set<SessionChangeListener>()
+
+  // Listens for the user's notices; connecting as another user drops the previous channel
+  connect(userId: string): void {
+    if (!this.broadcast && typeof BroadcastChannel !== 'undefined') {
+      this.broadcast = new BroadcastChannel(BROADCAST_CHANNEL)
+      this.broadcast.onmessage = (event) => this.receive(event.data)
+    }
+    if (this.userId === userId) return
+
+    this.unsubscribeRemote?.then(unsubscribe => unsubscribe?.())
+    this.userId = userId
+    this.unsubscribeRemote = platform.realtime.subscribe(channelFor(userId), message => {
+      if (message.type === NOTICE_TYPE) this.receive(message.data)
+    }).catch(error => {
+      // Tabs in this browser still sync; other devices catch up when they next load the session
+      console.warn('Realtime session sync unavailable:', error)
+      return null
+    })
+  }
+
+  publish(change: SessionChange): void {
+    const notice: SessionNotice = { ...change, id: `notice_${Date.now()}_${randomId()}`, origin: this.origin }
+    this.remember(notice.id)
+    this.broadcast?.postMessage(notice)
+    platform.realtime.publish(channelFor(change.userId), NOTICE_TYPE, notice).catch(error => {
+      console.warn('Failed to publish session change:', error)
+    })
+  }
+
+  onChange(listener: SessionChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private receive(notice: SessionNotice | undefined): void {
+    if (!notice?.id || notice.origin === this.origin || this.seen.includes(notice.id)) return
+    // Every tab in the browser shares the BroadcastChannel, whoever is signed in
+    if (notice.userId !== this.userId) return
+
+    this.remember(notice.id)
+    const change: SessionChange = { kind: notice.kind, userId: notice.userId, sessionId: notice.sessionId }
+    for (const listener of this.listeners) listener(change)
+  }
+
+  private remember(id: string): void {
+    this.seen.push(id)
+    if (this.seen.length > SEEN_NOTICE_LIMIT) this.seen.shift()
+  }
+}
+
+export const sessionSync = new SessionSync()
@@ -1,20 +1,94 @@
-import { blink } from './blink'
+import { platform } from './platformClient'
 import { Property } from '@/types'
+import { areaRangeSqm, understandQuery, type QueryUnderstanding } from './queryUnderstanding'
+import { areaInRange, isAreaUnit, propertyAreaSqm } from './landUnits'
+import { offlineStore } from './offlineStore'
+import { offlineStatus } from './offlineStatus'
+import { userProfileService } from './userProfile'
+
+interface SavedListings {
+  properties: Property[]
+  savedAt: number
+}
+
+interface SavedFavorite {
+  userId: string
+  property: Property
+  savedAt: number
+}
+
+const LATEST_LISTINGS_KEY = 'latest'
+
+// Favourites of each account signed in on this device are kept apart
+const favoriteKey = (userId: string, propertyId: string) => `${userId}:${propertyId}`
 
 export class SimplePropertyService {
   async getAllProperties(): Promise<Property[]> {
     try {
-      const dbProperties = await blink.db.properties.list({
+      const dbProperties = await platform.db.properties.list({
         where: { isActive: "1" },
         orderBy: { createdAt: 'desc' },
         limit: 50
       })
 
-      return dbProperties.map((dbProp) => this.mapDbPropertyToProperty(dbProp))
+      const properties = dbProperties.map((dbProp) => this.mapDbPropertyToProperty(dbProp))
+      await offlineStore.put('listings', LATEST_LISTINGS_KEY, { properties, savedAt: Date.now() })
+      offlineStatus.report('listings', { source: 'live' })
+      return properties
     } catch (error) {
       console.error('Error fetching properties:', error)
+      return this.getSavedProperties()
+    }
+  }
+
+  // Without the server: the listings saved at the last successful load and any saved
+  // favourites that have since dropped out of them, or failing those the examples
+  private async getSavedProperties(): Promise<Property[]> {
+    const saved = await offlineStore.get<SavedListings>('listings', LATEST_LISTINGS_KEY)
+    const userId = userProfileService.get()?.userId
+    const favorites = (await offlineStore.getAll<SavedFavorite>('favorites')).filter(favorite => favorite.userId === userId)
+    const properties = saved?.properties || []
+    const extraFavorites = favorites
+      .filter(favorite => !properties.some(property => property.id === favorite.property.id))
+      .map(favorite => favorite.property)
+
+    if (properties.length === 0 && extraFavorites.length === 0) {
+      offlineStatus.report('listings', { source: 'sample' })
       return this.getMockProperties()
     }
+
+    const savedAt = saved?.savedAt ?? Math.max(...favorites.map(favorite => favorite.savedAt))
+    offlineStatus.report('listings', { source: 'cache', savedAt })
+    return [...properties, ...extraFavorites]
+  }
+
+  // Adds or removes the listing from the user's favourites and returns whether it is one now.
+  // Favourites are saved on the device as well, so they can be opened without a connection
+  async toggleFavorite(property: Property): Promise<boolean> {
+    const profile = userProfileService.get()
+    if (!profile) return false
+
+    const favorites = profile.favoriteProperties || []
+    const isFavorite = !favorites.includes(property.id)
+    await userProfileService.update({
+      favoriteProperties: isFavorite ? [...favorites, property.id] : favorites.filter(id => id !== property.id)
+    })
+
+    const key = favoriteKey(profile.userId, property.id)
+    if (isFavorite) {
+      await offlineStore.put('favorites', key, { userId: profile.userId, property, savedAt: Date.now() })
+    } else {
+      await offlineStore.delete('favorites', key)
+    }
+    return isFavorite
+  }
+
+  // Removes the user's favourites saved on this device, when they erase their data
+  async forgetSavedFavorites(userId: string): Promise<void> {
+    const favorites = await offlineStore.getAll<SavedFavorite>('favorites')
+    for (const favorite of favorites) {
+      if (favorite.userId === userId) await offlineStore.delete('favorites', favoriteKey(userId, favorite.property.id))
+    }
   }
 
   async searchProperties(query: string): Promise<Property[]> {
@@ -26,6 +100,12 @@ export class SimplePropertyService {
       }
       
       const searchTerms = query.toLowerCase().split(' ')
+      const understood = understandQuery(query)
+      const budget = understood.budget
+      // "around 40,000" scores listings near the amount; a limit scores everything inside it
+      const budgetLow = budget?.approximate && budget.max ? budget.max * 0.85 : budget?.min
+      const budgetHigh = budget?.approximate && budget.max ? budget.max * 1.15 : budget?.max
+      const areaRange = understood.area ? areaRangeSqm(understood.area) : undefined
       
       // Enhanced search with scoring
       const scoredProperties = allProperties.map(property => {
@@ -66,22 +146,29 @@ export class SimplePropertyService {
           }
         })
         
-        // Price range matching
-        const priceMatch = query.match(/(\d+(?:,\d+)*)/g)
-        if (priceMatch) {
-          const queryPrice = parseInt(priceMatch[0].replace(/,/g, ''))
-          const priceDiff = Math.abs(property.price - queryPrice)
-          if (priceDiff < 5000) score += 5
-          else if (priceDiff < 10000) score += 3
-          else if (priceDiff < 20000) score += 1
+        // Price range matching, against monthly rent or total price as the listing is priced
+        if (budget && (!understood.intent || property.priceType === understood.intent)) {
+          const withinBudget = (budgetLow === undefined || property.price >= budgetLow) &&
+            (budgetHigh === undefined || property.price <= budgetHigh)
+          if (withinBudget) score += 5
+          else if (budgetHigh !== undefined && property.price <= budgetHigh * 1.1) score += 1
+        }
+        
+        // Rent or sale, stated or implied by the amount
+        if (understood.intent && property.priceType === understood.intent) {
+          score += 2
         }
         
         // Bedroom matching
-        const bedroomMatch = query.match(/(\d+)\s*(?:bhk|bedroom|br)/i)
-        if (bedroomMatch && property.bedrooms === parseInt(bedroomMatch[1])) {
+        if (understood.bedrooms && property.bedrooms === understood.bedrooms) {
           score += 5
         }
         
+        // Size matching in sqm, so "5 aana" finds a plot listed as 1,700 sq ft
+        if (areaRange && areaInRange(propertyAreaSqm(property), areaRange)) {
+          score += 3
+        }
+        
         return { property, score }
       })
       
@@ -92,7 +179,7 @@ export class SimplePropertyService {
         .map(item => ({
           ...item.property,
           aiRecommendationScore: Math.min(item.score / 10, 1), // Normalize to 0-1
-          aiExplanation: this.generateExplanation(item.property, query, item.score)
+          aiExplanation: this.generateExplanation(item.property, query, item.score, understood)
         }))
     } catch (error) {
       console.error('Error searching properties:', error)
@@ -100,7 +187,7 @@ export class SimplePropertyService {
     }
   }
 
-  private generateExplanation(property: Property, query: string, score: number): string {
+  private generateExplanation(property: Property, query: string, score: number, understood: QueryUnderstanding): string {
     const explanations = []
     
     if (property.title.toLowerCase().includes(query.toLowerCase())) {
@@ -111,15 +198,16 @@ export class SimplePropertyService {
       explanations.push(`Located in your preferred area: ${property.location.city}`)
     }
     
-    const bedroomMatch = query.match(/(\d+)\s*(?:bhk|bedroom|br)/i)
-    if (bedroomMatch && property.bedrooms === parseInt(bedroomMatch[1])) {
+    if (understood.bedrooms && property.bedrooms === understood.bedrooms) {
       explanations.push(`Exactly ${property.bedrooms} bedrooms as requested`)
     }
     
-    const priceMatch = query.match(/(\d+(?:,\d+)*)/g)
-    if (priceMatch) {
-      const queryPrice = parseInt(priceMatch[0].replace(/,/g, ''))
-      if (Math.abs(property.price - queryPrice) < 5000) {
+    const budget = understood.budget
+    if (budget && (!understood.intent || property.priceType === understood.intent)) {
+      const withinBudget = budget.approximate && budget.max
+        ? Math.abs(property.price - budget.max) <= budget.max * 0.15
+        : (budget.min === undefined || property.price >= budget.min) && (budget.max === undefined || property.price <= budget.max)
+      if (withinBudget) {
         explanations.push("Price matches your budget perfectly")
       }
     }
@@ -136,6 +224,15 @@ export class SimplePropertyService {
   }
 
   private mapDbPropertyToProperty(dbProp: any): Property {
+    const areaParts = (this.parseJsonField(dbProp.areaParts) || [])
+      .filter((part: any) => isAreaUnit(part?.unit) && Number(part.value) > 0)
+      .map((part: any) => ({ value: Number(part.value), unit: part.unit }))
+    const area = {
+      area: dbProp.area || 0,
+      areaUnit: isAreaUnit(dbProp.areaUnit) ? dbProp.areaUnit : 'sqft',
+      ...(areaParts.length > 1 ? { areaParts } : {})
+    }
+
     return {
       id: dbProp.id,
       title: dbProp.title,
@@ -145,8 +242,8 @@ export class SimplePropertyService {
       propertyType: dbProp.propertyType as 'apartment' | 'house' | 'commercial' | 'land',
       bedrooms: dbProp.bedrooms || 0,
       bathrooms: dbProp.bathrooms || 0,
-      area: dbProp.area || 0,
-      areaUnit: (dbProp.areaUnit || 'sqft') as 'sqft' | 'sqm',
+      ...area,
+      areaSqm: Number(dbProp.areaSqm) || propertyAreaSqm(area),
       location: {
         address: dbProp.address || '',
         city: dbProp.city || '',
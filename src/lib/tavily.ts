@@ -1,4 +1,5 @@
-import { blink } from './blink'
+import { platform } from './platformClient'
+import { contentGuard, SOURCE_LENGTH_LIMITS } from './contentGuard'
 
 export interface TavilySearchRequest {
   query: string
@@ -14,6 +15,8 @@ export interface TavilySearchResult {
   content: string
   score: number
   publishedDate?: string
+  // True when instruction-like text was removed from the title or content
+  contentFiltered?: boolean
 }
 
 export interface TavilyResponse {
@@ -31,24 +34,34 @@ export class TavilyRealTimeSearch {
   async searchRealEstateData(request: TavilySearchRequest): Promise<TavilyResponse> {
     try {
       // Use Blink's data.search for real-time web search
-      const searchResults = await blink.data.search(request.query, {
+      const searchResults = await platform.data.search(request.query, {
         location: request.location,
         limit: request.maxResults || 10
       })
 
-      // Transform the results to match our interface
-      const results: TavilySearchResult[] = searchResults.organic_results?.map((result: any, index: number) => ({
-        title: result.title || '',
-        url: result.link || '',
-        content: result.snippet || '',
-        score: 1 - (index * 0.1), // Simple scoring based on position
-        publishedDate: result.date
-      })) || []
+      // Transform the results to match our interface. Web text ends up in prompts and
+      // in the UI, so it is sanitised here once for every caller
+      const results: TavilySearchResult[] = searchResults.organic_results?.map((result: any, index: number) => {
+        const title = contentGuard.sanitize(result.title, result.link || 'web', SOURCE_LENGTH_LIMITS.webTitle)
+        const content = contentGuard.sanitize(result.snippet, result.link || 'web', SOURCE_LENGTH_LIMITS.webSnippet)
+        return {
+          title: title.text,
+          url: result.link || '',
+          content: content.text,
+          score: 1 - (index * 0.1), // Simple scoring based on position
+          publishedDate: result.date,
+          contentFiltered: title.filtered || content.filtered
+        }
+      }) || []
+      const rawAnswer = searchResults.answer_box?.answer
+      const answer = rawAnswer
+        ? contentGuard.sanitize(rawAnswer, 'answer box', SOURCE_LENGTH_LIMITS.webSnippet).text
+        : undefined
 
       return {
         query: request.query,
         followUpQuestions: searchResults.related_searches?.slice(0, 3) || [],
-        answer: searchResults.answer_box?.answer || undefined,
+        answer,
         results,
         images: searchResults.image_results?.slice(0, 5).map((img: any) => ({
           url: img.original || img.thumbnail,
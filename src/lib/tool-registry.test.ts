@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ToolRegistry, type ToolDefinition, type ToolResult } from './tool-registry'
+
+const ok: ToolResult = { success: true, data: 'done' }
+const transientFailure: ToolResult = { success: false, data: null, error: 'HTTP 503', transient: true }
+const inputError: ToolResult = { success: false, data: null, error: 'Bad input' }
+
+// A registry holding one tool whose handler returns the given results in turn, then the last one again
+function registryWith(results: ToolResult[], tool: Partial<ToolDefinition> = {}) {
+  const handler = vi.fn(async (): Promise<ToolResult> => results[Math.min(handler.mock.calls.length - 1, results.length - 1)])
+  const registry = new ToolRegistry()
+  registry.register({
+    name: 'Flaky',
+    description: 'A tool for tests',
+    inputSchema: { name: 'query', type: 'string', description: 'Anything' },
+    timeoutMs: 50,
+    handler,
+    ...tool
+  })
+  return { registry, handler }
+}
+
+describe('ToolRegistry.execute', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('retries transient failures until one succeeds', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { registry, handler } = registryWith([transientFailure, transientFailure, ok], { retry: { maxAttempts: 3, backoffMs: 1 } })
+
+    const result = await registry.execute('Flaky', 'query')
+
+    expect(result).toMatchObject({ success: true, attempts: 3 })
+    expect(handler).toHaveBeenCalledTimes(3)
+  })
+
+  it('stops after the last attempt allowed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { registry, handler } = registryWith([transientFailure], { retry: { maxAttempts: 3, backoffMs: 1 } })
+
+    expect(await registry.execute('Flaky', 'query')).toMatchObject({ success: false, error: 'HTTP 503', attempts: 3 })
+    expect(handler).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not retry a failure caused by the input', async () => {
+    const { registry, handler } = registryWith([inputError, ok], { retry: { maxAttempts: 3, backoffMs: 1 } })
+
+    expect(await registry.execute('Flaky', 'query')).toMatchObject({ success: false, error: 'Bad input', attempts: 1 })
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('doubles the backoff before each retry', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { registry } = registryWith([transientFailure], { retry: { maxAttempts: 3, backoffMs: 10 } })
+
+    await registry.execute('Flaky', 'query')
+
+    const delays = warn.mock.calls.map(([message]) => parseInt(String(message).match(/retrying in (\d+)ms/)?.[1] || ''))
+    expect(delays).toHaveLength(2)
+    // Up to a fifth of jitter is added to each delay
+    expect(delays[0]).toBeGreaterThanOrEqual(10)
+    expect(delays[0]).toBeLessThanOrEqual(12)
+    expect(delays[1]).toBeGreaterThanOrEqual(20)
+    expect(delays[1]).toBeLessThanOrEqual(24)
+  })
+
+  it('does not retry when another attempt would overrun the retry budget', async () => {
+    const { registry, handler } = registryWith([transientFailure, ok], { retry: { maxAttempts: 3, backoffMs: 10, budgetMs: 55 } })
+
+    expect(await registry.execute('Flaky', 'query')).toMatchObject({ success: false, attempts: 1 })
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('times out a slow call, aborts it and reports it as transient', async () => {
+    let handlerSignal: AbortSignal | undefined
+    const { registry } = registryWith([], {
+      timeoutMs: 20,
+      handler: (_input, signal) => {
+        handlerSignal = signal
+        return new Promise<ToolResult>(() => {})
+      }
+    })
+
+    const result = await registry.execute('Flaky', 'query')
+
+    expect(result).toMatchObject({ success: false, error: 'Flaky timed out after 20ms', transient: true, attempts: 1 })
+    expect(handlerSignal?.aborted).toBe(true)
+  })
+
+  it('returns as soon as the caller aborts and does not retry', async () => {
+    const controller = new AbortController()
+    const handler = vi.fn(() => {
+      controller.abort()
+      return new Promise<ToolResult>(() => {})
+    })
+    const { registry } = registryWith([], { retry: { maxAttempts: 3, backoffMs: 1 }, handler })
+
+    const result = await registry.execute('Flaky', 'query', controller.signal)
+
+    expect(result).toMatchObject({ success: false, cancelled: true, attempts: 1 })
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(registry.circuitStatus('Flaky')).toMatchObject({ state: 'closed', recentFailures: 0 })
+  })
+
+  it('refuses calls without running the tool once its circuit opens', async () => {
+    const { registry, handler } = registryWith([transientFailure], { circuitBreaker: { failureThreshold: 2 } })
+
+    await registry.execute('Flaky', 'query')
+    await registry.execute('Flaky', 'query')
+    const result = await registry.execute('Flaky', 'query')
+
+    expect(result).toMatchObject({ success: false, unavailable: true, attempts: 0 })
+    expect(result.error).toContain('Flaky is unavailable after repeated failures (last error: HTTP 503)')
+    expect(handler).toHaveBeenCalledTimes(2)
+    expect(registry.describeForPrompt()).toContain('(currently unavailable)')
+
+    registry.resetCircuit('Flaky')
+    expect(await registry.execute('Flaky', 'query')).toMatchObject({ attempts: 1 })
+  })
+
+  it('counts input errors against the caller, not the tool', async () => {
+    const { registry } = registryWith([inputError], { circuitBreaker: { failureThreshold: 2 } })
+
+    for (let call = 0; call < 3; call++) await registry.execute('Flaky', 'query')
+
+    expect(registry.circuitStatus('Flaky')?.state).toBe('closed')
+  })
+
+  it('resolves tool names loosely and reports unknown ones', async () => {
+    const { registry } = registryWith([ok])
+
+    expect(await registry.execute('flaky', 'query')).toMatchObject({ success: true })
+    expect(await registry.execute('Missing', 'query')).toMatchObject({ success: false, error: 'Unknown tool: Missing. Available tools: Flaky' })
+  })
+})
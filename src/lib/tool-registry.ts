@@ -0,0 +1,254 @@
+import { CircuitBreaker, type CircuitBreakerPolicy, type CircuitStatus } from './circuitBreaker'
+
+// Something a tool result can be cited as: a web page, a listing, or a calculation
+export interface ToolSource {
+  kind: 'web' | 'listing' | 'calculation'
+  title: string
+  url?: string
+  propertyId?: string
+  calculationId?: string
+}
+
+export interface ToolResult {
+  success: boolean
+  data: any
+  error?: string
+  executionTime?: number
+  // Compact text fed back to the model in place of the full data, for tools whose
+  // data carries more than the model needs (e.g. full listing records)
+  observation?: string
+  // Citable sources behind this result; the agent numbers them for the final answer
+  sources?: ToolSource[]
+  // Set by a tool when the failure is worth retrying (network errors, rate limits,
+  // upstream 5xx) rather than caused by its input. Timeouts are always retryable
+  transient?: boolean
+  // How many times the tool was called to produce this result
+  attempts?: number
+  // True when the circuit breaker refused the call without running the tool
+  unavailable?: boolean
+  // True when the caller aborted the call before the tool finished
+  cancelled?: boolean
+}
+
+export interface ToolInputSchema {
+  name: string
+  type: 'string'
+  description: string
+}
+
+export interface RetryPolicy {
+  maxAttempts: number
+  // Delay before the first retry; doubled for each retry after that, plus jitter
+  backoffMs: number
+  // Retries stop once the attempts so far plus the next backoff and a full timeout would
+  // take longer than this, so a slow tool cannot stall the chat for attempts x timeout
+  budgetMs: number
+}
+
+export interface ToolDefinition {
+  name: string
+  description: string
+  inputSchema: ToolInputSchema
+  timeoutMs: number
+  // Aborted when the call times out or the caller cancels, so in-flight requests are
+  // cancelled rather than left running
+  handler: (input: string, signal: AbortSignal) => Promise<ToolResult>
+  // Defaults to a single attempt; only tools that call the network should retry
+  retry?: Partial<RetryPolicy>
+  circuitBreaker?: Partial<CircuitBreakerPolicy>
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  backoffMs: 500,
+  budgetMs: Infinity
+}
+
+const DEFAULT_CIRCUIT_BREAKER_POLICY: Omit<CircuitBreakerPolicy, 'slowCallMs'> = {
+  failureThreshold: 3,
+  windowSize: 5,
+  cooldownMs: 60000
+}
+
+// Resolves early if the signal aborts, so a cancelled call does not sit out its backoff
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timeoutId = setTimeout(resolve, ms)
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timeoutId)
+    resolve()
+  }, { once: true })
+})
+
+// Registry of the tools the ReAct agent may call. The prompt's tool list and the
+// dispatcher are both generated from here, so a tool only has to be declared once.
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>()
+  private breakers = new Map<string, CircuitBreaker>()
+
+  register(tool: ToolDefinition): void {
+    const key = this.normalizeName(tool.name)
+    if (this.tools.has(key)) {
+      throw new Error(`Tool already registered: ${tool.name}`)
+    }
+    this.tools.set(key, tool)
+    this.breakers.set(key, new CircuitBreaker({
+      ...DEFAULT_CIRCUIT_BREAKER_POLICY,
+      // Anything taking most of its timeout is a sign the tool is struggling
+      slowCallMs: tool.timeoutMs * 0.8,
+      ...tool.circuitBreaker
+    }))
+  }
+
+  unregister(name: string): void {
+    this.tools.delete(this.normalizeName(name))
+    this.breakers.delete(this.normalizeName(name))
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(this.normalizeName(name))
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values())
+  }
+
+  names(): string[] {
+    return this.list().map(tool => tool.name)
+  }
+
+  // Tools whose circuit is open are flagged so the model plans around them
+  describeForPrompt(): string {
+    return this.list()
+      .map(tool => {
+        const unavailable = this.circuitStatus(tool.name)?.state === 'open' ? ' (currently unavailable)' : ''
+        return `- **${tool.name}(${tool.inputSchema.name}: str):**${unavailable} ${tool.description} Input: ${tool.inputSchema.description}`
+      })
+      .join('\n')
+  }
+
+  circuitStatus(name: string): CircuitStatus | undefined {
+    return this.breakers.get(this.normalizeName(name))?.status()
+  }
+
+  resetCircuit(name: string): void {
+    this.breakers.get(this.normalizeName(name))?.reset()
+  }
+
+  // Runs a tool with its timeout, retrying transient failures with exponential backoff
+  // while the retry budget allows, behind the tool's circuit breaker
+  async execute(name: string, input: string, signal?: AbortSignal): Promise<ToolResult> {
+    const tool = this.get(name)
+    if (!tool) {
+      return {
+        success: false,
+        data: null,
+        error: `Unknown tool: ${name}. Available tools: ${this.names().join(', ')}`,
+        executionTime: 0
+      }
+    }
+
+    const breaker = this.breakers.get(this.normalizeName(tool.name)) as CircuitBreaker
+    if (!breaker.allowRequest()) {
+      const status = breaker.status()
+      const retryInSeconds = status.retryAt ? Math.max(1, Math.ceil((status.retryAt - Date.now()) / 1000)) : undefined
+      return {
+        success: false,
+        data: null,
+        error: `${tool.name} is unavailable after repeated failures${status.lastError ? ` (last error: ${status.lastError})` : ''}. Continue without it${retryInSeconds ? ` or try again in ${retryInSeconds}s` : ''}.`,
+        executionTime: 0,
+        attempts: 0,
+        unavailable: true
+      }
+    }
+
+    const retry = { ...DEFAULT_RETRY_POLICY, ...tool.retry }
+    const startTime = Date.now()
+    let attempt = 0
+    let result: ToolResult
+
+    for (;;) {
+      attempt++
+      result = await this.attempt(tool, input, signal)
+      // A cancelled call says nothing about the tool's health
+      if (result.cancelled) {
+        breaker.cancelTrial()
+        break
+      }
+      // Input and usage errors are the caller's mistake; only timeouts and other transient
+      // failures say the tool itself is unwell
+      breaker.record(result.success || !result.transient, result.executionTime ?? 0, result.error)
+
+      const backoff = retry.backoffMs * 2 ** (attempt - 1) * (1 + Math.random() * 0.2)
+      const elapsed = Date.now() - startTime
+      const canRetry = !result.success && result.transient && attempt < retry.maxAttempts &&
+        elapsed + backoff + tool.timeoutMs <= retry.budgetMs && breaker.allowRequest()
+      if (!canRetry) break
+
+      console.warn(`${tool.name} failed (${result.error}); retrying in ${Math.round(backoff)}ms`)
+      await sleep(backoff, signal)
+    }
+
+    return { ...result, attempts: attempt, executionTime: Date.now() - startTime }
+  }
+
+  private async attempt(tool: ToolDefinition, input: string, signal?: AbortSignal): Promise<ToolResult> {
+    const startTime = Date.now()
+    const cancelled = (): ToolResult => ({
+      success: false,
+      data: null,
+      error: `Stopped before ${tool.name} finished`,
+      executionTime: Date.now() - startTime,
+      cancelled: true
+    })
+    if (signal?.aborted) return cancelled()
+
+    const controller = new AbortController()
+    let timeoutId: ReturnType<typeof setTimeout> | undefined
+    let onAbort: (() => void) | undefined
+
+    try {
+      const timeout = new Promise<ToolResult>((resolve) => {
+        timeoutId = setTimeout(() => {
+          controller.abort()
+          resolve({
+            success: false,
+            data: null,
+            error: `${tool.name} timed out after ${tool.timeoutMs}ms`,
+            executionTime: Date.now() - startTime,
+            transient: true
+          })
+        }, tool.timeoutMs)
+      })
+      // Tools that cannot pass the signal on still return promptly when the caller stops
+      const abort = new Promise<ToolResult>((resolve) => {
+        onAbort = () => {
+          controller.abort()
+          resolve(cancelled())
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+      })
+
+      const result = await Promise.race([tool.handler(input, controller.signal), timeout, abort])
+      return { ...result, executionTime: result.executionTime ?? Date.now() - startTime }
+    } catch (error) {
+      if (signal?.aborted) return cancelled()
+      return {
+        success: false,
+        data: null,
+        error: `${tool.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        executionTime: Date.now() - startTime,
+        // A thrown error escaped the tool's own handling, which is usually the network
+        transient: true
+      }
+    } finally {
+      clearTimeout(timeoutId)
+      if (onAbort) signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  // Tool names are matched case-insensitively and without spaces, so "Market Analysis"
+  // and "marketanalysis" both resolve to MarketAnalysis
+  private normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[\s_-]/g, '')
+  }
+}
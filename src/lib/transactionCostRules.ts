@@ -0,0 +1,102 @@
+// Versioned rules for estimating the cost of a property purchase in Nepal. Each
+// fiscal year's rates go in a new entry rather than editing an old one, so an
+// estimate can always be traced back to the rules it was made with. Figures are
+// indicative and should be checked against the local Land Revenue Office.
+
+export type LocalBodyType = 'metropolitan' | 'sub_metropolitan' | 'municipality' | 'rural_municipality'
+
+export type BuyerCategory = 'individual' | 'woman' | 'joint_spouses' | 'company'
+
+export interface TransactionCostRules {
+  version: string
+  effectiveFrom: string
+  // Registration fee as a share of the transaction value, by type of local body
+  registrationFeeRate: Record<LocalBodyType, number>
+  // Share of the registration fee waived for each buyer category
+  registrationFeeDiscount: Record<BuyerCategory, number>
+  // Local-body service charge on transfers, as a share of the transaction value
+  localBodyChargeRate: Record<LocalBodyType, number>
+  // Seller's tax on the gain, by holding period
+  capitalGainsTax: {
+    shortTermRate: number
+    longTermRate: number
+    longTermAfterYears: number
+  }
+  brokerageRate: {
+    buyer: number
+    seller: number
+  }
+  // Flat costs of the deed: deed writer, stamps and certified copies
+  stampCosts: Array<{ label: string; amount: number }>
+  // Cities classified above a plain municipality; anything else is treated as a municipality
+  localBodies: Record<string, LocalBodyType>
+}
+
+export const TRANSACTION_COST_RULES: TransactionCostRules[] = [
+  {
+    version: '2081/82',
+    effectiveFrom: '2024-07-16',
+    registrationFeeRate: {
+      metropolitan: 0.05,
+      sub_metropolitan: 0.045,
+      municipality: 0.04,
+      rural_municipality: 0.02
+    },
+    registrationFeeDiscount: {
+      individual: 0,
+      woman: 0.25,
+      joint_spouses: 0.1,
+      company: 0
+    },
+    localBodyChargeRate: {
+      metropolitan: 0.005,
+      sub_metropolitan: 0.004,
+      municipality: 0.003,
+      rural_municipality: 0.002
+    },
+    capitalGainsTax: {
+      shortTermRate: 0.075,
+      longTermRate: 0.05,
+      longTermAfterYears: 5
+    },
+    brokerageRate: {
+      buyer: 0.01,
+      seller: 0.01
+    },
+    stampCosts: [
+      { label: 'Deed writer (lekhandas)', amount: 3000 },
+      { label: 'Stamps and certified copies', amount: 1000 }
+    ],
+    localBodies: {
+      kathmandu: 'metropolitan',
+      lalitpur: 'metropolitan',
+      pokhara: 'metropolitan',
+      bharatpur: 'metropolitan',
+      biratnagar: 'metropolitan',
+      birgunj: 'metropolitan',
+      dharan: 'sub_metropolitan',
+      itahari: 'sub_metropolitan',
+      hetauda: 'sub_metropolitan',
+      janakpur: 'sub_metropolitan',
+      butwal: 'sub_metropolitan',
+      nepalgunj: 'sub_metropolitan',
+      dhangadhi: 'sub_metropolitan',
+      ghorahi: 'sub_metropolitan',
+      tulsipur: 'sub_metropolitan',
+      kalaiya: 'sub_metropolitan',
+      'jitpur simara': 'sub_metropolitan'
+    }
+  }
+]
+
+// The latest rules already in effect on the given date
+export function getTransactionCostRules(date: Date = new Date()): TransactionCostRules {
+  const inEffect = TRANSACTION_COST_RULES
+    .filter(rules => new Date(rules.effectiveFrom) <= date)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))
+  return inEffect[0] || TRANSACTION_COST_RULES[0]
+}
+
+export function getTransactionCostRulesByVersion(version: string): TransactionCostRules | undefined {
+  return TRANSACTION_COST_RULES.find(rules => rules.version === version)
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { estimateTransactionCosts, resolveLocalBodyType } from './transactionCosts'
+import { getTransactionCostRules, type LocalBodyType } from './transactionCostRules'
+
+// Listings carry their district too; it must not decide the local body
+const listing = (city: string, district: string) => ({
+  id: 'listing',
+  price: 20000000,
+  priceType: 'sale' as const,
+  location: { city, district }
+})
+
+// Cities as listings spell them, and the local body each one is
+const LOCAL_BODY_CASES: Array<[string, string, LocalBodyType]> = [
+  ['Kathmandu', 'Kathmandu', 'metropolitan'],
+  ['Lalitpur Metropolitan City', 'Lalitpur', 'metropolitan'],
+  ['Dharan', 'Sunsari', 'sub_metropolitan'],
+  // Municipalities in districts named after a metropolitan city
+  ['Godawari', 'Lalitpur', 'municipality'],
+  ['Tokha', 'Kathmandu', 'municipality'],
+  ['Budhanilkantha Municipality', 'Kathmandu', 'municipality']
+]
+
+describe('resolveLocalBodyType', () => {
+  const rules = getTransactionCostRules()
+
+  it.each(LOCAL_BODY_CASES)('treats %s (%s district) as %s', (city, district, expected) => {
+    expect(resolveLocalBodyType(listing(city, district), rules)).toBe(expected)
+  })
+})
+
+describe('estimateTransactionCosts', () => {
+  it('charges a municipality registration fee in Godawari', () => {
+    const estimate = estimateTransactionCosts(listing('Godawari', 'Lalitpur'), { category: 'individual' })
+    expect(estimate.localBodyType).toBe('municipality')
+    expect(estimate.items.find(item => item.id === 'registration_fee')?.amount).toBe(800000)
+    expect(estimate.assumptions).toContain('Godawari is treated as a municipality.')
+  })
+})
@@ -0,0 +1,155 @@
+import { Property } from '@/types'
+import {
+  getTransactionCostRules,
+  type BuyerCategory,
+  type LocalBodyType,
+  type TransactionCostRules
+} from './transactionCostRules'
+
+export interface BuyerProfile {
+  category: BuyerCategory
+  usesBroker?: boolean
+}
+
+export interface SellerProfile {
+  purchasePrice?: number
+  holdingYears?: number
+  usesBroker?: boolean
+}
+
+export interface CostLineItem {
+  id: 'registration_fee' | 'local_body_charge' | 'stamp_costs' | 'buyer_brokerage' | 'seller_brokerage' | 'capital_gains_tax'
+  label: string
+  paidBy: 'buyer' | 'seller'
+  // null when the inputs needed to compute the item are missing
+  amount: number | null
+  basis: string
+}
+
+export interface TransactionCostEstimate {
+  propertyId: string
+  price: number
+  localBodyType: LocalBodyType
+  rulesVersion: string
+  items: CostLineItem[]
+  buyerTotal: number
+  sellerTotal: number
+  // Price plus everything the buyer pays on top of it
+  buyerAllIn: number
+  assumptions: string[]
+}
+
+// Only the fields the estimate depends on, so a bare price and city can be costed too
+export type CostableListing = Pick<Property, 'id' | 'price' | 'priceType'> & {
+  location: Pick<Property['location'], 'city'>
+}
+
+const percent = (rate: number) => `${Number((rate * 100).toFixed(2))}%`
+
+// Matched on the city alone: districts share names with their metropolitan cities, but
+// Godawari in Lalitpur district or Tokha in Kathmandu district are municipalities
+export function resolveLocalBodyType(property: CostableListing, rules: TransactionCostRules): LocalBodyType {
+  const name = (property.location.city || '').toLowerCase().replace(/\s+((sub-)?metropolitan city|municipality)$/, '').trim()
+  return rules.localBodies[name] || 'municipality'
+}
+
+export function estimateTransactionCosts(
+  property: CostableListing,
+  buyer: BuyerProfile,
+  seller: SellerProfile = {},
+  rules: TransactionCostRules = getTransactionCostRules()
+): TransactionCostEstimate {
+  if (property.priceType !== 'sale') {
+    throw new Error('Transaction costs can only be estimated for sale listings')
+  }
+
+  const price = property.price
+  const localBodyType = resolveLocalBodyType(property, rules)
+  const assumptions = [
+    'Fees are charged on the listed price; the Land Revenue Office uses the government valuation where it is higher.',
+    `${property.location.city || 'This location'} is treated as a ${localBodyType.replace(/_/g, '-')}.`
+  ]
+  const items: CostLineItem[] = []
+
+  const registrationRate = rules.registrationFeeRate[localBodyType]
+  const discount = rules.registrationFeeDiscount[buyer.category]
+  items.push({
+    id: 'registration_fee',
+    label: 'Land registration fee',
+    paidBy: 'buyer',
+    amount: price * registrationRate * (1 - discount),
+    basis: discount > 0
+      ? `${percent(registrationRate)} of price, less ${percent(discount)} ${buyer.category.replace(/_/g, ' ')} discount`
+      : `${percent(registrationRate)} of price`
+  })
+
+  const localBodyRate = rules.localBodyChargeRate[localBodyType]
+  items.push({
+    id: 'local_body_charge',
+    label: 'Local-body charges',
+    paidBy: 'buyer',
+    amount: price * localBodyRate,
+    basis: `${percent(localBodyRate)} of price`
+  })
+
+  items.push({
+    id: 'stamp_costs',
+    label: 'Stamp and deed costs',
+    paidBy: 'buyer',
+    amount: rules.stampCosts.reduce((sum, cost) => sum + cost.amount, 0),
+    basis: rules.stampCosts.map(cost => `${cost.label} NPR ${cost.amount.toLocaleString()}`).join(', ')
+  })
+
+  if (buyer.usesBroker !== false) {
+    items.push({
+      id: 'buyer_brokerage',
+      label: 'Brokerage (buyer side)',
+      paidBy: 'buyer',
+      amount: price * rules.brokerageRate.buyer,
+      basis: `${percent(rules.brokerageRate.buyer)} of price`
+    })
+  }
+
+  if (seller.usesBroker !== false) {
+    items.push({
+      id: 'seller_brokerage',
+      label: 'Brokerage (seller side)',
+      paidBy: 'seller',
+      amount: price * rules.brokerageRate.seller,
+      basis: `${percent(rules.brokerageRate.seller)} of price`
+    })
+  }
+
+  const { shortTermRate, longTermRate, longTermAfterYears } = rules.capitalGainsTax
+  const isLongTerm = seller.holdingYears !== undefined && seller.holdingYears >= longTermAfterYears
+  const gainsRate = isLongTerm ? longTermRate : shortTermRate
+  if (seller.purchasePrice !== undefined && seller.holdingYears === undefined) {
+    assumptions.push(`Holding period unknown; capital gains tax uses the ${percent(shortTermRate)} rate for properties held under ${longTermAfterYears} years.`)
+  }
+  items.push({
+    id: 'capital_gains_tax',
+    label: 'Capital gains tax (seller)',
+    paidBy: 'seller',
+    amount: seller.purchasePrice !== undefined ? Math.max(0, price - seller.purchasePrice) * gainsRate : null,
+    basis: seller.purchasePrice !== undefined
+      ? `${percent(gainsRate)} of the gain over NPR ${seller.purchasePrice.toLocaleString()}`
+      : `${percent(gainsRate)} of the gain; needs the seller's purchase price`
+  })
+
+  const total = (paidBy: CostLineItem['paidBy']) => items
+    .filter(item => item.paidBy === paidBy)
+    .reduce((sum, item) => sum + (item.amount ?? 0), 0)
+  const buyerTotal = total('buyer')
+
+  return {
+    propertyId: property.id,
+    price,
+    localBodyType,
+    rulesVersion: rules.version,
+    items,
+    buyerTotal,
+    sellerTotal: total('seller'),
+    buyerAllIn: price + buyerTotal,
+    assumptions
+  }
+}
@@ -0,0 +1,416 @@
+import { platform } from './platformClient'
+import { offlineStore } from './offlineStore'
+import { writeOutbox } from './writeOutbox'
+import type { AppLanguage, NepaliScript } from './nepaliLanguage'
+import type { PreferenceSource } from './preferenceExtraction'
+import type { UserFact } from './conversationSummary'
+
+// The one profile kept per user. Onboarding, the chat memory, the agent prompt and the
+// app store all read and write it through userProfileService. It is stored as a
+// userPreferences row; rows written before PROFILE_VERSION are upgraded on load.
+
+export type SearchIntent = 'rent' | 'buy' | 'invest' | 'list'
+export type HouseholdType = 'solo' | 'couple' | 'family' | 'roommates'
+
+export interface UserProfile {
+  id: string
+  userId: string
+  // What the user is here for, from onboarding
+  intent?: SearchIntent
+  householdType?: HouseholdType
+  propertyType?: string[]
+  priceRange?: { min: number; max: number }
+  locations?: string[]
+  // Places the user has ruled out, e.g. "not Thamel, too noisy"
+  excludedLocations?: string[]
+  bedrooms?: number
+  amenities?: string[]
+  // Anything else that rules a listing out: "no parking", "ground floor"
+  dealBreakers?: string[]
+  // Why each inferred preference is held: the message, when, and how sure
+  preferenceSources?: PreferenceSource[]
+  // Lasting facts learned in earlier conversations ("works near Pulchowk")
+  userFacts?: UserFact[]
+  searchHistory?: string[]
+  viewedProperties?: string[]
+  favoriteProperties?: string[]
+  communicationStyle?: 'detailed' | 'concise' | 'technical'
+  language?: AppLanguage
+  // How the user writes Nepali, so replies use the same script
+  languageScript?: NepaliScript
+  // Show prices and figures with Devanagari numerals in Nepali replies
+  devanagariNumerals?: boolean
+  // Nothing new is remembered while set: no transcripts, searches or inferred preferences
+  memoryPaused?: boolean
+  // When onboarding was finished; unset when it was skipped or never shown
+  onboardedAt?: number
+  updatedAt: number
+}
+
+// What the onboarding conversation collects
+export interface OnboardingAnswers {
+  intent: SearchIntent
+  householdType: HouseholdType
+  bedrooms?: number
+  location: string
+  amenities?: string[]
+  budget?: number
+}
+
+// 2: onboarding fields added; list columns always JSON arrays; one row per user
+export const PROFILE_VERSION = 2
+
+const SEARCH_INTENTS: SearchIntent[] = ['rent', 'buy', 'invest', 'list']
+const HOUSEHOLD_TYPES: HouseholdType[] = ['solo', 'couple', 'family', 'roommates']
+const COMMUNICATION_STYLES = ['detailed', 'concise', 'technical']
+
+const LIST_FIELDS = [
+  'propertyType', 'locations', 'excludedLocations', 'amenities', 'dealBreakers', 'searchHistory', 'viewedProperties', 'favoriteProperties'
+] as const
+// Values compared case-insensitively, as the chat extraction stores them
+const LOWERCASE_LIST_FIELDS = ['propertyType', 'locations', 'excludedLocations', 'amenities', 'dealBreakers']
+
+// Rent or buy, for budgets: investors are buying
+export function profileBudgetType(profile: Partial<UserProfile> | null | undefined): 'rent' | 'buy' | undefined {
+  if (profile?.intent === 'rent') return 'rent'
+  if (profile?.intent === 'buy' || profile?.intent === 'invest') return 'buy'
+  return undefined
+}
+
+// "looking for rental 2 bedrooms in patan monthly rent around NPR 40,000 with parking"
+export function profileSearchQuery(profile: Partial<UserProfile>): string {
+  const parts: string[] = []
+
+  if (profile.intent === 'rent') {
+    parts.push('looking for rental')
+  } else if (profile.intent === 'buy') {
+    parts.push('looking to buy')
+  }
+  if (profile.bedrooms) {
+    parts.push(`${profile.bedrooms} bedroom${profile.bedrooms > 1 ? 's' : ''}`)
+  }
+  if (profile.locations?.length) {
+    parts.push(`in ${profile.locations.join(' or ')}`)
+  }
+  if (profile.priceRange?.max) {
+    const budgetType = profileBudgetType(profile) === 'rent' ? 'monthly rent' : 'budget'
+    parts.push(`${budgetType} around NPR ${profile.priceRange.max.toLocaleString()}`)
+  }
+  if (profile.amenities?.length) {
+    parts.push(`with ${profile.amenities.join(', ')}`)
+  }
+
+  return parts.join(' ')
+}
+
+// Facts the agent need not ask for again, keyed like its clarification fields
+export function profileKnownFacts(profile: UserProfile | null): Record<string, string | number> {
+  const facts: Record<string, string | number> = {}
+  if (!profile) return facts
+
+  const budgetType = profileBudgetType(profile)
+  if (budgetType) facts.price_type = budgetType === 'rent' ? 'rent' : 'sale'
+  if (profile.propertyType?.length === 1) facts.property_type = profile.propertyType[0]
+  if (profile.locations?.length) facts.location = profile.locations.join(', ')
+  if (profile.bedrooms) facts.bedrooms = profile.bedrooms
+  if (profile.priceRange?.max) {
+    facts.budget = profile.priceRange.min ? `${profile.priceRange.min}-${profile.priceRange.max}` : profile.priceRange.max
+  }
+  return facts
+}
+
+// Onboarding answers are stated outright, so they are recorded as sources the user can revoke
+function onboardingUpdates(profile: UserProfile, answers: OnboardingAnswers): Partial<UserProfile> {
+  const now = Date.now()
+  const source = (field: PreferenceSource['field'], value: string): PreferenceSource => ({
+    field, value, messageId: 'onboarding', timestamp: now, confidence: 1, method: 'onboarding'
+  })
+  const merge = (existing: string[] | undefined, added: string[]) => Array.from(new Set([...(existing || []), ...added]))
+
+  const location = answers.location.trim().toLowerCase()
+  const amenities = (answers.amenities || []).map(amenity => amenity.toLowerCase())
+  const sources = [
+    ...(location ? [source('locations', location)] : []),
+    ...amenities.map(amenity => source('amenities', amenity)),
+    ...(answers.bedrooms ? [source('bedrooms', String(answers.bedrooms))] : []),
+    ...(answers.budget ? [source('priceRange', `0-${answers.budget}`)] : [])
+  ]
+  const replaced = new Set(sources.map(entry => `${entry.field}:${entry.value}`))
+
+  return {
+    intent: answers.intent,
+    householdType: answers.householdType,
+    locations: location ? merge(profile.locations, [location]) : profile.locations,
+    excludedLocations: (profile.excludedLocations || []).filter(place => place !== location),
+    amenities: merge(profile.amenities, amenities),
+    ...(answers.bedrooms ? { bedrooms: answers.bedrooms } : {}),
+    ...(answers.budget ? { priceRange: { min: 0, max: answers.budget } } : {}),
+    preferenceSources: [
+      ...(profile.preferenceSources || []).filter(entry => !replaced.has(`${entry.field}:${entry.value}`)),
+      ...sources
+    ],
+    onboardedAt: now
+  }
+}
+
+const parseJson = (value: any): any => {
+  if (typeof value !== 'string') return value
+  try {
+    return JSON.parse(value)
+  } catch {
+    return undefined
+  }
+}
+
+// Version 1 rows held JSON strings, and some older ones plain comma-separated text
+const parseList = (value: any): string[] => {
+  const parsed = parseJson(value)
+  if (Array.isArray(parsed)) return parsed.filter(item => typeof item === 'string')
+  if (typeof value === 'string' && value.trim() && parsed === undefined) {
+    return value.split(',').map(item => item.trim()).filter(Boolean)
+  }
+  return []
+}
+
+const cleanList = (values: string[], lowercase: boolean) =>
+  Array.from(new Set(values.map(value => (lowercase ? value.trim().toLowerCase() : value.trim())).filter(Boolean)))
+
+export function profileFromRow(row: any): UserProfile {
+  const lists = Object.fromEntries(
+    LIST_FIELDS.map(field => [field, cleanList(parseList(row[field]), LOWERCASE_LIST_FIELDS.includes(field))])
+  ) as Record<typeof LIST_FIELDS[number], string[]>
+  // A place cannot be both wanted and ruled out; the exclusion is the later, stronger signal
+  lists.locations = lists.locations.filter(place => !lists.excludedLocations.includes(place))
+
+  const priceMin = Number(row.priceRangeMin) || 0
+  const priceMax = Number(row.priceRangeMax) || 0
+  const bedrooms = Number(row.bedrooms) || 0
+  const sources = parseJson(row.preferenceSources)
+  const facts = parseJson(row.userFacts)
+
+  return {
+    id: row.id,
+    userId: row.userId,
+    ...(SEARCH_INTENTS.includes(row.intent) ? { intent: row.intent } : {}),
+    ...(HOUSEHOLD_TYPES.includes(row.householdType) ? { householdType: row.householdType } : {}),
+    ...lists,
+    priceRange: priceMin || priceMax ? { min: priceMin, max: priceMax } : undefined,
+    bedrooms: bedrooms > 0 ? bedrooms : undefined,
+    preferenceSources: Array.isArray(sources) ? sources : [],
+    userFacts: Array.isArray(facts) ? facts : [],
+    communicationStyle: COMMUNICATION_STYLES.includes(row.communicationStyle) ? row.communicationStyle : 'detailed',
+    language: row.language === 'ne' ? 'ne' : 'en',
+    languageScript: row.languageScript || undefined,
+    devanagariNumerals: Number(row.devanagariNumerals) > 0,
+    memoryPaused: Number(row.memoryPaused) > 0,
+    ...(Number(row.onboardedAt) > 0 ? { onboardedAt: Number(row.onboardedAt) } : {}),
+    updatedAt: Number(row.updatedAt) || Date.now()
+  }
+}
+
+// The columns for the fields in `updates`. Checked with `in`, so clearing a field
+// (a revoked budget, say) writes null rather than leaving the old value
+export function profileRowUpdates(profile: UserProfile, updates: Partial<UserProfile>): Record<string, any> {
+  const row: Record<string, any> = { updatedAt: profile.updatedAt }
+
+  for (const field of LIST_FIELDS) {
+    if (field in updates) row[field] = JSON.stringify(profile[field] || [])
+  }
+  if ('preferenceSources' in updates) row.preferenceSources = JSON.stringify(profile.preferenceSources || [])
+  if ('userFacts' in updates) row.userFacts = JSON.stringify(profile.userFacts || [])
+  if ('priceRange' in updates) {
+    row.priceRangeMin = profile.priceRange?.min ?? null
+    row.priceRangeMax = profile.priceRange?.max ?? null
+  }
+  if ('bedrooms' in updates) row.bedrooms = profile.bedrooms ?? null
+  if ('intent' in updates) row.intent = profile.intent ?? null
+  if ('householdType' in updates) row.householdType = profile.householdType ?? null
+  if ('communicationStyle' in updates) row.communicationStyle = profile.communicationStyle || 'detailed'
+  if ('language' in updates) row.language = profile.language || 'en'
+  if ('languageScript' in updates) row.languageScript = profile.languageScript ?? null
+  if ('devanagariNumerals' in updates) row.devanagariNumerals = profile.devanagariNumerals ? 1 : 0
+  if ('memoryPaused' in updates) row.memoryPaused = profile.memoryPaused ? 1 : 0
+  if ('onboardedAt' in updates) row.onboardedAt = profile.onboardedAt ?? null
+
+  return row
+}
+
+const STORED_FIELDS: Array<keyof UserProfile> = [
+  ...LIST_FIELDS, 'preferenceSources', 'userFacts', 'priceRange', 'bedrooms', 'intent', 'householdType',
+  'communicationStyle', 'language', 'languageScript', 'devanagariNumerals', 'memoryPaused', 'onboardedAt'
+]
+
+// Every column, for creating or rewriting a row
+export function profileToRow(profile: UserProfile): Record<string, any> {
+  const everyField = Object.fromEntries(STORED_FIELDS.map(field => [field, profile[field]])) as Partial<UserProfile>
+  return {
+    id: profile.id,
+    userId: profile.userId,
+    ...profileRowUpdates(profile, everyField),
+    profileVersion: PROFILE_VERSION
+  }
+}
+
+function newProfile(userId: string, id = `pref_${userId}`): UserProfile {
+  return {
+    id,
+    userId,
+    propertyType: [],
+    locations: [],
+    excludedLocations: [],
+    amenities: [],
+    dealBreakers: [],
+    searchHistory: [],
+    viewedProperties: [],
+    favoriteProperties: [],
+    communicationStyle: 'detailed',
+    language: 'en',
+    updatedAt: Date.now()
+  }
+}
+
+// Folds duplicate rows for one user into the newest: lists are combined, everything
+// else comes from the most recently updated row
+export function mergeProfiles(profiles: UserProfile[]): UserProfile {
+  const [newest, ...older] = [...profiles].sort((a, b) => b.updatedAt - a.updatedAt)
+  const merged: UserProfile = { ...newest }
+  for (const profile of older) {
+    for (const field of LIST_FIELDS) {
+      merged[field] = Array.from(new Set([...(merged[field] || []), ...(profile[field] || [])]))
+    }
+    merged.userFacts = [...(merged.userFacts || []), ...(profile.userFacts || []).filter(fact => !merged.userFacts?.some(known => known.id === fact.id))]
+    merged.preferenceSources = [...(merged.preferenceSources || []), ...(profile.preferenceSources || [])]
+    merged.intent ??= profile.intent
+    merged.householdType ??= profile.householdType
+    merged.priceRange ??= profile.priceRange
+    merged.bedrooms ??= profile.bedrooms
+    merged.onboardedAt ??= profile.onboardedAt
+  }
+  merged.locations = (merged.locations || []).filter(place => !merged.excludedLocations?.includes(place))
+  return merged
+}
+
+// Before version 2 onboarding was only remembered as a flag in this browser
+function legacyOnboardedAt(userId: string): number | undefined {
+  if (typeof localStorage === 'undefined') return undefined
+  return localStorage.getItem(`onboarding_completed_${userId}`) ? Date.now() : undefined
+}
+
+type ProfileListener = (profile: UserProfile | null) => void
+
+export class UserProfileService {
+  private profile: UserProfile | null = null
+  private loading: { userId: string; promise: Promise<UserProfile> } | null = null
+  private listeners = new Set<ProfileListener>()
+
+  get(): UserProfile | null {
+    return this.profile
+  }
+
+  // Loads once per user; later calls for the same user return the loaded profile
+  async load(userId: string): Promise<UserProfile> {
+    if (this.profile?.userId === userId) return this.profile
+    if (this.loading?.userId === userId) return this.loading.promise
+
+    const promise = this.fetch(userId)
+    this.loading = { userId, promise }
+    try {
+      this.profile = await promise
+      this.notify()
+      return this.profile
+    } finally {
+      this.loading = null
+    }
+  }
+
+  async update(updates: Partial<UserProfile>): Promise<void> {
+    if (!this.profile) return
+
+    this.profile = { ...this.profile, ...updates, updatedAt: Date.now() }
+    this.notify()
+    await offlineStore.put('profiles', this.profile.userId, this.profile)
+
+    try {
+      await writeOutbox.run({
+        table: 'userPreferences',
+        action: 'update',
+        rowId: this.profile.id,
+        data: profileRowUpdates(this.profile, updates)
+      })
+    } catch (error) {
+      console.error('Failed to update preferences:', error)
+      // The row may have been deleted elsewhere; write the whole profile back
+      const message = error instanceof Error ? error.message : ''
+      if (message.includes('NOT NULL constraint') || message.includes('no such rowid')) {
+        try {
+          await platform.db.userPreferences.create({ ...profileToRow(this.profile), createdAt: Date.now() })
+        } catch (recreateError) {
+          console.error('Failed to recreate preferences:', recreateError)
+        }
+      }
+    }
+  }
+
+  async applyOnboarding(userId: string, answers: OnboardingAnswers): Promise<void> {
+    const profile = await this.load(userId)
+    await this.update(onboardingUpdates(profile, answers))
+  }
+
+  onChange(listener: ProfileListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener(this.profile)
+  }
+
+  private async fetch(userId: string): Promise<UserProfile> {
+    try {
+      const rows = await platform.db.userPreferences.list({
+        where: { userId },
+        orderBy: { updatedAt: 'desc' }
+      })
+
+      if (rows.length === 0) {
+        const profile = newProfile(userId)
+        profile.onboardedAt = legacyOnboardedAt(userId)
+        const { id: _id, ...row } = profileToRow(profile)
+        const created = await platform.db.userPreferences.create({ ...row, createdAt: Date.now() })
+        return await this.keepOffline({ ...profile, id: created.id })
+      }
+
+      const current = rows.length === 1 && Number(rows[0].profileVersion) >= PROFILE_VERSION
+      return await this.keepOffline(current ? profileFromRow(rows[0]) : await this.migrate(userId, rows))
+    } catch (error) {
+      console.error('Failed to load user preferences:', error)
+      // Offline, the copy saved on this device keeps onboarding and favourites as they were
+      return (await offlineStore.get<UserProfile>('profiles', userId)) || newProfile(userId)
+    }
+  }
+
+  private async keepOffline(profile: UserProfile): Promise<UserProfile> {
+    await offlineStore.put('profiles', profile.userId, profile)
+    return profile
+  }
+
+  // Upgrades version 1 rows: lists parsed and cleaned, duplicates merged into the newest
+  // row and deleted, and the onboarding flag moved in from localStorage
+  private async migrate(userId: string, rows: any[]): Promise<UserProfile> {
+    const profile = mergeProfiles(rows.map(profileFromRow))
+    if (profile.onboardedAt === undefined) {
+      const onboardedAt = legacyOnboardedAt(userId)
+      if (onboardedAt) profile.onboardedAt = onboardedAt
+    }
+
+    await platform.db.userPreferences.update(profile.id, profileToRow(profile))
+    for (const row of rows) {
+      if (row.id !== profile.id) await platform.db.userPreferences.delete(row.id)
+    }
+    return profile
+  }
+}
+
+export const userProfileService = new UserProfileService()
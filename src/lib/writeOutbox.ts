@@ -0,0 +1,182 @@
+import { platform, type PlatformTableName } from './platformClient'
+import { offlineStore } from './offlineStore'
+
+// Writes made without a connection, kept on the device and sent in the order they were
+// made once it returns. Only connection failures are queued; a write the server refuses
+// fails for the caller as it always did
+
+export interface OutboxWrite {
+  table: PlatformTableName
+  action: 'create' | 'update' | 'delete'
+  // The row updated or deleted; a create carries its id in data
+  rowId?: string
+  data?: Record<string, any>
+}
+
+interface OutboxEntry extends OutboxWrite {
+  id: string
+  // Queue position, which survives reloads
+  order: number
+  queuedAt: number
+  attempts: number
+}
+
+export type OutboxResult = 'saved' | 'queued'
+
+type OutboxListener = (pending: number) => void
+
+// Retried on this interval too, since the browser can be online while the server is not
+const RETRY_INTERVAL_MS = 30000
+
+// The device is offline, the request never got an answer, or the server was briefly
+// unavailable. The SDK reports all of these as NETWORK_ERROR, with status 0 when no
+// response arrived
+export function isConnectionError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true
+  const { code, status } = (error || {}) as { code?: string; status?: number }
+  return code === 'NETWORK_ERROR' && (!status || status === 408 || status === 429 || status >= 500)
+}
+
+async function send(write: OutboxWrite): Promise<void> {
+  const table = platform.db[write.table]
+  if (write.action === 'create') {
+    await table.create(write.data || {})
+  } else if (write.action === 'update') {
+    await table.update(write.rowId as string, write.data || {})
+  } else {
+    await table.delete(write.rowId as string)
+  }
+}
+
+export class WriteOutbox {
+  private entries: OutboxEntry[] | null = null
+  private loading: Promise<OutboxEntry[]> | null = null
+  private flushing: Promise<void> | null = null
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private sequence = 0
+  private listeners = new Set<OutboxListener>()
+
+  // Sends the write now, or queues it when there is no connection. While anything is
+  // queued new writes wait behind it, so the server never sees them out of order
+  async run(write: OutboxWrite): Promise<OutboxResult> {
+    const entries = await this.load()
+    if (entries.length === 0) {
+      try {
+        await send(write)
+        return 'saved'
+      } catch (error) {
+        if (!isConnectionError(error)) throw error
+      }
+    }
+
+    const entry: OutboxEntry = {
+      ...write,
+      id: `write_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      order: Date.now() * 1000 + (this.sequence++ % 1000),
+      queuedAt: Date.now(),
+      attempts: 0
+    }
+    entries.push(entry)
+    await offlineStore.put('outbox', entry.id, entry)
+    this.notify()
+    this.scheduleRetry()
+    return 'queued'
+  }
+
+  // Sends queued writes until one fails for want of a connection
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null
+      })
+    }
+    return this.flushing
+  }
+
+  // Sends whatever an earlier visit left queued, and again whenever the browser reconnects
+  start(): () => void {
+    const handleOnline = () => {
+      this.flush()
+    }
+    window.addEventListener('online', handleOnline)
+    this.flush()
+    return () => window.removeEventListener('online', handleOnline)
+  }
+
+  // Drops queued writes so they are never sent, such as those of data the user has
+  // erased. Writes are offered in the order they were made
+  async discard(matches: (write: OutboxWrite) => boolean): Promise<number> {
+    const entries = await this.load()
+    const dropped = entries.filter(matches)
+    for (const entry of dropped) {
+      entries.splice(entries.indexOf(entry), 1)
+      await offlineStore.delete('outbox', entry.id)
+    }
+    if (dropped.length > 0) this.notify()
+    return dropped.length
+  }
+
+  pendingCount(): number {
+    return this.entries?.length || 0
+  }
+
+  onChange(listener: OutboxListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async drain(): Promise<void> {
+    const entries = await this.load()
+    while (entries.length > 0) {
+      const entry = entries[0]
+      try {
+        await send(entry)
+      } catch (error) {
+        if (isConnectionError(error)) {
+          entry.attempts++
+          await offlineStore.put('outbox', entry.id, entry)
+          this.scheduleRetry()
+          return
+        }
+        // A create that reached the server before the connection dropped comes back as a duplicate
+        const message = error instanceof Error ? error.message : ''
+        if (!(entry.action === 'create' && message.includes('UNIQUE constraint'))) {
+          console.error('Dropped a queued write the server refused:', entry, error)
+        }
+      }
+      // Removed by position, since it may have been discarded while it was being sent
+      const index = entries.indexOf(entry)
+      if (index >= 0) entries.splice(index, 1)
+      await offlineStore.delete('outbox', entry.id)
+      this.notify()
+    }
+  }
+
+  private load(): Promise<OutboxEntry[]> {
+    if (this.entries) return Promise.resolve(this.entries)
+    if (!this.loading) {
+      this.loading = offlineStore.getAll<OutboxEntry>('outbox').then(stored => {
+        this.entries = stored.sort((a, b) => a.order - b.order)
+        this.notify()
+        return this.entries
+      })
+    }
+    return this.loading
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) return
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.flush()
+    }, RETRY_INTERVAL_MS)
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) listener(this.pendingCount())
+  }
+}
+
+export const writeOutbox = new WriteOutbox()
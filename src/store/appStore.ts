@@ -1,19 +1,12 @@
 import { create } from 'zustand'
-import { Property } from '@/types'
-
-interface UserPreferences {
-  intent: string
-  householdType: string
-  bedrooms?: number
-  location: string
-  amenities: string[]
-  budget: number
-  budgetType: 'rent' | 'buy'
-}
+import { Property, SearchFilters } from '@/types'
+import { EMPTY_FILTERS, type ListingSort } from '@/lib/listingFilters'
+import type { AreaDisplay } from '@/lib/landUnits'
+import { profileBudgetType, type UserProfile } from '@/lib/userProfile'
 
 interface SearchContext {
   query: string
-  preferences?: UserPreferences
+  preferences?: Partial<UserProfile>
   timestamp: Date
   results?: Property[]
 }
@@ -28,11 +21,18 @@ interface AppState {
   isFilterPanelOpen: boolean
   activeView: 'map' | 'list'
   mapProvider: 'google' | 'osm'
+  listingFilters: SearchFilters
+  listingSort: ListingSort
+  // Units listing sizes are shown in; saved per user
+  areaDisplay: AreaDisplay
   
   // Search and conversation state
   searchHistory: SearchContext[]
   currentSearchContext: SearchContext | null
-  userPreferences: UserPreferences | null
+  // Mirrors userProfileService; written there, never here
+  userProfile: UserProfile | null
+  // Bumped when memory is wiped or paused from the privacy centre, so open views re-read it
+  memoryRevision: number
   
   // Properties state
   properties: Property[]
@@ -51,11 +51,17 @@ interface AppState {
   toggleFilterPanel: () => void
   setActiveView: (view: 'map' | 'list') => void
   setMapProvider: (provider: 'google' | 'osm') => void
+  setListingFilters: (filters: SearchFilters) => void
+  setListingSort: (sort: ListingSort) => void
+  setAreaDisplay: (display: AreaDisplay) => void
   
   // Search actions
   addSearchContext: (context: SearchContext) => void
   setCurrentSearchContext: (context: SearchContext | null) => void
-  setUserPreferences: (preferences: UserPreferences | null) => void
+  setUserProfile: (profile: UserProfile | null) => void
+  // Drops this page's copies of search context after the user erases their memory
+  clearSearchMemory: () => void
+  bumpMemoryRevision: () => void
   
   // Properties actions
   setProperties: (properties: Property[]) => void
@@ -80,9 +86,13 @@ const initialState = {
   isFilterPanelOpen: false,
   activeView: 'map' as const,
   mapProvider: 'google' as const,
+  listingFilters: EMPTY_FILTERS,
+  listingSort: 'relevance' as ListingSort,
+  areaDisplay: 'listed' as AreaDisplay,
   searchHistory: [],
   currentSearchContext: null,
-  userPreferences: null,
+  userProfile: null,
+  memoryRevision: 0,
   properties: [],
   allProperties: [],
   selectedProperty: null,
@@ -103,6 +113,9 @@ export const useAppStore = create<AppState>((set, get) => ({
   toggleFilterPanel: () => set((state) => ({ isFilterPanelOpen: !state.isFilterPanelOpen })),
   setActiveView: (view) => set({ activeView: view }),
   setMapProvider: (provider) => set({ mapProvider: provider }),
+  setListingFilters: (filters) => set({ listingFilters: filters }),
+  setListingSort: (sort) => set({ listingSort: sort }),
+  setAreaDisplay: (display) => set({ areaDisplay: display }),
   
   // Search actions
   addSearchContext: (context) => set((state) => ({
@@ -112,7 +125,10 @@ export const useAppStore = create<AppState>((set, get) => ({
   
   setCurrentSearchContext: (context) => set({ currentSearchContext: context }),
   
-  setUserPreferences: (preferences) => set({ userPreferences: preferences }),
+  setUserProfile: (profile) => set({ userProfile: profile }),
+
+  clearSearchMemory: () => set({ searchHistory: [], currentSearchContext: null }),
+  bumpMemoryRevision: () => set((state) => ({ memoryRevision: state.memoryRevision + 1 })),
   
   // Properties actions
   setProperties: (properties) => set({ properties }),
@@ -134,19 +150,23 @@ export const useAppStore = create<AppState>((set, get) => ({
   
   getSearchSummary: () => {
     const state = get()
-    const { userPreferences, searchHistory, currentSearchContext } = state
+    const { userProfile, searchHistory, currentSearchContext } = state
     
     let summary = ''
     
-    if (userPreferences) {
-      summary += `User Profile: Looking to ${userPreferences.intent} `
-      if (userPreferences.bedrooms) {
-        summary += `${userPreferences.bedrooms}BR `
+    if (userProfile?.intent) {
+      summary += `User Profile: Looking to ${profileBudgetType(userProfile) || userProfile.intent} `
+      if (userProfile.bedrooms) {
+        summary += `${userProfile.bedrooms}BR `
+      }
+      if (userProfile.locations?.length) {
+        summary += `in ${userProfile.locations.join(', ')} `
+      }
+      if (userProfile.priceRange?.max) {
+        summary += `with budget NPR ${userProfile.priceRange.max.toLocaleString()} `
       }
-      summary += `in ${userPreferences.location} `
-      summary += `with budget NPR ${userPreferences.budget.toLocaleString()} `
-      if (userPreferences.amenities.length > 0) {
-        summary += `preferring ${userPreferences.amenities.join(', ')} `
+      if (userProfile.amenities?.length) {
+        summary += `preferring ${userProfile.amenities.join(', ')} `
       }
       summary += '. '
     }
@@ -164,4 +184,4 @@ export const useAppStore = create<AppState>((set, get) => ({
   }
 }))
 
-export type { UserPreferences, SearchContext }
\ No newline at end of file
+export type { SearchContext }
\ No newline at end of file
@@ -1,3 +1,11 @@
+// Hill land is measured in ropani-aana-paisa-daam, Terai land in bigha-kattha-dhur
+export type AreaUnit = 'sqft' | 'sqm' | 'ropani' | 'aana' | 'paisa' | 'daam' | 'bigha' | 'kattha' | 'dhur'
+
+export interface AreaPart {
+  value: number
+  unit: AreaUnit
+}
+
 export interface Property {
   id: string
   title: string
@@ -8,7 +16,12 @@ export interface Property {
   bedrooms?: number
   bathrooms?: number
   area: number
-  areaUnit: 'sqft' | 'sqm'
+  areaUnit: AreaUnit
+  // Compound measurements exactly as listed, e.g. 1 ropani 4 aana. area and areaUnit
+  // then hold the same total in the largest unit
+  areaParts?: AreaPart[]
+  // For comparing and sorting listings measured in different units
+  areaSqm?: number
   location: {
     address: string
     city: string
@@ -39,6 +52,7 @@ export interface Property {
   aiExplanation?: string
 }
 
+// A min or max of 0 leaves that end of a range open
 export interface SearchFilters {
   priceRange: {
     min: number
@@ -47,6 +61,7 @@ export interface SearchFilters {
   propertyType: string[]
   bedrooms?: number
   bathrooms?: number
+  // In square metres, so listings measured in any unit compare directly
   areaRange: {
     min: number
     max: number